@@ -0,0 +1,332 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * Confidential basket OTC orders - Zama FHEVM + ERC-7984 confidential tokens
+ *
+ * - A basket order trades up to MAX_LEGS confidential tokens on each side, e.g. two tokens for one. Every leg
+ *   amount is encrypted, and all of them come from one input proof.
+ * - createBasketOrder escrows every tokenOut leg (this contract must be the maker's operator on each tokenOut).
+ *   The basket is open only if every leg was escrowed in full; an underfunded maker gets a basket no fill can take.
+ * - fillBasketOrder takes the whole basket in one call, with an encrypted payment per tokenIn leg (this contract
+ *   must be the taker's operator on each tokenIn). Settlement is atomic under FHE: every leg is swapped if the
+ *   basket is still open, the taker passes the encrypted allowlist and every payment covers its leg; otherwise
+ *   every leg goes back to its owner. Nobody learns which branch ran. A call that reverts (e.g. a missing
+ *   operator approval on one token) undoes all legs.
+ * - No gateway round trip and no partial fills: the outcome is settled in the fill transaction, like signed
+ *   orders in ConfidentialOtcEscrowWithOZ.
+ * - Fees and pause follow the OTC escrow this basket escrow is bound to, so a basket is no way around either.
+ *   Each tokenOut leg takes the highest pairFeeBps of the escrow's (tokenIn leg, that tokenOut) pairs from what
+ *   the taker receives, fixed at creation like orders; a one-for-one basket pays exactly its pair fee. Fees
+ *   accrue per token here and the escrow's feeRecipient withdraws them. While the escrow is paused, baskets
+ *   cannot be created or filled.
+ * - cancelBasketOrder returns what is left in escrow to the maker; anyone may call it once the deadline passed.
+ *   It stays open while paused: baskets have no pending fills, so it is the makers' way out.
+ */
+
+import {FHE, ebool, euint64, euint128, externalEuint64, eaddress, externalEaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {IERC7984Minimal} from "./ConfidentialOtcEscrow.sol";
+
+/// Fee and pause settings read from ConfidentialOtcEscrowWithOZ.
+interface IOtcEscrowPolicy {
+    function paused() external view returns (bool);
+
+    function pairFeeBps(address tokenIn, address tokenOut) external view returns (uint16);
+
+    function feeRecipient() external view returns (address);
+}
+
+contract ConfidentialBasketEscrow is SepoliaConfig {
+    uint256 public constant MAX_LEGS = 4; // per side
+
+    IOtcEscrowPolicy public immutable escrow; // source of pair fees, fee recipient and pause state
+
+    struct Leg {
+        address token;
+        euint64 amount; // encrypted; tokenIn legs: price asked, tokenOut legs: basket size
+    }
+
+    struct BasketOrder {
+        address maker;
+        Leg[] legsIn; // what the taker pays, leg by leg
+        Leg[] legsOut; // what the maker escrowed, leg by leg
+        euint64[] remainingOut; // per tokenOut leg: what this contract still holds for the basket
+        uint16[] feeBpsOut; // per tokenOut leg: fee taken from what the taker receives, fixed at creation
+        eaddress takerEnc; // encrypted allowlisted taker, 0 => anyone
+        ebool openEnc; // escrowed in full and not filled yet
+        uint64 deadline;
+        bool cancelled;
+    }
+
+    struct BasketFill {
+        address taker;
+        ebool filledEnc; // whether this fill swapped the basket (maker and taker can decrypt)
+    }
+
+    event BasketOrderCreated(
+        uint256 indexed id,
+        address indexed maker,
+        address[] tokensIn,
+        address[] tokensOut,
+        uint64 deadline
+    );
+    event BasketFilled(uint256 indexed id, address indexed taker, uint256 fillIndex);
+    event BasketOrderCancelled(uint256 indexed id);
+    event FeesWithdrawn(address indexed token, address indexed to);
+
+    uint256 public nextBasketId;
+    mapping(uint256 => BasketOrder) private _baskets;
+    mapping(uint256 => BasketFill[]) private _fills;
+    mapping(address => euint64) private _accruedFees; // per token, decryptable by the fee recipient
+
+    constructor(address _escrow) {
+        require(_escrow != address(0), "escrow=0");
+        escrow = IOtcEscrowPolicy(_escrow);
+    }
+
+    // ----------------------
+    // Maker: create a basket
+    // ----------------------
+    /// @param tokensIn tokens the taker pays, one per leg
+    /// @param amountsInExt external handles of the amount asked for each tokensIn leg
+    /// @param tokensOut tokens the maker escrows, one per leg
+    /// @param amountsOutExt external handles of the amount escrowed for each tokensOut leg
+    /// @param takerExt optional encrypted taker allowlist (zero address => anyone)
+    /// @param attestation input proof covering every handle above
+    /// @param deadline unix seconds
+    function createBasketOrder(
+        address[] calldata tokensIn,
+        externalEuint64[] calldata amountsInExt,
+        address[] calldata tokensOut,
+        externalEuint64[] calldata amountsOutExt,
+        externalEaddress takerExt,
+        bytes calldata attestation,
+        uint64 deadline
+    ) external returns (uint256 id) {
+        _requireNotPaused();
+        require(deadline > block.timestamp, "deadline past");
+        _checkLegs(tokensIn, amountsInExt.length);
+        _checkLegs(tokensOut, amountsOutExt.length);
+
+        id = nextBasketId++;
+        {
+            BasketOrder storage b = _baskets[id];
+            b.maker = msg.sender;
+            b.deadline = deadline;
+
+            b.takerEnc = FHE.fromExternal(takerExt, attestation);
+            FHE.allowThis(b.takerEnc);
+            FHE.allow(b.takerEnc, msg.sender);
+
+            _addLegsIn(b, tokensIn, amountsInExt, attestation);
+            _setFees(b, tokensIn, tokensOut);
+            b.openEnc = _escrowLegsOut(b, tokensOut, amountsOutExt, attestation);
+            FHE.allowThis(b.openEnc);
+            FHE.allow(b.openEnc, msg.sender);
+        }
+
+        emit BasketOrderCreated(id, msg.sender, tokensIn, tokensOut, deadline);
+    }
+
+    // ----------------------
+    // Taker: fill a basket
+    // ----------------------
+    /// Pulls one payment per tokenIn leg and settles every leg on the same encrypted outcome: the swap happens
+    /// only if the basket is open, the taker is allowed and each payment covers its leg. The maker receives
+    /// exactly the amounts asked and the taker gets any overpayment back, and each tokenOut leg minus its fee;
+    /// on failure every payment is refunded and the escrow stays in the basket.
+    /// @param paysExt external handles of the taker's payment for each tokenIn leg, in leg order
+    function fillBasketOrder(
+        uint256 id,
+        externalEuint64[] calldata paysExt,
+        bytes calldata attestation
+    ) external returns (uint256 fillIndex) {
+        _requireNotPaused();
+        BasketOrder storage b = _baskets[id];
+        require(b.maker != address(0), "no order");
+        require(!b.cancelled, "closed");
+        require(block.timestamp <= b.deadline, "expired");
+        require(paysExt.length == b.legsIn.length, "length mismatch");
+
+        ebool ok = FHE.and(b.openEnc, _isAllowedTaker(b.takerEnc, msg.sender));
+        euint64[] memory paid = new euint64[](paysExt.length);
+        for (uint256 i = 0; i < paysExt.length; i++) {
+            paid[i] = _pull(b.legsIn[i].token, msg.sender, FHE.fromExternal(paysExt[i], attestation));
+            ok = FHE.and(ok, FHE.ge(paid[i], b.legsIn[i].amount));
+        }
+
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < paid.length; i++) {
+            euint64 toMaker = FHE.select(ok, b.legsIn[i].amount, zero);
+            _payout(b.legsIn[i].token, b.maker, toMaker);
+            _payout(b.legsIn[i].token, msg.sender, FHE.sub(paid[i], toMaker));
+        }
+        for (uint256 i = 0; i < b.legsOut.length; i++) {
+            euint64 toTaker = FHE.select(ok, b.remainingOut[i], zero);
+            _payout(b.legsOut[i].token, msg.sender, _takeFee(b.legsOut[i].token, toTaker, b.feeBpsOut[i]));
+            b.remainingOut[i] = _keep(FHE.sub(b.remainingOut[i], toTaker), b.maker);
+        }
+
+        b.openEnc = FHE.and(b.openEnc, FHE.not(ok));
+        FHE.allowThis(b.openEnc);
+        FHE.allow(b.openEnc, b.maker);
+
+        FHE.allowThis(ok);
+        FHE.allow(ok, b.maker);
+        FHE.allow(ok, msg.sender);
+        fillIndex = _fills[id].length;
+        _fills[id].push(BasketFill({taker: msg.sender, filledEnc: ok}));
+
+        emit BasketFilled(id, msg.sender, fillIndex);
+    }
+
+    // ----------------------
+    // Maker (or anyone after the deadline): cancel
+    // ----------------------
+    /// Closes the basket and returns what is left of every tokenOut leg to the maker (nothing once filled).
+    function cancelBasketOrder(uint256 id) external {
+        BasketOrder storage b = _baskets[id];
+        require(b.maker != address(0), "no order");
+        require(!b.cancelled, "closed");
+        require(b.maker == msg.sender || block.timestamp > b.deadline, "only maker");
+
+        b.cancelled = true;
+        for (uint256 i = 0; i < b.legsOut.length; i++) {
+            _payout(b.legsOut[i].token, b.maker, b.remainingOut[i]);
+            b.remainingOut[i] = _keep(FHE.asEuint64(0), b.maker);
+        }
+
+        emit BasketOrderCancelled(id);
+    }
+
+    // ----------------------
+    // Fees
+    // ----------------------
+    /// Sends all fees accrued in `token` to the escrow's fee recipient.
+    function withdrawFees(address token) external {
+        address recipient = escrow.feeRecipient();
+        require(msg.sender == recipient, "only fee recipient");
+        euint64 amount = _accruedFees[token];
+        require(FHE.isInitialized(amount), "no fees");
+
+        _accruedFees[token] = _keep(FHE.asEuint64(0), recipient);
+        _payout(token, recipient, amount);
+
+        emit FeesWithdrawn(token, recipient);
+    }
+
+    // ----------------------
+    // Views
+    // ----------------------
+    function basketOrder(uint256 id) external view returns (BasketOrder memory) {
+        return _baskets[id];
+    }
+
+    function getBasketFills(uint256 id) external view returns (BasketFill[] memory) {
+        return _fills[id];
+    }
+
+    function isOpen(uint256 id) external view returns (bool) {
+        BasketOrder storage b = _baskets[id];
+        return b.maker != address(0) && !b.cancelled && block.timestamp <= b.deadline && !escrow.paused();
+    }
+
+    function accruedFees(address token) external view returns (euint64) {
+        return _accruedFees[token];
+    }
+
+    // ----------------------
+    // Helpers
+    // ----------------------
+    function _checkLegs(address[] calldata tokens, uint256 amounts) internal pure {
+        require(tokens.length > 0 && tokens.length <= MAX_LEGS, "legs");
+        require(tokens.length == amounts, "length mismatch");
+        for (uint256 i = 0; i < tokens.length; i++) {
+            require(tokens[i] != address(0), "token=0");
+        }
+    }
+
+    function _requireNotPaused() internal view {
+        if (escrow.paused()) revert Pausable.EnforcedPause();
+    }
+
+    /// Fixes the fee of every tokenOut leg of `b`: the highest escrow pair fee against any of its tokenIn legs.
+    function _setFees(BasketOrder storage b, address[] calldata tokensIn, address[] calldata tokensOut) internal {
+        for (uint256 j = 0; j < tokensOut.length; j++) {
+            uint16 feeBps = 0;
+            for (uint256 i = 0; i < tokensIn.length; i++) {
+                uint16 pairFee = escrow.pairFeeBps(tokensIn[i], tokensOut[j]);
+                if (pairFee > feeBps) feeBps = pairFee;
+            }
+            b.feeBpsOut.push(feeBps);
+        }
+    }
+
+    /// Records the price asked for every tokenIn leg of `b`.
+    function _addLegsIn(
+        BasketOrder storage b,
+        address[] calldata tokens,
+        externalEuint64[] calldata amountsExt,
+        bytes calldata attestation
+    ) internal {
+        for (uint256 i = 0; i < tokens.length; i++) {
+            euint64 amount = _keep(FHE.fromExternal(amountsExt[i], attestation), b.maker);
+            b.legsIn.push(Leg({token: tokens[i], amount: amount}));
+        }
+    }
+
+    /// Escrows every tokenOut leg of `b` from the maker and returns whether each one came in full.
+    function _escrowLegsOut(
+        BasketOrder storage b,
+        address[] calldata tokens,
+        externalEuint64[] calldata amountsExt,
+        bytes calldata attestation
+    ) internal returns (ebool funded) {
+        funded = FHE.asEbool(true);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            euint64 amount = _keep(FHE.fromExternal(amountsExt[i], attestation), b.maker);
+            euint64 escrowed = _keep(_pull(tokens[i], b.maker, amount), b.maker);
+            funded = FHE.and(funded, FHE.eq(escrowed, amount));
+            b.legsOut.push(Leg({token: tokens[i], amount: amount}));
+            b.remainingOut.push(escrowed);
+        }
+    }
+
+    /// Accrues `feeBps` of `amount` (in `token`) for the fee recipient and returns the rest, like the OTC escrow.
+    function _takeFee(address token, euint64 amount, uint16 feeBps) internal returns (euint64 net) {
+        if (feeBps == 0) {
+            return amount;
+        }
+
+        euint64 fee = FHE.asEuint64(FHE.div(FHE.mul(FHE.asEuint128(amount), uint128(feeBps)), 10_000));
+        _accruedFees[token] = _keep(FHE.add(_accruedFees[token], fee), escrow.feeRecipient());
+        return FHE.sub(amount, fee);
+    }
+
+    /// Persists `value` for this contract and lets `account` decrypt it.
+    function _keep(euint64 value, address account) internal returns (euint64) {
+        FHE.allowThis(value);
+        FHE.allow(value, account);
+        return value;
+    }
+
+    /// Pulls `amount` of `from`'s `token` balance into this contract and returns what was actually transferred.
+    function _pull(address token, address from, euint64 amount) internal returns (euint64 transferred) {
+        FHE.allowTransient(amount, token);
+        transferred = IERC7984Minimal(token).confidentialTransferFrom(from, address(this), amount);
+    }
+
+    /// Moves `amount` of this contract's confidential `token` balance to `to`.
+    function _payout(address token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, token);
+        IERC7984Minimal(token).confidentialTransfer(to, amount);
+    }
+
+    /// takerEnc == 0 (basket open to anyone) || takerEnc == taker
+    function _isAllowedTaker(eaddress takerEnc, address taker) internal returns (ebool) {
+        ebool anyone = FHE.eq(takerEnc, FHE.asEaddress(address(0)));
+        return FHE.or(anyone, FHE.eq(takerEnc, FHE.asEaddress(taker)));
+    }
+}
@@ -8,47 +8,116 @@ pragma solidity ^0.8.20;
  *   with confidential-token flows (OpenZeppelin ERC-7984 style).
  *
  * - Flow:
- *   1) Maker prepares ciphertexts (amountIn, amountOut) using a relayer/Gateway and either:
- *        a) moves the amountOut ciphertext into this contract via the confidential token's
- *           `confidentialTransferFrom(maker -> this)` before calling createOrder, OR
- *        b) lets createOrder call the token's `confidentialTransferFrom` itself.
- *   2) Maker calls createOrder(...) giving external handles + attestation.
- *   3) Taker prepares a ciphertext for pay-in and calls fillOrder(...) (records taker handle).
- *   4) This emits FillRequested. The FHE execution layer / Gateway validates equality (amountIn == takerPay)
- *      and performs the confidential token movement (takerPay -> maker, amountOut -> taker).
- *   5) After that off-chain step, the Gateway calls finalizeFill(...) on-chain to mark the order filled.
+ *   1) Maker prepares ciphertexts (amountIn, amountOut) using a relayer/Gateway and makes this contract its
+ *      operator on tokenOut.
+ *   2) Maker calls createOrder(...) giving external handles + attestation. createOrder pulls the imported amountOut
+ *      handle itself, so one input proof covers both the order terms and the escrowed amount.
+ *   3) Taker prepares ciphertexts for pay-in and for the part of amountOut they want, and calls fillOrder(...)
+ *      (pulls the payment into escrow and appends a fill record; this contract must be the taker's operator on
+ *      tokenIn). Orders can be filled in several parts by different takers until the maker cancels or the
+ *      deadline passes.
+ *      A request reserves the order for its taker for `fillLockWindow` seconds: other takers' requests revert
+ *      until the reserved fills are settled or the window lapses (later requests then queue behind them). The
+ *      taker's further requests do not extend the window.
+ *   4) This emits FillRequested. The Gateway then calls finalizeFill(...), which settles the oldest pending
+ *      fill on-chain: the fill is accepted if the taker passes the encrypted allowlist, fits the encrypted
+ *      remaining amountOut and pays at least the pro-rata price (pay * pricedOut >= receive * amountIn, where
+ *      pricedOut is the order size, or the remaining amountOut when the maker last amended the price).
+ *      Accepted: takerPay -> maker, receive -> taker.
+ *      Rejected: takerPay -> taker. Nobody learns which branch ran.
+ *   5) cancelOrder / reclaimExpired return the remaining amountOut to the maker and refund pending fills.
+ *
+ * - Fees: a basis-point fee per (tokenIn, tokenOut) pair is taken from the amountOut a taker receives and accrued
+ *   to an encrypted per-token balance that the fee recipient withdraws. Orders keep the fee in force at creation.
+ *
+ * - Roles (AccessControl): DEFAULT_ADMIN_ROLE manages roles and rotates the gateway, GATEWAY_ROLE settles fills,
+ *   PAUSER_ROLE pauses createOrder / fillOrder / fillSignedOrder / amendOrder / cancelOrder, FEE_MANAGER_ROLE
+ *   configures fees. While paused, makers pull their escrow out of an order with emergencyWithdraw instead of
+ *   cancelOrder.
+ *
+ * - Signed orders (RFQ): instead of posting an order, a maker can sign an EIP-712 SignedOrder off-chain for one
+ *   taker, with amountIn/amountOut encrypted for (this contract, taker). The taker settles it in a single
+ *   fillSignedOrder call: both legs are pulled (the maker must have set this contract as operator on tokenOut)
+ *   and swapped if the payment covers amountIn, or returned to their owners otherwise. Each (maker, nonce) can be
+ *   used once; makers withdraw quotes with cancelNonce.
+ *
+ * - Batches (Multicall): multicall(bytes[]) runs several calls as the caller in one transaction, e.g. many
+ *   createOrder / cancelOrder / fillOrder calls. Their encrypted values can come from one input proof: every call
+ *   passes the same attestation with its own handles. A failing call reverts the whole batch.
  *
  * NOTE: adapt IERC7984 method names / signatures to match your installed OpenZeppelin confidential-contracts version.
  */
 
-import {FHE, euint64, externalEuint64, eaddress, externalEaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64, eaddress, externalEaddress} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {Multicall} from "@openzeppelin/contracts/utils/Multicall.sol";
 
 /// Minimal ERC-7984-like interface for confidential tokens.
 /// Replace / remove this interface and import the real OZ interface if available in your project.
 interface IERC7984Minimal {
-    /// Confidential transfer where caller moves `amountExt` ciphertext from `from` to `to`.
-    /// The exact signature in OZ may differ; adapt accordingly.
-    function confidentialTransferFrom(
-        address from,
-        address to,
-        externalEuint64 amountExt,
-        bytes calldata attestation
-    ) external;
-
     /// Confidential transfer that moves an already-owned ciphertext (internal handle) to `to`.
     /// Some token implementations may instead expose different APIs — adapt when needed.
     function confidentialTransferTo(address to, externalEuint64 amountExt, bytes calldata attestation) external;
+
+    /// OZ overload: caller moves its own balance using an internal handle it is allowed to use.
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// OZ overload: operator moves `from`'s balance using an internal handle it is allowed to use.
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
 }
 
 /// Public interface for the OTC escrow (so external tools/tests can import it).
 interface IConfidentialOtcEscrow {
     // Events
-    event OrderCreated(uint256 indexed id, address indexed maker, address tokenIn, address tokenOut, uint64 deadline);
-    event FillRequested(uint256 indexed id, address indexed taker);
-    event OrderFinalized(uint256 indexed id, address indexed taker);
+    event OrderCreated(
+        uint256 indexed id,
+        address indexed maker,
+        address tokenIn,
+        address tokenOut,
+        uint64 deadline,
+        uint64 createdAt,
+        uint64 createdBlock
+    );
+    event FillRequested(uint256 indexed id, address indexed taker, uint256 fillIndex);
+    event OrderFinalized(
+        uint256 indexed id,
+        address indexed taker,
+        uint256 fillIndex,
+        uint64 createdAt,
+        uint64 createdBlock
+    );
     event OrderCancelled(uint256 indexed id);
+    event OrderAmended(uint256 indexed id, uint64 deadline);
+    event OrderReclaimed(uint256 indexed id);
     event TermsRevealed(uint256 indexed id);
+    event FillLockWindowUpdated(uint64 window);
+    event PairFeeUpdated(address indexed tokenIn, address indexed tokenOut, uint16 feeBps);
+    event FeeRecipientUpdated(address indexed feeRecipient);
+    event FeesWithdrawn(address indexed token, address indexed to);
+    event GatewayUpdated(address indexed gateway);
+    event OrderEmergencyWithdrawn(uint256 indexed id);
+    event SignedOrderFilled(address indexed maker, uint256 indexed nonce, address indexed taker);
+    event NonceCancelled(address indexed maker, uint256 indexed nonce);
+    event AuditorGranted(uint256 indexed id, address indexed auditor);
+    event DefaultAuditorUpdated(address indexed maker, address indexed auditor);
+
+    /// Off-chain order signed by the maker (EIP-712). The handles must be encrypted for (escrow, taker), since
+    /// the taker is the one submitting them; inputProof is signed through its hash.
+    struct SignedOrder {
+        address maker;
+        address taker;
+        address tokenIn;
+        address tokenOut;
+        externalEuint64 amountInExt;
+        externalEuint64 amountOutExt;
+        bytes inputProof;
+        uint64 deadline;
+        uint256 nonce;
+    }
 
     // Core functions
     function createOrder(
@@ -58,51 +127,144 @@ interface IConfidentialOtcEscrow {
         externalEuint64 amountOutExt,
         externalEaddress maybeTakerExt,
         bytes calldata attestation,
-        uint64 deadline,
-        bool doTransferOut // if true, contract attempts tokenOut.confidentialTransferFrom(maker -> contract)
+        uint64 deadline
     ) external returns (uint256 id);
 
     function fillOrder(
         uint256 id,
         externalEuint64 takerPayExt,
-        bytes calldata attestation,
-        bool doTransferIn // if true, contract attempts tokenIn.confidentialTransferFrom(taker -> contract) before requesting fill
-    ) external;
+        externalEuint64 takerReceiveExt,
+        bytes calldata attestation
+    ) external returns (uint256 fillIndex);
 
     function finalizeFill(uint256 id, address taker) external;
 
     function cancelOrder(uint256 id) external;
 
+    function amendOrder(
+        uint256 id,
+        externalEuint64 newAmountInExt,
+        uint64 newDeadline,
+        bytes calldata attestation
+    ) external;
+
+    function amendDeadline(uint256 id, uint64 newDeadline) external;
+
+    function reclaimExpired(uint256 id) external;
+
     function revealTerms(uint256 id) external;
 
     function isOpen(uint256 id) external view returns (bool);
+
+    function fillSignedOrder(
+        SignedOrder calldata order,
+        bytes calldata signature,
+        externalEuint64 takerPayExt,
+        bytes calldata takerProof
+    ) external;
+
+    function cancelNonce(uint256 nonce) external;
+
+    function emergencyWithdraw(uint256 id) external;
+
+    function grantAuditor(uint256 id, address auditor) external;
+
+    function setDefaultAuditor(address auditor) external;
 }
 
 /// Implementation
-contract ConfidentialOtcEscrowWithOZ is IConfidentialOtcEscrow, SepoliaConfig {
-    address public gateway; // authorized FHE execution layer / gateway
-
-    constructor(address _gateway) {
+contract ConfidentialOtcEscrowWithOZ is
+    IConfidentialOtcEscrow,
+    SepoliaConfig,
+    EIP712,
+    AccessControl,
+    Pausable,
+    Multicall
+{
+    bytes32 public constant GATEWAY_ROLE = keccak256("GATEWAY_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+
+    address public gateway; // primary gateway (holds GATEWAY_ROLE); more gateways can be granted the role directly
+    uint64 public fillLockWindow = 15 minutes; // how long a fill request reserves the order for its taker
+
+    uint16 public constant MAX_FEE_BPS = 1_000; // 10%
+    address public feeRecipient; // only account allowed to withdraw accrued fees
+    /// tokenIn => tokenOut => fee in basis points of the amountOut received by takers
+    mapping(address => mapping(address => uint16)) public pairFeeBps;
+    /// token => encrypted fees accrued in that token
+    mapping(address => euint64) internal _accruedFees;
+
+    bytes32 public constant SIGNED_ORDER_TYPEHASH =
+        keccak256(
+            "SignedOrder(address maker,address taker,address tokenIn,address tokenOut,bytes32 amountInExt,"
+            "bytes32 amountOutExt,bytes32 inputProofHash,uint64 deadline,uint256 nonce)"
+        );
+
+    /// maker => nonce => used (filled or cancelled)
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+
+    /// The deployer becomes admin, pauser and fee manager.
+    constructor(address _gateway) EIP712("ConfidentialOtcEscrow", "1") {
         require(_gateway != address(0), "gateway=0");
         gateway = _gateway;
+        feeRecipient = _gateway;
+
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(FEE_MANAGER_ROLE, msg.sender);
+        _grantRole(GATEWAY_ROLE, _gateway);
     }
 
     struct Order {
         address maker;
         address tokenIn; // address of confidential token (IERC7984-like)
         address tokenOut;
-        euint64 amountInEnc; // internal handle
-        euint64 amountOutEnc; // internal handle (escrow)
+        euint64 amountInEnc; // internal handle (price of pricedOutEnc)
+        euint64 amountOutEnc; // internal handle (full order size)
         eaddress takerEnc; // optional allowlist (0 => any)
         uint64 deadline;
-        bool filled;
         bool cancelled;
-        euint64 takerPayEnc; // recorded taker payment handle (initially empty)
+        euint64 remainingOutEnc; // part of the escrowed amountOut not filled yet (decryptable by the maker)
+        uint32 settledFills; // fills [0, settledFills) have been finalized
+        address reservedBy; // taker who took the lock, the only one who may request until reservedUntil
+        uint64 reservedUntil;
+        uint16 feeBps; // pair fee at creation, applied to every fill of this order
+        uint64 createdAt; // block timestamp of createOrder
+        uint64 createdBlock;
+        euint64 pricedOutEnc; // amountOut priced by amountInEnc: the order size, or what remained at the last amend
     }
 
-    mapping(uint256 => Order) public orders;
+    /// One fill request. Until `settled`, payEnc/receivedEnc hold the taker's offer (escrowed payment, which the
+    /// taker can decrypt, and requested tokenOut); once settled they hold what actually changed hands (both 0 for a
+    /// rejected fill).
+    struct Fill {
+        address taker;
+        euint64 payEnc;
+        euint64 receivedEnc;
+        ebool allowedEnc; // taker matched the order's encrypted allowlist (or the order is open to anyone)
+        bool settled;
+    }
+
+    mapping(uint256 => Order) internal _orders;
     uint256 public nextOrderId;
 
+    mapping(uint256 => Fill[]) internal _fills;
+
+    /// Order ids per maker, in creation order.
+    mapping(address => uint256[]) internal _makerOrderIds;
+
+    /// Ids of orders not cancelled or reclaimed yet (unordered, swap-and-pop). Expired orders stay until
+    /// reclaimed; getOpenOrderIds skips them.
+    uint256[] internal _openOrderIds;
+    mapping(uint256 => uint256) internal _openOrderPos; // id => index in _openOrderIds + 1
+
+    /// Accounts allowed to decrypt every handle of an order, including the ones fills create later.
+    mapping(uint256 => address[]) internal _orderAuditors;
+    uint256 public constant MAX_ORDER_AUDITORS = 4; // bounds the extra allows each settlement pays for
+    /// maker => auditor granted on each order the maker creates from now on (0 => none)
+    mapping(address => address) public defaultAuditor;
+
     // ----------------------
     // Maker: create an order
     // ----------------------
@@ -113,7 +275,10 @@ contract ConfidentialOtcEscrowWithOZ is IConfidentialOtcEscrow, SepoliaConfig {
     /// @param maybeTakerExt optional encrypted taker allowlist (external)
     /// @param attestation signatures from gateway/relayer verifying handles
     /// @param deadline unix seconds
-    /// @param doTransferOut if true, the contract will call tokenOut.confidentialTransferFrom(msg.sender, address(this), amountOutExt, attestation)
+    /// The contract pulls the imported amountOut from msg.sender with
+    /// tokenOut.confidentialTransferFrom(msg.sender, address(this), amountOut) (the contract must be the maker's
+    /// operator on tokenOut). The order then holds what was actually transferred: an encrypted 0 if the maker's
+    /// balance is too low, which no fill can take.
     function createOrder(
         address tokenIn,
         address tokenOut,
@@ -121,143 +286,634 @@ contract ConfidentialOtcEscrowWithOZ is IConfidentialOtcEscrow, SepoliaConfig {
         externalEuint64 amountOutExt,
         externalEaddress maybeTakerExt,
         bytes calldata attestation,
-        uint64 deadline,
-        bool doTransferOut
-    ) external override returns (uint256 id) {
+        uint64 deadline
+    ) external override whenNotPaused returns (uint256 id) {
         require(deadline > block.timestamp, "deadline past");
         require(tokenIn != address(0) && tokenOut != address(0), "token=0");
 
-        // If caller asked the contract to perform the confidential transfer of amountOut into escrow,
-        // call the token's confidentialTransferFrom. This is optional — frontends sometimes do the transfer
-        // before calling createOrder. Ensure you adapt the token interface to your OZ version.
-        if (doTransferOut) {
-            IERC7984Minimal(tokenOut).confidentialTransferFrom(msg.sender, address(this), amountOutExt, attestation);
-            // Note: confidentialTransferFrom will generate attestations / state the ciphertext now belongs to contract.
-            // We still call FHE.fromExternal below to import the handle.
-        }
-
-        // Import external handles -> internal handles (validates attestation)
-        euint64 amountIn = FHE.fromExternal(amountInExt, attestation);
-        euint64 amountOut = FHE.fromExternal(amountOutExt, attestation);
-        eaddress takerHandle = FHE.fromExternal(maybeTakerExt, attestation);
-
         id = nextOrderId++;
-        orders[id] = Order({
-            maker: msg.sender,
-            tokenIn: tokenIn,
-            tokenOut: tokenOut,
-            amountInEnc: amountIn,
-            amountOutEnc: amountOut,
-            takerEnc: takerHandle,
-            deadline: deadline,
-            filled: false,
-            cancelled: false,
-            takerPayEnc: euint64.wrap(0)
-        });
-
-        // persistently allow this contract to reference the escrow handle (so later operations can use it)
-        FHE.allow(amountOut, address(this));
+        // scoped so the imported handles leave the stack before the bookkeeping and event below
+        {
+            // Import external handles -> internal handles (validates attestation)
+            euint64 amountIn = FHE.fromExternal(amountInExt, attestation);
+            euint64 amountOut = FHE.fromExternal(amountOutExt, attestation);
+            eaddress takerHandle = FHE.fromExternal(maybeTakerExt, attestation);
+
+            // Escrow the very handle the order declares, rather than a second ciphertext of the same amount. Only
+            // what the token actually transferred backs the order: refunds and fills pay out of the shared balance.
+            euint64 escrowed = _pull(tokenOut, msg.sender, amountOut);
+
+            // persistently allow this contract to reference the order handles (settlement runs in a later tx)
+            FHE.allowThis(amountIn);
+            FHE.allowThis(amountOut);
+            FHE.allowThis(takerHandle);
+            FHE.allowThis(escrowed);
+            // and let the maker decrypt their own terms
+            FHE.allow(amountIn, msg.sender);
+            FHE.allow(amountOut, msg.sender);
+            FHE.allow(takerHandle, msg.sender);
+            FHE.allow(escrowed, msg.sender);
+
+            _orders[id] = Order({
+                maker: msg.sender,
+                tokenIn: tokenIn,
+                tokenOut: tokenOut,
+                amountInEnc: amountIn,
+                amountOutEnc: amountOut,
+                takerEnc: takerHandle,
+                deadline: deadline,
+                cancelled: false,
+                // handles are immutable: fills replace this, amountOutEnc stays the order size
+                remainingOutEnc: escrowed,
+                settledFills: 0,
+                reservedBy: address(0),
+                reservedUntil: 0,
+                feeBps: 0,
+                createdAt: 0,
+                createdBlock: 0,
+                pricedOutEnc: amountOut
+            });
+        }
+        // assigned separately: more expressions in the literal above run out of stack slots
+        Order storage o = _orders[id];
+        o.feeBps = pairFeeBps[tokenIn][tokenOut];
+        o.createdAt = uint64(block.timestamp);
+        o.createdBlock = uint64(block.number);
+
+        _makerOrderIds[msg.sender].push(id);
+        _openOrderIds.push(id);
+        _openOrderPos[id] = _openOrderIds.length;
+
+        address auditor = defaultAuditor[msg.sender];
+        if (auditor != address(0)) {
+            _grantAuditor(id, auditor);
+        }
 
-        emit OrderCreated(id, msg.sender, tokenIn, tokenOut, deadline);
+        emit OrderCreated(id, msg.sender, tokenIn, tokenOut, deadline, o.createdAt, o.createdBlock);
     }
 
     // ----------------------
     // Maker: cancel order
     // ----------------------
-    function cancelOrder(uint256 id) external override {
-        Order storage o = orders[id];
+    /// Closes the order, returns the remaining escrowed amountOut to the maker through tokenOut and refunds
+    /// the payments of fills that were requested but not finalized yet. While paused, use emergencyWithdraw.
+    function cancelOrder(uint256 id) external override whenNotPaused {
+        Order storage o = _orders[id];
         require(o.maker == msg.sender, "only maker");
-        require(!o.filled && !o.cancelled, "closed");
+        require(!o.cancelled, "closed");
+
+        _close(id);
 
-        o.cancelled = true;
         emit OrderCancelled(id);
+    }
 
-        // The FHE execution layer / Gateway should observe this and revert the escrow ciphertext ownership
-        // back to maker (or the UI can orchestrate doing confidentialTransferFrom(contract -> maker) with attestation).
+    // ----------------------
+    // Maker: amend order
+    // ----------------------
+    /// Reprices the order and moves its deadline, keeping its id, escrow and fill history: the new amountIn
+    /// prices the remaining amountOut, which becomes pricedOutEnc (the order size amountOutEnc stays). Only while
+    /// no fill is pending, so a requested fill is always settled against the terms it was requested on. Use
+    /// amendDeadline to change only the deadline: the current amountIn prices pricedOutEnc, not the remainder.
+    function amendOrder(
+        uint256 id,
+        externalEuint64 newAmountInExt,
+        uint64 newDeadline,
+        bytes calldata attestation
+    ) external override whenNotPaused {
+        Order storage o = _amendable(id, newDeadline);
+
+        euint64 amountIn = FHE.fromExternal(newAmountInExt, attestation);
+        FHE.allowThis(amountIn);
+        FHE.allow(amountIn, msg.sender);
+        _allowAuditors(id, amountIn);
+
+        o.amountInEnc = amountIn;
+        o.pricedOutEnc = o.remainingOutEnc;
+        o.deadline = newDeadline;
+
+        emit OrderAmended(id, newDeadline);
+    }
+
+    /// Moves the deadline and keeps the price (amountInEnc for pricedOutEnc), under the same rules as amendOrder.
+    function amendDeadline(uint256 id, uint64 newDeadline) external override whenNotPaused {
+        _amendable(id, newDeadline).deadline = newDeadline;
+
+        emit OrderAmended(id, newDeadline);
+    }
+
+    // ----------------------
+    // Anyone: reclaim an expired order
+    // ----------------------
+    /// Once the deadline has passed the order can no longer be filled or finalized, so anyone may close it:
+    /// the remaining amountOut goes back to the maker and pending fills are refunded, as in cancelOrder.
+    /// The order is marked cancelled.
+    function reclaimExpired(uint256 id) external override {
+        Order storage o = _orders[id];
+        require(o.maker != address(0), "no order");
+        require(!o.cancelled, "closed");
+        require(block.timestamp > o.deadline, "not expired");
+
+        _close(id);
+
+        emit OrderReclaimed(id);
     }
 
     // ----------------------
     // Taker: request fill
     // ----------------------
-    /// takerPayExt: external handle produced by relayer (encrypted pay-in)
-    /// attestation: signatures proving the handle was created for the taker and contract
-    /// doTransferIn: if true, contract calls tokenIn.confidentialTransferFrom(taker -> contract) before recording request
+    /// takerPayExt: external handle produced by relayer (encrypted pay-in, tokenIn)
+    /// takerReceiveExt: external handle for the part of amountOut the taker wants (tokenOut);
+    ///                  equal to amountOut for a full fill
+    /// attestation: signatures proving the handles were created for the taker and contract
+    /// The payment is pulled with tokenIn.confidentialTransferFrom(taker -> contract) before the request is recorded
+    /// (the taker must have set this contract as operator on tokenIn).
     function fillOrder(
         uint256 id,
         externalEuint64 takerPayExt,
-        bytes calldata attestation,
-        bool doTransferIn
-    ) external override {
-        Order storage o = orders[id];
-        require(!o.filled && !o.cancelled, "closed");
+        externalEuint64 takerReceiveExt,
+        bytes calldata attestation
+    ) external override whenNotPaused returns (uint256 fillIndex) {
+        Order storage o = _orders[id];
+        require(o.maker != address(0), "no order");
+        require(!o.cancelled, "closed");
         require(block.timestamp <= o.deadline, "expired");
+        bool locked = block.timestamp < o.reservedUntil;
+        require(!locked || o.reservedBy == msg.sender, "reserved");
 
-        if (doTransferIn) {
-            // attempt to move the confidential ciphertext representing payment into this contract's custody
-            IERC7984Minimal(o.tokenIn).confidentialTransferFrom(msg.sender, address(this), takerPayExt, attestation);
+        // The holder may queue more requests under its lock but not extend it
+        if (!locked) {
+            o.reservedBy = msg.sender;
+            o.reservedUntil = uint64(block.timestamp) + fillLockWindow;
         }
 
-        // Import taker handle (validates attestation)
-        euint64 takerPay = FHE.fromExternal(takerPayExt, attestation);
+        // Import taker handles (validates attestation)
+        euint64 takerReceive = FHE.fromExternal(takerReceiveExt, attestation);
+        // Move the payment into this contract's custody. The fill keeps what the token actually transferred (an
+        // encrypted 0 if the taker's balance is too low), so settlement and refunds only move tokens held here.
+        euint64 takerPay = _pull(o.tokenIn, msg.sender, FHE.fromExternal(takerPayExt, attestation));
 
-        // Record it so off-chain FHE execution layer & Gateway can find it and do equality checks & transfers
-        o.takerPayEnc = takerPay;
+        // Checked under FHE and only applied at settlement: reverting here would reveal the allowlisted taker
+        ebool allowed = _isAllowedTaker(o.takerEnc, msg.sender);
 
-        // Allow transient access for this transaction (in case some immediate symbolic ops are executed)
-        FHE.allowTransient(takerPay, address(this));
+        FHE.allowThis(takerPay);
+        FHE.allowThis(takerReceive);
+        FHE.allowThis(allowed);
+        // the taker can see what they have locked in escrow until settlement
+        FHE.allow(takerPay, msg.sender);
 
-        emit FillRequested(id, msg.sender);
+        // Record the fill so finalizeFill can price it against the order and settle
+        fillIndex = _fills[id].length;
+        _fills[id].push(
+            Fill({taker: msg.sender, payEnc: takerPay, receivedEnc: takerReceive, allowedEnc: allowed, settled: false})
+        );
+
+        emit FillRequested(id, msg.sender, fillIndex);
     }
 
     // ---------------------------------------
-    // Gateway: finalize after FHE validation
+    // Gateway: settle a requested fill on-chain
     // ---------------------------------------
-    /// Called by the authorized gateway once it has validated equality (amountInEnc == takerPayEnc)
-    /// and performed the confidential-token movements off-chain / in the gateway's storage:
-    ///   - taker payment ciphertext -> maker's confidential balance
-    ///   - escrow ciphertext -> taker's confidential balance
+    /// Called by the authorized gateway after FillRequested; settles the oldest pending fill of the order, which
+    /// must belong to `taker`. The gateway no longer validates anything itself: the contract computes under FHE
+    ///   ok = allowed && receive <= remainingOut && pay * pricedOut >= receive * amountIn
+    /// and, through the confidential tokens,
+    ///   - ok:  taker payment -> maker, receive - fee -> taker, fee -> accrued fees, remainingOut -= receive
+    ///   - !ok: taker payment -> taker (refund), remainingOut unchanged
+    /// The same transfers are executed in both cases (with encrypted 0s), so the outcome is not leaked.
+    /// The fill record keeps what the taker actually received, net of the fee.
     function finalizeFill(uint256 id, address taker) external override {
-        require(msg.sender == gateway, "only gateway");
-        Order storage o = orders[id];
-        require(!o.filled && !o.cancelled, "closed");
+        require(hasRole(GATEWAY_ROLE, msg.sender), "only gateway");
+        Order storage o = _orders[id];
+        require(!o.cancelled, "closed");
         require(block.timestamp <= o.deadline, "expired");
+        require(o.settledFills < _fills[id].length, "no fill");
+
+        uint256 fillIndex = o.settledFills++;
+        Fill storage f = _fills[id][fillIndex];
+        require(f.taker == taker, "taker mismatch");
+
+        ebool ok = FHE.and(f.allowedEnc, FHE.and(FHE.le(f.receivedEnc, o.remainingOutEnc), _paysProRata(o, f)));
+        euint64 zero = FHE.asEuint64(0);
+        euint64 paid = FHE.select(ok, f.payEnc, zero);
+        euint64 received = FHE.select(ok, f.receivedEnc, zero);
+
+        euint64 net = _takeFee(o.tokenOut, received, o.feeBps);
+        _payout(o.tokenOut, taker, net);
+        _payout(o.tokenIn, o.maker, paid);
+        _payout(o.tokenIn, taker, FHE.select(ok, zero, f.payEnc));
+
+        o.remainingOutEnc = FHE.sub(o.remainingOutEnc, received);
+        FHE.allowThis(o.remainingOutEnc);
+        FHE.allow(o.remainingOutEnc, o.maker);
+        _allowAuditors(id, o.remainingOutEnc);
+
+        f.payEnc = _allowParties(id, paid, taker);
+        f.receivedEnc = _allowParties(id, net, taker);
+        f.settled = true;
+
+        // Release the reservation once the taker's requests are all settled
+        if (o.settledFills == _fills[id].length) {
+            o.reservedBy = address(0);
+            o.reservedUntil = 0;
+        }
+
+        emit OrderFinalized(id, taker, fillIndex, o.createdAt, o.createdBlock);
+    }
+
+    // ----------------------
+    // Signed orders (RFQ)
+    // ----------------------
+    /// Settles a maker-signed order in one call. The taker's payment is pulled from tokenIn and amountOut from the
+    /// maker's tokenOut balance, then under FHE
+    ///   ok = paid >= amountIn && all of amountOut was pulled
+    /// decides between the swap (amountIn -> maker, amountOut minus the pair fee -> taker, any overpayment back to
+    /// the taker) and returning both legs to their owners. As with finalizeFill, the same transfers run in both cases.
+    function fillSignedOrder(
+        SignedOrder calldata order,
+        bytes calldata signature,
+        externalEuint64 takerPayExt,
+        bytes calldata takerProof
+    ) external override whenNotPaused {
+        require(order.taker == msg.sender, "not taker");
+        require(block.timestamp <= order.deadline, "expired");
+        require(!usedNonces[order.maker][order.nonce], "nonce used");
+        require(ECDSA.recover(hashSignedOrder(order), signature) == order.maker, "bad signature");
+
+        usedNonces[order.maker][order.nonce] = true;
+
+        // Import maker terms (encrypted for this taker) and the taker payment
+        euint64 amountIn = FHE.fromExternal(order.amountInExt, order.inputProof);
+        euint64 amountOut = FHE.fromExternal(order.amountOutExt, order.inputProof);
+        euint64 paid = _pull(order.tokenIn, msg.sender, FHE.fromExternal(takerPayExt, takerProof));
+
+        // Only take the maker's leg when the payment covers the quote
+        ebool ok = FHE.ge(paid, amountIn);
+        euint64 pulledOut = _pull(order.tokenOut, order.maker, FHE.select(ok, amountOut, FHE.asEuint64(0)));
+        ok = FHE.and(ok, FHE.eq(pulledOut, amountOut));
+
+        _settleSigned(order, ok, amountIn, paid, pulledOut);
+
+        emit SignedOrderFilled(order.maker, order.nonce, msg.sender);
+    }
+
+    /// Invalidates a signed order that has not been filled yet.
+    function cancelNonce(uint256 nonce) external override {
+        require(!usedNonces[msg.sender][nonce], "nonce used");
+        usedNonces[msg.sender][nonce] = true;
+        emit NonceCancelled(msg.sender, nonce);
+    }
+
+    /// EIP-712 digest the maker signs for `order`.
+    function hashSignedOrder(SignedOrder calldata order) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        SIGNED_ORDER_TYPEHASH,
+                        order.maker,
+                        order.taker,
+                        order.tokenIn,
+                        order.tokenOut,
+                        externalEuint64.unwrap(order.amountInExt),
+                        externalEuint64.unwrap(order.amountOutExt),
+                        keccak256(order.inputProof),
+                        order.deadline,
+                        order.nonce
+                    )
+                )
+            );
+    }
 
-        o.filled = true;
-        emit OrderFinalized(id, taker);
+    // ----------------------
+    // Views
+    // ----------------------
+    /// The order struct (returned whole: a public mapping getter would need more stack slots than it has).
+    function orders(uint256 id) external view returns (Order memory) {
+        return _orders[id];
+    }
+
+    function getFills(uint256 id) external view returns (Fill[] memory) {
+        return _fills[id];
+    }
+
+    function fillCount(uint256 id) external view returns (uint256) {
+        return _fills[id].length;
+    }
+
+    /// Orders [offset, offset + limit), clamped to nextOrderId. The order at index i has id offset + i.
+    function getOrders(uint256 offset, uint256 limit) external view returns (Order[] memory page) {
+        uint256 end = _pageEnd(offset, limit, nextOrderId);
+        page = new Order[](end > offset ? end - offset : 0);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _orders[offset + i];
+        }
+    }
+
+    /// Orders of `maker`, oldest first, paged over the maker's index.
+    function getOrdersByMaker(
+        address maker,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids, Order[] memory page) {
+        uint256[] storage index = _makerOrderIds[maker];
+        uint256 end = _pageEnd(offset, limit, index.length);
+        ids = new uint256[](end > offset ? end - offset : 0);
+        page = new Order[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = index[offset + i];
+            page[i] = _orders[ids[i]];
+        }
+    }
+
+    function makerOrderCount(address maker) external view returns (uint256) {
+        return _makerOrderIds[maker].length;
+    }
 
-        // Note: optionally, the gateway could provide attestations proving these confidential transfers
-        // If you want the contract to call token confidentialTransferTo(...) to reflect movement on-chain,
-        // you can add such token calls here — but in many FHEVM deployments, the gateway's storage is the
-        // source of truth for ciphertext ownership and an on-chain call is not necessary.
+    /// Open order ids among entries [offset, offset + limit) of the open-order index. Expired orders not reclaimed
+    /// yet still occupy an entry but are left out, so a page can be shorter than `limit`; page on until
+    /// offset >= total.
+    function getOpenOrderIds(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids, uint256 total) {
+        total = _openOrderIds.length;
+        uint256 end = _pageEnd(offset, limit, total);
+        uint256 n;
+        for (uint256 i = offset; i < end; i++) {
+            if (block.timestamp <= _orders[_openOrderIds[i]].deadline) n++;
+        }
+        ids = new uint256[](n);
+        n = 0;
+        for (uint256 i = offset; i < end; i++) {
+            uint256 id = _openOrderIds[i];
+            if (block.timestamp <= _orders[id].deadline) ids[n++] = id;
+        }
+    }
+
+    /// Encrypted fees accrued in `token`; decryptable by the fee recipient.
+    function accruedFees(address token) external view returns (euint64) {
+        return _accruedFees[token];
     }
 
     // ----------------------
     // Maker: reveal terms (optional)
     // ----------------------
     function revealTerms(uint256 id) external override {
-        Order storage o = orders[id];
+        Order storage o = _orders[id];
         require(o.maker == msg.sender, "only maker");
-        require(o.filled || o.cancelled, "only after close");
+        require(o.cancelled || block.timestamp > o.deadline, "only after close");
 
         FHE.makePubliclyDecryptable(o.amountInEnc);
         FHE.makePubliclyDecryptable(o.amountOutEnc);
+        FHE.makePubliclyDecryptable(o.pricedOutEnc); // what amountIn prices, so the real price can be rebuilt
         FHE.makePubliclyDecryptable(o.takerEnc);
 
         emit TermsRevealed(id);
     }
 
+    // ----------------------
+    // Maker: auditors (view keys)
+    // ----------------------
+    /// Lets `auditor` decrypt everything about order `id`, now and as it is filled. ACL grants cannot be
+    /// withdrawn, so a granted auditor keeps access to this order.
+    function grantAuditor(uint256 id, address auditor) external override {
+        require(_orders[id].maker == msg.sender, "only maker");
+        require(auditor != address(0), "auditor=0");
+        _grantAuditor(id, auditor);
+    }
+
+    /// Auditor granted on every order the caller creates from now on; address(0) revokes it for future orders
+    /// (orders already created keep theirs).
+    function setDefaultAuditor(address auditor) external override {
+        defaultAuditor[msg.sender] = auditor;
+        emit DefaultAuditorUpdated(msg.sender, auditor);
+    }
+
+    function getAuditors(uint256 id) external view returns (address[] memory) {
+        return _orderAuditors[id];
+    }
+
     // ----------------------
     // Helpers / admin
     // ----------------------
+    /// Moves `amount` of this contract's confidential `token` balance to `to`.
+    function _payout(address token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, token);
+        IERC7984Minimal(token).confidentialTransfer(to, amount);
+    }
+
+    /// takerEnc == 0 (order open to anyone) || takerEnc == taker
+    function _isAllowedTaker(eaddress takerEnc, address taker) internal returns (ebool) {
+        ebool anyone = FHE.eq(takerEnc, FHE.asEaddress(address(0)));
+        return FHE.or(anyone, FHE.eq(takerEnc, FHE.asEaddress(taker)));
+    }
+
+    /// Pulls `amount` of `from`'s `token` balance into this contract (this contract must be an operator of `from`)
+    /// and returns what was actually transferred.
+    function _pull(address token, address from, euint64 amount) internal returns (euint64 transferred) {
+        FHE.allowTransient(amount, token);
+        transferred = IERC7984Minimal(token).confidentialTransferFrom(from, address(this), amount);
+    }
+
+    /// Checks that the caller may amend order `id` to `newDeadline` now and returns it.
+    function _amendable(uint256 id, uint64 newDeadline) internal view returns (Order storage o) {
+        o = _orders[id];
+        require(o.maker == msg.sender, "only maker");
+        require(!o.cancelled, "closed");
+        require(block.timestamp <= o.deadline, "expired");
+        require(o.settledFills == _fills[id].length, "fill pending");
+        require(newDeadline > block.timestamp, "deadline past");
+    }
+
+    /// Pays out a signed order whose legs are held by this contract; `ok` selects swap or return.
+    function _settleSigned(
+        SignedOrder calldata order,
+        ebool ok,
+        euint64 amountIn,
+        euint64 paid,
+        euint64 pulledOut
+    ) internal {
+        euint64 zero = FHE.asEuint64(0);
+        euint64 toMaker = FHE.select(ok, amountIn, zero);
+
+        uint16 feeBps = pairFeeBps[order.tokenIn][order.tokenOut];
+        euint64 net = _takeFee(order.tokenOut, FHE.select(ok, pulledOut, zero), feeBps);
+        _payout(order.tokenOut, order.taker, net);
+        _payout(order.tokenOut, order.maker, FHE.select(ok, zero, pulledOut));
+        _payout(order.tokenIn, order.maker, toMaker);
+        _payout(order.tokenIn, order.taker, FHE.sub(paid, toMaker));
+    }
+
+    /// Accrues `feeBps` of `amount` (in `token`) to the fee balance and returns the rest. 128-bit intermediate so
+    /// amount * feeBps cannot overflow.
+    function _takeFee(address token, euint64 amount, uint16 feeBps) internal returns (euint64 net) {
+        if (feeBps == 0) {
+            return amount;
+        }
+
+        euint64 fee = FHE.asEuint64(FHE.div(FHE.mul(FHE.asEuint128(amount), uint128(feeBps)), 10_000));
+        euint64 accrued = FHE.add(_accruedFees[token], fee);
+        FHE.allowThis(accrued);
+        FHE.allow(accrued, feeRecipient);
+        _accruedFees[token] = accrued;
+
+        return FHE.sub(amount, fee);
+    }
+
+    /// pay / receive >= amountIn / pricedOut, cross-multiplied in 128 bits so neither side can overflow.
+    function _paysProRata(Order storage o, Fill storage f) internal returns (ebool) {
+        euint128 offered = FHE.mul(FHE.asEuint128(f.payEnc), FHE.asEuint128(o.pricedOutEnc));
+        euint128 required = FHE.mul(FHE.asEuint128(f.receivedEnc), FHE.asEuint128(o.amountInEnc));
+        return FHE.ge(offered, required);
+    }
+
+    /// Persists `value` for this contract and lets both counterparties of a fill of order `id`, and the order's
+    /// auditors, decrypt it.
+    function _allowParties(uint256 id, euint64 value, address taker) internal returns (euint64) {
+        FHE.allowThis(value);
+        FHE.allow(value, _orders[id].maker);
+        FHE.allow(value, taker);
+        _allowAuditors(id, value);
+        return value;
+    }
+
+    function _allowAuditors(uint256 id, euint64 value) internal {
+        address[] storage auditors = _orderAuditors[id];
+        for (uint256 i = 0; i < auditors.length; i++) {
+            FHE.allow(value, auditors[i]);
+        }
+    }
+
+    /// Records `auditor` on order `id` and allows it the order's current handles: the terms, the remaining
+    /// amountOut and the outcome of every settled fill. Handles created later are allowed as they appear.
+    function _grantAuditor(uint256 id, address auditor) internal {
+        address[] storage auditors = _orderAuditors[id];
+        require(auditors.length < MAX_ORDER_AUDITORS, "too many auditors");
+        for (uint256 i = 0; i < auditors.length; i++) {
+            require(auditors[i] != auditor, "already auditor");
+        }
+        auditors.push(auditor);
+
+        Order storage o = _orders[id];
+        FHE.allow(o.amountInEnc, auditor);
+        FHE.allow(o.amountOutEnc, auditor);
+        FHE.allow(o.takerEnc, auditor);
+        FHE.allow(o.remainingOutEnc, auditor);
+        FHE.allow(o.pricedOutEnc, auditor);
+
+        Fill[] storage fills = _fills[id];
+        for (uint256 i = 0; i < o.settledFills; i++) {
+            FHE.allow(fills[i].payEnc, auditor);
+            FHE.allow(fills[i].receivedEnc, auditor);
+        }
+
+        emit AuditorGranted(id, auditor);
+    }
+
+    /// Marks the order cancelled, refunds pending fills to their takers and the remaining escrow to the maker.
+    function _close(uint256 id) internal {
+        Order storage o = _orders[id];
+        o.cancelled = true;
+
+        Fill[] storage fills = _fills[id];
+        for (uint256 i = o.settledFills; i < fills.length; i++) {
+            _payout(o.tokenIn, fills[i].taker, fills[i].payEnc);
+            fills[i].payEnc = _allowParties(id, FHE.asEuint64(0), fills[i].taker);
+            fills[i].receivedEnc = fills[i].payEnc;
+            fills[i].settled = true;
+        }
+        o.settledFills = uint32(fills.length);
+
+        _payout(o.tokenOut, o.maker, o.remainingOutEnc);
+        _removeOpenOrder(id);
+    }
+
+    function _removeOpenOrder(uint256 id) internal {
+        uint256 pos = _openOrderPos[id];
+        if (pos == 0) return;
+        uint256 lastId = _openOrderIds[_openOrderIds.length - 1];
+        _openOrderIds[pos - 1] = lastId;
+        _openOrderPos[lastId] = pos;
+        _openOrderIds.pop();
+        delete _openOrderPos[id];
+    }
+
+    function _pageEnd(uint256 offset, uint256 limit, uint256 length) internal pure returns (uint256) {
+        if (offset >= length) return offset;
+        return length - offset < limit ? length : offset + limit;
+    }
+
+    /// cancelOrder for a paused escrow: the maker closes the order, the remaining amountOut comes back to them and
+    /// pending fills are refunded. Works regardless of the deadline.
+    function emergencyWithdraw(uint256 id) external override whenPaused {
+        Order storage o = _orders[id];
+        require(o.maker == msg.sender, "only maker");
+        require(!o.cancelled, "closed");
+
+        _close(id);
+
+        emit OrderEmergencyWithdrawn(id);
+    }
+
     function isOpen(uint256 id) external view override returns (bool) {
-        Order storage o = orders[id];
-        return (!o.filled && !o.cancelled && block.timestamp <= o.deadline);
+        Order storage o = _orders[id];
+        return (o.maker != address(0) && !o.cancelled && block.timestamp <= o.deadline);
     }
 
-    /// Only current gateway can rotate gateway address (replace with multisig in production)
+    /// Moves GATEWAY_ROLE from the primary gateway to `_gateway` (admin only; use a multisig in production).
     function setGateway(address _gateway) external {
-        require(msg.sender == gateway, "only gateway");
+        require(hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "only admin");
         require(_gateway != address(0), "gateway=0");
+        _revokeRole(GATEWAY_ROLE, gateway);
+        _grantRole(GATEWAY_ROLE, _gateway);
         gateway = _gateway;
+        emit GatewayUpdated(_gateway);
+    }
+
+    function pause() external {
+        require(hasRole(PAUSER_ROLE, msg.sender), "only pauser");
+        _pause();
+    }
+
+    function unpause() external {
+        require(hasRole(PAUSER_ROLE, msg.sender), "only pauser");
+        _unpause();
+    }
+
+    /// Sets the fee for new orders on (tokenIn, tokenOut) and for signed orders on that pair.
+    function setPairFee(address tokenIn, address tokenOut, uint16 feeBps) external {
+        require(hasRole(FEE_MANAGER_ROLE, msg.sender), "only fee manager");
+        require(feeBps <= MAX_FEE_BPS, "fee too high");
+        pairFeeBps[tokenIn][tokenOut] = feeBps;
+        emit PairFeeUpdated(tokenIn, tokenOut, feeBps);
+    }
+
+    function setFeeRecipient(address _feeRecipient) external {
+        require(hasRole(FEE_MANAGER_ROLE, msg.sender), "only fee manager");
+        require(_feeRecipient != address(0), "recipient=0");
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientUpdated(_feeRecipient);
+    }
+
+    /// Sends all fees accrued in `token` to the fee recipient.
+    function withdrawFees(address token) external {
+        require(msg.sender == feeRecipient, "only fee recipient");
+        euint64 amount = _accruedFees[token];
+        require(FHE.isInitialized(amount), "no fees");
+
+        euint64 zero = FHE.asEuint64(0);
+        FHE.allowThis(zero);
+        FHE.allow(zero, feeRecipient);
+        _accruedFees[token] = zero;
+        _payout(token, feeRecipient, amount);
+
+        emit FeesWithdrawn(token, feeRecipient);
+    }
+
+    /// 0 disables reservations: every request just queues behind the pending ones.
+    function setFillLockWindow(uint64 window) external {
+        require(hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "only admin");
+        fillLockWindow = window;
+        emit FillLockWindowUpdated(window);
     }
 }
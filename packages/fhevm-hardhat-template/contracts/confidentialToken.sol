@@ -16,4 +16,13 @@
          euint64 encryptedAmount = FHE.asEuint64(amount);
          _mint(msg.sender, encryptedAmount);
      }
+ 
+     /// Mints an encrypted `amount` to `to` (owner only; the demo site's faucet calls this on a local node).
+     function mint(
+         address to,
+         externalEuint64 amount,
+         bytes calldata inputProof
+     ) external onlyOwner returns (euint64 minted) {
+         return _mint(to, FHE.fromExternal(amount, inputProof));
+     }
  }
\ No newline at end of file
@@ -47,6 +47,14 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   });
   console.log(`ConfidentialOtcEscrowWithOZ contract: ${deployedOtcEscrow.address}`);
 
+  // Deploy ConfidentialBasketEscrow (multi-leg orders; kept apart from the escrow, which is at the size limit)
+  const deployedBasketEscrow = await deploy("ConfidentialBasketEscrow", {
+    from: deployer,
+    args: [deployedOtcEscrow.address], // pair fees, fee recipient and pause come from the escrow
+    log: true,
+  });
+  console.log(`ConfidentialBasketEscrow contract: ${deployedBasketEscrow.address}`);
+
   // Deploy a general ConfidentialToken for testing
   const deployedConfidentialToken = await deploy("ConfidentialTokenExample", {
     from: deployer,
@@ -63,4 +71,4 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 };
 export default func;
 func.id = "deploy_all_contracts"; // id required to prevent reexecution
-func.tags = ["FHECounter", "ConfidentialTokenIn", "ConfidentialTokenOut", "ConfidentialOtcEscrowWithOZ", "ConfidentialTokenExample"];
+func.tags = ["FHECounter", "ConfidentialTokenIn", "ConfidentialTokenOut", "ConfidentialOtcEscrowWithOZ", "ConfidentialBasketEscrow", "ConfidentialTokenExample"];
@@ -10,6 +10,9 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/ConfidentialBasketEscrow";
+import "./tasks/ConfidentialOtcEscrow";
+import "./tasks/ConfidentialToken";
 import "./tasks/FHECounter";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
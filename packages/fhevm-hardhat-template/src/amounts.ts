@@ -0,0 +1,68 @@
+// Confidential token amounts are euint64 base units. Shared with the site (site/lib/amounts.ts re-exports this
+// module), so it sticks to BigInt() calls rather than bigint literals, which the site's ES2017 target rejects.
+export const MAX_UINT64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+// The escrow multiplies amounts in euint128 for fees and to check a fill's price
+export const MAX_UINT128 = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+const DECIMAL = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Converts a decimal string ("1.5") to base units of a token with `decimals` decimals. Throws if the string
+ * is not a plain decimal number, has more fraction digits than the token, is zero (unless `allowZero`) or
+ * does not fit in a uint64.
+ */
+export function parseAmount(value: string, decimals: number, { allowZero = false } = {}): bigint {
+    const match = DECIMAL.exec(value.trim());
+    if (!match || (match[1] === "" && !match[2])) {
+        throw new Error(`"${value}" is not a decimal amount`);
+    }
+    const whole = match[1] || "0";
+    const fraction = (match[2] ?? "").replace(/0+$/, "");
+    if (fraction.length > decimals) {
+        throw new Error(`"${value}" has more than ${decimals} decimals`);
+    }
+
+    const amount = BigInt(whole + fraction.padEnd(decimals, "0"));
+    if (amount === BigInt(0) && !allowZero) {
+        throw new Error("Amount must be greater than zero");
+    }
+    if (amount > MAX_UINT64) {
+        throw new Error(`"${value}" is too large: at most ${formatAmount(MAX_UINT64, decimals)} fits in 64 bits`);
+    }
+    return amount;
+}
+
+// Base units back to a decimal string, without trailing zeros
+export function formatAmount(amount: bigint, decimals: number): string {
+    const digits = amount.toString().padStart(decimals + 1, "0");
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+    return fraction ? `${whole}.${fraction}` : whole;
+}
+
+// a * b, throwing when the product does not fit under `max`: the width the escrow computes that product in
+export function checkedMul(a: bigint, b: bigint, max: bigint): bigint {
+    const product = a * b;
+    if (product > max) {
+        throw new Error(`${a} * ${b} overflows`);
+    }
+    return product;
+}
+
+// Fee the escrow takes from `amount` at `feeBps`, rounded down like _takeFee: a euint128 product cast back to euint64
+export function feeOf(amount: bigint, feeBps: number): bigint {
+    const fee = checkedMul(amount, BigInt(feeBps), MAX_UINT128) / BigInt(10_000);
+    if (fee > MAX_UINT64) {
+        throw new Error(`Fee on ${amount} does not fit in 64 bits`);
+    }
+    return fee;
+}
+
+// parseAmount for a task argument, naming the argument in the error
+export function parseAmountArg(name: string, value: string, decimals: number): bigint {
+    try {
+        return parseAmount(value, decimals);
+    } catch (err) {
+        throw new Error(`Argument --${name}: ${(err as Error).message}`);
+    }
+}
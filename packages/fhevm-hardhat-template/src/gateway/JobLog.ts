@@ -0,0 +1,117 @@
+import * as fs from "fs";
+
+// pending: waiting for its turn or a retry; submitted: finalizeFill sent, receipt not seen yet;
+// done: the fill is settled (by this gateway or another one); skipped: the order closed or expired first;
+// failed: gave up after the maximum number of attempts
+export type JobStatus = "pending" | "submitted" | "done" | "skipped" | "failed";
+
+export type FillJob = {
+    orderId: number;
+    fillIndex: number;
+    taker: string;
+    requestedBlock: number;
+    status: JobStatus;
+    attempts: number;
+    nextAttemptAt: number; // ms since epoch
+    txHash?: string;
+    error?: string;
+    updatedAt: number; // ms since epoch
+};
+
+type LogEntry = { kind: "job"; job: FillJob } | { kind: "cursor"; block: number };
+
+/**
+ * Append-only JSON-lines log of fill jobs and the last block scanned for FillRequested.
+ * Every change is one line, so a crash loses at most the line being written; the last line for a job wins.
+ * The file is compacted to one line per job when it is opened.
+ */
+export class JobLog {
+    private jobs = new Map<string, FillJob>();
+    private cursorBlock = -1;
+
+    constructor(readonly path: string) {
+        if (fs.existsSync(path)) {
+            for (const line of fs.readFileSync(path, "utf8").split("\n")) {
+                if (!line.trim()) continue;
+                let entry: LogEntry;
+                try {
+                    entry = JSON.parse(line);
+                } catch {
+                    continue; // torn write from a crash
+                }
+                if (entry.kind === "cursor") {
+                    this.cursorBlock = entry.block;
+                } else {
+                    this.jobs.set(JobLog.key(entry.job.orderId, entry.job.fillIndex), entry.job);
+                }
+            }
+        }
+        this.compact();
+    }
+
+    static key(orderId: number, fillIndex: number): string {
+        return `${orderId}:${fillIndex}`;
+    }
+
+    // Last block scanned for FillRequested, -1 before the first scan
+    get cursor(): number {
+        return this.cursorBlock;
+    }
+
+    setCursor(block: number) {
+        this.cursorBlock = block;
+        this.append({ kind: "cursor", block });
+    }
+
+    get(orderId: number, fillIndex: number): FillJob | undefined {
+        return this.jobs.get(JobLog.key(orderId, fillIndex));
+    }
+
+    // Queues a fill unless it is already known; returns the job either way
+    add(orderId: number, fillIndex: number, taker: string, requestedBlock: number): FillJob {
+        const existing = this.get(orderId, fillIndex);
+        if (existing) return existing;
+        return this.write({
+            orderId,
+            fillIndex,
+            taker,
+            requestedBlock,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: 0,
+            updatedAt: Date.now(),
+        });
+    }
+
+    update(job: FillJob, changes: Partial<Omit<FillJob, "orderId" | "fillIndex">>): FillJob {
+        return this.write({ ...job, ...changes, updatedAt: Date.now() });
+    }
+
+    // Jobs still to settle, by order then fill index
+    open(): FillJob[] {
+        return this.all().filter((job) => job.status === "pending" || job.status === "submitted");
+    }
+
+    all(): FillJob[] {
+        return [...this.jobs.values()].sort((a, b) => a.orderId - b.orderId || a.fillIndex - b.fillIndex);
+    }
+
+    private write(job: FillJob): FillJob {
+        this.jobs.set(JobLog.key(job.orderId, job.fillIndex), job);
+        this.append({ kind: "job", job });
+        return job;
+    }
+
+    private append(entry: LogEntry) {
+        fs.appendFileSync(this.path, JSON.stringify(entry) + "\n");
+    }
+
+    private compact() {
+        const lines: LogEntry[] = [{ kind: "cursor", block: this.cursorBlock }];
+        for (const job of this.all()) lines.push({ kind: "job", job });
+
+        const tmp = `${this.path}.tmp`;
+        fs.writeFileSync(tmp, lines.map((entry) => JSON.stringify(entry) + "\n").join(""));
+        fs.renameSync(tmp, this.path);
+    }
+}
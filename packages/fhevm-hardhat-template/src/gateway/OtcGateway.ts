@@ -0,0 +1,179 @@
+import { ethers } from "ethers";
+import { JobLog, type FillJob } from "./JobLog";
+
+export type GatewayOptions = {
+    fromBlock: number; // first block scanned when the job log has no cursor yet
+    confirmations: number; // blocks to stay behind the head when scanning for fill requests
+    batchSize: number; // blocks per FillRequested query
+    pollIntervalMs: number;
+    maxAttempts: number; // finalizeFill attempts per fill before it is marked failed
+    baseBackoffMs: number; // delay after the first failed attempt, doubled for every further one
+    maxBackoffMs: number;
+    log: (message: string) => void;
+};
+
+export const DEFAULT_GATEWAY_OPTIONS: GatewayOptions = {
+    fromBlock: 0,
+    confirmations: 0,
+    batchSize: 2000,
+    pollIntervalMs: 2000,
+    maxAttempts: 6,
+    baseBackoffMs: 1000,
+    maxBackoffMs: 60_000,
+    log: (message) => console.log(message),
+};
+
+function errorMessage(err: unknown): string {
+    const e = err as { shortMessage?: string; reason?: string; message?: string };
+    return e?.reason ?? e?.shortMessage ?? e?.message ?? String(err);
+}
+
+/**
+ * Settles fill requests for ConfidentialOtcEscrowWithOZ. `escrow` must be connected to an account holding
+ * GATEWAY_ROLE.
+ *
+ * Each poll scans new blocks for FillRequested, queues the fills in the job log, then calls finalizeFill
+ * for every order with a pending fill, oldest fill first as the escrow requires. The taker and pro-rata
+ * checks run homomorphically inside finalizeFill, so the gateway never sees a plaintext amount.
+ * Failed calls are retried with exponential backoff; a restart picks up the log where it stopped.
+ */
+export class OtcGateway {
+    readonly options: GatewayOptions;
+
+    constructor(
+        private readonly escrow: ethers.Contract,
+        private readonly jobs: JobLog,
+        options: Partial<GatewayOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_GATEWAY_OPTIONS, ...options };
+    }
+
+    private get provider(): ethers.Provider {
+        const provider = this.escrow.runner?.provider;
+        if (!provider) throw new Error("escrow contract is not connected to a provider");
+        return provider;
+    }
+
+    async run(signal: AbortSignal): Promise<void> {
+        while (!signal.aborted) {
+            try {
+                await this.poll();
+            } catch (err) {
+                this.options.log(`Poll failed: ${errorMessage(err)}`);
+            }
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, this.options.pollIntervalMs);
+                signal.addEventListener("abort", () => {
+                    clearTimeout(timer);
+                    resolve();
+                }, { once: true });
+            });
+        }
+    }
+
+    async poll(): Promise<void> {
+        await this.scan();
+        await this.settle();
+    }
+
+    // Queues every FillRequested between the cursor and the head
+    async scan(): Promise<number> {
+        const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+        let from = Math.max(this.jobs.cursor + 1, this.options.fromBlock);
+        let queued = 0;
+
+        while (from <= head) {
+            const to = Math.min(head, from + this.options.batchSize - 1);
+            const events = await this.escrow.queryFilter(this.escrow.filters.FillRequested(), from, to);
+            for (const event of events) {
+                const { id, taker, fillIndex } = (event as ethers.EventLog).args;
+                if (!this.jobs.get(Number(id), Number(fillIndex))) {
+                    this.jobs.add(Number(id), Number(fillIndex), taker, event.blockNumber);
+                    this.options.log(`Queued fill #${fillIndex} of order ${id} (taker ${taker})`);
+                    queued++;
+                }
+            }
+            this.jobs.setCursor(to);
+            from = to + 1;
+        }
+        return queued;
+    }
+
+    // Works through each order's pending fills in order, stopping at the first one that cannot settle yet
+    async settle(): Promise<void> {
+        const orderIds = [...new Set(this.jobs.open().map((job) => job.orderId))];
+        if (orderIds.length === 0) return;
+
+        const latest = await this.provider.getBlock("latest");
+        const now = Number(latest?.timestamp ?? Math.floor(Date.now() / 1000));
+
+        for (const orderId of orderIds) {
+            for (;;) {
+                const order = await this.escrow.orders(orderId);
+                const fills = await this.escrow.getFills(orderId);
+                const next = Number(order.settledFills);
+                if (next >= fills.length) break;
+
+                // A fill requested before the scanned range is picked up from the escrow itself
+                const job = this.jobs.get(orderId, next) ?? this.jobs.add(orderId, next, fills[next].taker, 0);
+                for (const settled of this.jobs.open().filter((j) => j.orderId === orderId && j.fillIndex < next)) {
+                    this.jobs.update(settled, { status: "done", error: undefined });
+                }
+
+                if (order.cancelled || Number(order.deadline) < now) {
+                    this.skipRemaining(orderId, order.cancelled ? "order closed" : "order expired");
+                    break;
+                }
+                if (!(await this.finalize(job))) break;
+            }
+        }
+    }
+
+    // Returns true once the fill is settled, so the next fill of the order can go
+    private async finalize(job: FillJob): Promise<boolean> {
+        if (job.status === "failed" || job.status === "skipped") return false;
+
+        if (job.status === "submitted" && job.txHash) {
+            const receipt = await this.provider.getTransactionReceipt(job.txHash);
+            if (receipt?.status === 1) {
+                this.jobs.update(job, { status: "done", error: undefined });
+                return true;
+            }
+            // Still in the mempool: wait for it rather than racing it with a second transaction
+            if (!receipt && (await this.provider.getTransaction(job.txHash))) return false;
+            job = this.jobs.update(job, { status: "pending", error: receipt ? "reverted" : "dropped" });
+        }
+
+        if (Date.now() < job.nextAttemptAt) return false;
+
+        const attempts = job.attempts + 1;
+        try {
+            const tx: ethers.ContractTransactionResponse = await this.escrow.finalizeFill(job.orderId, job.taker);
+            job = this.jobs.update(job, { status: "submitted", attempts, txHash: tx.hash });
+            this.options.log(`Finalizing fill #${job.fillIndex} of order ${job.orderId}: tx ${tx.hash}`);
+
+            await tx.wait();
+            this.jobs.update(job, { status: "done", error: undefined });
+            this.options.log(`Settled fill #${job.fillIndex} of order ${job.orderId}`);
+            return true;
+        } catch (err) {
+            const error = errorMessage(err);
+            if (attempts >= this.options.maxAttempts) {
+                this.jobs.update(job, { status: "failed", attempts, error });
+                this.options.log(`Gave up on fill #${job.fillIndex} of order ${job.orderId} after ${attempts} attempts: ${error}`);
+            } else {
+                const delay = Math.min(this.options.maxBackoffMs, this.options.baseBackoffMs * 2 ** (attempts - 1));
+                this.jobs.update(job, { status: "pending", attempts, error, nextAttemptAt: Date.now() + delay });
+                this.options.log(`Fill #${job.fillIndex} of order ${job.orderId} failed (${error}), retrying in ${delay}ms`);
+            }
+            return false;
+        }
+    }
+
+    private skipRemaining(orderId: number, reason: string) {
+        for (const job of this.jobs.open().filter((j) => j.orderId === orderId)) {
+            this.jobs.update(job, { status: "skipped", error: reason });
+            this.options.log(`Skipped fill #${job.fillIndex} of order ${orderId}: ${reason}`);
+        }
+    }
+}
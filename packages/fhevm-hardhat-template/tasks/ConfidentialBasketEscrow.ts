@@ -0,0 +1,300 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { formatAmount, parseAmountArg } from "../src/amounts";
+
+/**
+ * Tutorial: Basket orders (--network localhost or --network sepolia)
+ * =================================================================
+ *
+ * A basket trades up to MAX_LEGS tokens on each side and settles every leg in the fill transaction.
+ * Legs are given as token:amount pairs separated by commas, amounts in whole tokens (e.g. 1.5).
+ *
+ *   npx hardhat --network localhost deploy
+ *   npx hardhat --network localhost task:basket-create --legsin 0x123...:100,0x456...:50 --legsout 0x789...:200 --deadline 1759332928
+ *   npx hardhat --network localhost task:basket-fill --orderid 0 --pays 100,50
+ *   npx hardhat --network localhost task:basket-info --orderid 0 --decrypt true
+ *   npx hardhat --network localhost task:basket-cancel --orderid 0
+ *   npx hardhat --network localhost task:basket-fees --token 0x789... --withdraw true
+ *
+ * The basket escrow must be the maker's operator on every tokenOut, and the taker's on every tokenIn
+ * (task:token-set-operator). Fees and pause follow the OTC escrow (task:otc-set-fee, task:otc-pause).
+ */
+
+async function tokenDecimals(hre: HardhatRuntimeEnvironment, tokenAddress: string): Promise<number> {
+    const token = await hre.ethers.getContractAt("ConfidentialTokenExample", tokenAddress);
+    return Number(await token.decimals());
+}
+
+async function basketContract(hre: HardhatRuntimeEnvironment) {
+    const deployment = await hre.deployments.get("ConfidentialBasketEscrow");
+    return hre.ethers.getContractAt("ConfidentialBasketEscrow", deployment.address);
+}
+
+// "0xToken:1.5,0xOther:2" => [{ token, amount (base units) }]
+async function parseLegs(hre: HardhatRuntimeEnvironment, argName: string, value: string) {
+    const legs = [];
+    for (const [i, leg] of value.split(",").entries()) {
+        const [token, amount] = leg.split(":");
+        if (!hre.ethers.isAddress(token) || amount === undefined) {
+            throw new Error(`Argument --${argName}: leg ${i} must be <token address>:<amount>`);
+        }
+        legs.push({ token, amount: parseAmountArg(`${argName} leg ${i}`, amount, await tokenDecimals(hre, token)) });
+    }
+    return legs;
+}
+
+function parseOrderId(value: string): number {
+    const orderId = parseInt(value);
+    if (!Number.isInteger(orderId) || orderId < 0) {
+        throw new Error(`Argument --orderid must be a non-negative integer`);
+    }
+    return orderId;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:basket-create --legsin 0x123...:100,0x456...:50 --legsout 0x789...:200 --deadline 1759332928
+ *   - npx hardhat --network sepolia task:basket-create --legsin 0x123...:100 --legsout 0x456...:200,0x789...:10 --taker 0xabc... --deadline 1759332928
+ */
+task("task:basket-create", "Creates a basket order and escrows every tokenOut leg")
+    .addParam("legsin", "Legs the taker pays, as token:amount pairs separated by commas")
+    .addParam("legsout", "Legs the maker escrows, as token:amount pairs separated by commas")
+    .addOptionalParam("taker", "Taker address (optional, defaults to zero address)")
+    .addParam("deadline", "Deadline (Unix timestamp)")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const deadline = parseInt(taskArguments.deadline);
+        if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+            throw new Error(`Argument --deadline must be a future Unix timestamp`);
+        }
+        const legsIn = await parseLegs(hre, "legsin", taskArguments.legsin);
+        const legsOut = await parseLegs(hre, "legsout", taskArguments.legsout);
+        const takerAddr = taskArguments.taker || ethers.ZeroAddress;
+
+        await fhevm.initializeCLIApi();
+
+        const basket = await basketContract(hre);
+        const basketAddress = await basket.getAddress();
+        const signers = await ethers.getSigners();
+
+        console.log(`Basket Contract: ${basketAddress}`);
+        legsIn.forEach((leg) => console.log(`Leg In: ${leg.token} ${leg.amount} base units`));
+        legsOut.forEach((leg) => console.log(`Leg Out: ${leg.token} ${leg.amount} base units`));
+        console.log(`Taker: ${takerAddr}`);
+        console.log(`Deadline: ${deadline}`);
+
+        // Every leg amount and the taker under one input proof, legs in first
+        const input = fhevm.createEncryptedInput(basketAddress, signers[0].address);
+        [...legsIn, ...legsOut].forEach((leg) => input.add64(leg.amount));
+        const enc = await input.addAddress(takerAddr).encrypt();
+
+        const tx = await basket
+            .connect(signers[0])
+            .createBasketOrder(
+                legsIn.map((leg) => leg.token),
+                enc.handles.slice(0, legsIn.length),
+                legsOut.map((leg) => leg.token),
+                enc.handles.slice(legsIn.length, legsIn.length + legsOut.length),
+                enc.handles[legsIn.length + legsOut.length],
+                enc.inputProof,
+                deadline
+            );
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        for (const log of receipt?.logs ?? []) {
+            try {
+                const parsed = basket.interface.parseLog(log);
+                if (parsed?.name === "BasketOrderCreated") console.log(`Basket created with ID: ${parsed.args.id}`);
+            } catch {
+                // not a basket event
+            }
+        }
+
+        console.log(`Create basket succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:basket-fill --orderid 0 --pays 100,50
+ *   - npx hardhat --network sepolia task:basket-fill --orderid 0 --pays 100,50
+ */
+task("task:basket-fill", "Fills a whole basket order, paying every tokenIn leg in one transaction")
+    .addParam("orderid", "Basket ID to fill")
+    .addParam("pays", "Payment for each tokenIn leg in leg order, in that token's units, separated by commas")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const orderId = parseOrderId(taskArguments.orderid);
+        const basket = await basketContract(hre);
+        const basketAddress = await basket.getAddress();
+        const signers = await ethers.getSigners();
+
+        const order = await basket.basketOrder(orderId);
+        if (order.maker === ethers.ZeroAddress) {
+            throw new Error(`Basket ${orderId} does not exist`);
+        }
+        const pays: string[] = taskArguments.pays.split(",");
+        if (pays.length !== order.legsIn.length) {
+            throw new Error(`Argument --pays must give ${order.legsIn.length} payments, one per tokenIn leg`);
+        }
+        const amounts = [];
+        for (const [i, pay] of pays.entries()) {
+            amounts.push(parseAmountArg(`pays leg ${i}`, pay, await tokenDecimals(hre, order.legsIn[i].token)));
+        }
+
+        await fhevm.initializeCLIApi();
+
+        console.log(`Basket Contract: ${basketAddress}`);
+        console.log(`Basket ID: ${orderId}`);
+        order.legsIn.forEach((leg, i) => console.log(`Pay: ${leg.token} ${pays[i]} (${amounts[i]} base units)`));
+
+        const input = fhevm.createEncryptedInput(basketAddress, signers[0].address);
+        amounts.forEach((amount) => input.add64(amount));
+        const enc = await input.encrypt();
+
+        const tx = await basket.connect(signers[0]).fillBasketOrder(orderId, enc.handles, enc.inputProof);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        const fills = await basket.getBasketFills(orderId);
+        const filled = await fhevm.userDecryptEbool(fills[fills.length - 1].filledEnc, basketAddress, signers[0]);
+        console.log(filled ? `Basket swapped` : `Basket not swapped: every payment was refunded`);
+
+        console.log(`Fill basket ${orderId} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:basket-cancel --orderid 0
+ *   - npx hardhat --network sepolia task:basket-cancel --orderid 0
+ */
+task("task:basket-cancel", "Cancels a basket order and returns its escrow to the maker (anyone after the deadline)")
+    .addParam("orderid", "Basket ID to cancel")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const orderId = parseOrderId(taskArguments.orderid);
+        const basket = await basketContract(hre);
+        const signers = await ethers.getSigners();
+
+        console.log(`Basket Contract: ${await basket.getAddress()}`);
+        console.log(`Basket ID: ${orderId}`);
+
+        const tx = await basket.connect(signers[0]).cancelBasketOrder(orderId);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Cancel basket ${orderId} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:basket-info --orderid 0
+ *   - npx hardhat --network sepolia task:basket-info --orderid 0 --decrypt true
+ */
+task("task:basket-info", "Gets information about a basket order")
+    .addParam("orderid", "Basket ID to query")
+    .addOptionalParam("decrypt", "Whether to decrypt the legs (maker only)", "false")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const orderId = parseOrderId(taskArguments.orderid);
+        const basket = await basketContract(hre);
+        const basketAddress = await basket.getAddress();
+
+        const order = await basket.basketOrder(orderId);
+        if (order.maker === ethers.ZeroAddress) {
+            throw new Error(`Basket ${orderId} does not exist`);
+        }
+        const decrypt = taskArguments.decrypt === "true";
+        const signers = await ethers.getSigners();
+        if (decrypt) {
+            await fhevm.initializeCLIApi();
+        }
+
+        const legLabel = async (token: string, handle: string) => {
+            if (!decrypt) return `${token} (handle ${handle})`;
+            const clear = await fhevm.userDecryptEuint(FhevmType.euint64, handle, basketAddress, signers[0]);
+            return `${token} ${formatAmount(clear, await tokenDecimals(hre, token))}`;
+        };
+
+        console.log(`Basket Contract: ${basketAddress}`);
+        console.log(`Basket ID: ${orderId}`);
+        console.log(`Maker: ${order.maker}`);
+        console.log(`Deadline: ${order.deadline}`);
+        console.log(`Cancelled: ${order.cancelled}`);
+        console.log(`Is Open: ${await basket.isOpen(orderId)}`);
+        for (const leg of order.legsIn) {
+            console.log(`Leg In: ${await legLabel(leg.token, leg.amount)}`);
+        }
+        for (const [i, leg] of order.legsOut.entries()) {
+            console.log(`Leg Out: ${await legLabel(leg.token, leg.amount)}, remaining ${await legLabel(leg.token, order.remainingOut[i])}`);
+        }
+        if (decrypt) {
+            console.log(`Fillable: ${await fhevm.userDecryptEbool(order.openEnc, basketAddress, signers[0])}`);
+        }
+
+        const fills = await basket.getBasketFills(orderId);
+        console.log(`Fills: ${fills.length}`);
+        fills.forEach((fill, index) => {
+            console.log(`  #${index} taker=${fill.taker} swapped (handle): ${fill.filledEnc}`);
+        });
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:basket-fees --token 0x789...
+ *   - npx hardhat --network sepolia task:basket-fees --token 0x789... --withdraw true
+ */
+task("task:basket-fees", "Shows (and optionally withdraws) the basket fees accrued in a token")
+    .addParam("token", "Token address")
+    .addOptionalParam("withdraw", "Whether to withdraw the accrued fees (the escrow's fee recipient only)", "false")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        await fhevm.initializeCLIApi();
+
+        const basket = await basketContract(hre);
+        const basketAddress = await basket.getAddress();
+        const escrow = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await basket.escrow());
+        const signers = await ethers.getSigners();
+
+        const feeRecipient = await escrow.feeRecipient();
+        const accrued = await basket.accruedFees(taskArguments.token);
+
+        console.log(`Basket Contract: ${basketAddress}`);
+        console.log(`Fee Recipient: ${feeRecipient}`);
+        console.log(`Token: ${taskArguments.token}`);
+        console.log(`Accrued fees (handle): ${accrued}`);
+
+        const recipientSigner = signers.find((s) => s.address === feeRecipient);
+        if (!recipientSigner) {
+            console.log(`Fee recipient is not one of the configured accounts, cannot decrypt`);
+            return;
+        }
+
+        if (accrued !== ethers.ZeroHash) {
+            const clearAccrued = await fhevm.userDecryptEuint(FhevmType.euint64, accrued, basketAddress, recipientSigner);
+            const decimals = await tokenDecimals(hre, taskArguments.token);
+            console.log(`Accrued fees (clear): ${formatAmount(clearAccrued, decimals)} (${clearAccrued} base units)`);
+        }
+
+        if (taskArguments.withdraw === "true") {
+            const tx = await basket.connect(recipientSigner).withdrawFees(taskArguments.token);
+            console.log(`Wait for tx:${tx.hash}...`);
+
+            const receipt = await tx.wait();
+            console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+            console.log(`Withdraw fees succeeded!`);
+        }
+    });
@@ -1,6 +1,10 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import * as fs from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { formatAmount, parseAmountArg } from "../src/amounts";
+import { JobLog } from "../src/gateway/JobLog";
+import { OtcGateway } from "../src/gateway/OtcGateway";
 
 /**
  * Tutorial: Deploy and Interact with ConfidentialOtcEscrow Locally (--network localhost)
@@ -18,9 +22,43 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network localhost task:otc-address
  *   npx hardhat --network localhost task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200 --taker 0x789... --deadline 1759332928
- *   npx hardhat --network localhost task:otc-fill-order --orderid 0 --takerpay 100
+ *   npx hardhat --network localhost task:otc-fill-order --orderid 0 --takerpay 100 --receive 200
  *   npx hardhat --network localhost task:otc-cancel-order --orderid 0
+ *   npx hardhat --network localhost task:otc-reclaim --orderid 0
  *   npx hardhat --network localhost task:otc-order-info --orderid 0
+ *   npx hardhat --network localhost task:otc-batch-create --file orders.json --deadline 1759332928
+ *
+ *   Fill requests are settled by the gateway; keep it running in another terminal instead of
+ *   calling task:otc-finalize-fill for each fill:
+ *
+ *   npx hardhat --network localhost task:otc-gateway
+ *
+ * 4. Signed orders (RFQ): the maker signs off-chain, the taker settles in one call
+ *
+ *   npx hardhat --network localhost task:otc-sign-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200 --taker 0x789... --deadline 1759332928 --out order.json
+ *   npx hardhat --network localhost task:otc-inspect-signed-order --file order.json
+ *   npx hardhat --network localhost task:otc-fill-signed-order --file order.json --takerpay 100
+ *   npx hardhat --network localhost task:otc-cancel-nonce --nonce 1
+ *
+ * 5. Fees (fee manager sets the fee, fee recipient withdraws)
+ *
+ *   The deployer holds FEE_MANAGER_ROLE; the admin can grant it to another account, which then runs
+ *   task:otc-set-fee as its first signer. The fee recipient starts as the gateway.
+ *
+ *   npx hardhat --network localhost task:otc-grant-role --role feemanager --account 0x789...
+ *   npx hardhat --network localhost task:otc-set-fee --tokenin 0x123... --tokenout 0x456... --bps 30
+ *   npx hardhat --network localhost task:otc-fees --token 0x456... --withdraw true
+ *
+ * 6. Roles and pause (admin grants roles, pauser pauses)
+ *
+ *   npx hardhat --network localhost task:otc-grant-role --role pauser --account 0x789...
+ *   npx hardhat --network localhost task:otc-pause
+ *   npx hardhat --network localhost task:otc-pause --unpause true
+ *
+ * 7. Auditors (the maker grants view access to one order, or to all of its future orders)
+ *
+ *   npx hardhat --network localhost task:otc-grant-auditor --orderid 0 --auditor 0x789...
+ *   npx hardhat --network localhost task:otc-default-auditor --auditor 0x789...
  *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
@@ -34,12 +72,19 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network sepolia task:otc-address
  *   npx hardhat --network sepolia task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200 --taker 0x789... --deadline 1759332928
- *   npx hardhat --network sepolia task:otc-fill-order --orderid 0 --takerpay 100
+ *   npx hardhat --network sepolia task:otc-fill-order --orderid 0 --takerpay 100 --receive 200
  *   npx hardhat --network sepolia task:otc-cancel-order --orderid 0
+ *   npx hardhat --network sepolia task:otc-reclaim --orderid 0
  *   npx hardhat --network sepolia task:otc-order-info --orderid 0
  *
+ * Amounts are given in whole tokens (e.g. 1.5) and converted to base units with each token's decimals.
  */
 
+async function tokenDecimals(hre: HardhatRuntimeEnvironment, tokenAddress: string): Promise<number> {
+    const token = await hre.ethers.getContractAt("ConfidentialTokenExample", tokenAddress);
+    return Number(await token.decimals());
+}
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:otc-address
@@ -62,35 +107,28 @@ task("task:otc-address", "Prints the ConfidentialOtcEscrow address").setAction(a
 
 /**
  * Example:
- *   - npx hardhat --network localhost task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200 --taker 0x789... --deadline 1759332928
- *   - npx hardhat --network sepolia task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200 --taker 0x789... --deadline 1759332928
+ *   - npx hardhat --network localhost task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200.5 --taker 0x789... --deadline 1759332928
+ *   - npx hardhat --network sepolia task:otc-create-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200.5 --taker 0x789... --deadline 1759332928
  */
-task("task:otc-create-order", "Creates a new OTC order")
+task("task:otc-create-order", "Creates a new OTC order and escrows amountOut (the escrow must be the signer's operator on tokenOut)")
     .addParam("tokenin", "Token In contract address")
     .addParam("tokenout", "Token Out contract address")
-    .addParam("amountin", "Amount In (uint64)")
-    .addParam("amountout", "Amount Out (uint64)")
+    .addParam("amountin", "Amount In, in Token In units (e.g. 1.5)")
+    .addParam("amountout", "Amount Out, in Token Out units (e.g. 1.5)")
     .addOptionalParam("taker", "Taker address (optional, defaults to zero address)")
     .addParam("deadline", "Deadline (Unix timestamp)")
-    .addOptionalParam("dotransferout", "Whether to transfer tokens out immediately", "false")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers, fhevm } = hre;
 
-        const amountIn = parseInt(taskArguments.amountin);
-        const amountOut = parseInt(taskArguments.amountout);
         const deadline = parseInt(taskArguments.deadline);
-        const doTransferOut = taskArguments.dotransferout === "true";
 
-        if (!Number.isInteger(amountIn) || amountIn <= 0) {
-            throw new Error(`Argument --amountin must be a positive integer`);
-        }
-        if (!Number.isInteger(amountOut) || amountOut <= 0) {
-            throw new Error(`Argument --amountout must be a positive integer`);
-        }
         if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
             throw new Error(`Argument --deadline must be a future Unix timestamp`);
         }
 
+        const amountIn = parseAmountArg("amountin", taskArguments.amountin, await tokenDecimals(hre, taskArguments.tokenin));
+        const amountOut = parseAmountArg("amountout", taskArguments.amountout, await tokenDecimals(hre, taskArguments.tokenout));
+
         await fhevm.initializeCLIApi();
 
         const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
@@ -101,17 +139,16 @@ task("task:otc-create-order", "Creates a new OTC order")
         console.log(`OTC Contract: ${await otcContract.getAddress()}`);
         console.log(`Token In: ${taskArguments.tokenin}`);
         console.log(`Token Out: ${taskArguments.tokenout}`);
-        console.log(`Amount In: ${amountIn}`);
-        console.log(`Amount Out: ${amountOut}`);
+        console.log(`Amount In: ${taskArguments.amountin} (${amountIn} base units)`);
+        console.log(`Amount Out: ${taskArguments.amountout} (${amountOut} base units)`);
         console.log(`Taker: ${takerAddr}`);
         console.log(`Deadline: ${deadline}`);
-        console.log(`Do Transfer Out: ${doTransferOut}`);
 
         // Encrypt order parameters
         const orderInput = await fhevm
             .createEncryptedInput(await otcContract.getAddress(), signers[0].address)
-            .add64(BigInt(amountIn))
-            .add64(BigInt(amountOut))
+            .add64(amountIn)
+            .add64(amountOut)
             .addAddress(takerAddr)
             .encrypt();
 
@@ -124,8 +161,7 @@ task("task:otc-create-order", "Creates a new OTC order")
                 orderInput.handles[1], // amountOut
                 orderInput.handles[2], // takerAddr
                 orderInput.inputProof,
-                deadline,
-                doTransferOut
+                deadline
             );
         console.log(`Wait for tx:${tx.hash}...`);
 
@@ -151,43 +187,160 @@ task("task:otc-create-order", "Creates a new OTC order")
         console.log(`Create order succeeded!`);
     });
 
+// One entry of a task:otc-batch-create file; amounts in token units as in task:otc-create-order
+type BatchOrderEntry = {
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string;
+    amountOut: string;
+    taker?: string;
+    deadline?: number;
+};
+
+// createOrder encrypts 64 + 64 + 160 bits, and one input proof covers at most 2048 bits
+const CREATE_ORDERS_PER_PROOF = 7;
+
 /**
  * Example:
- *   - npx hardhat --network localhost task:otc-fill-order --orderid 0 --takerpay 100
- *   - npx hardhat --network sepolia task:otc-fill-order --orderid 0 --takerpay 100
+ *   - npx hardhat --network localhost task:otc-batch-create --file orders.json --deadline 1759332928
+ *   - npx hardhat --network sepolia task:otc-batch-create --file orders.json
+ *
+ * orders.json: [{ "tokenIn": "0x123...", "tokenOut": "0x456...", "amountIn": "100", "amountOut": "200.5", "taker": "0x789...", "deadline": 1759332928 }, ...]
+ * (taker optional, deadline optional when --deadline is given). The escrow pulls every amountOut, so it must be
+ * the signer's operator on each tokenOut.
  */
-task("task:otc-fill-order", "Fills an existing OTC order")
+task("task:otc-batch-create", "Creates and escrows the OTC orders of a JSON file, up to 7 per transaction under one input proof")
+    .addParam("file", "JSON file with an array of orders")
+    .addOptionalParam("deadline", "Deadline (Unix timestamp) for the entries that do not set one")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        if (!fs.existsSync(taskArguments.file)) {
+            throw new Error(`Orders file ${taskArguments.file} not found`);
+        }
+        const entries = JSON.parse(fs.readFileSync(taskArguments.file, "utf8")) as BatchOrderEntry[];
+        if (!Array.isArray(entries) || entries.length === 0) {
+            throw new Error(`${taskArguments.file} must hold a non-empty array of orders`);
+        }
+        const now = Math.floor(Date.now() / 1000);
+
+        // Validate every entry before sending anything
+        const orders = [];
+        for (const [i, entry] of entries.entries()) {
+            const label = `Order ${i}`;
+            if (!ethers.isAddress(entry.tokenIn) || !ethers.isAddress(entry.tokenOut)) {
+                throw new Error(`${label}: tokenIn and tokenOut must be addresses`);
+            }
+            const taker = entry.taker ?? ethers.ZeroAddress;
+            if (!ethers.isAddress(taker)) {
+                throw new Error(`${label}: taker must be an address`);
+            }
+            const deadline = entry.deadline ?? parseInt(taskArguments.deadline);
+            if (!Number.isInteger(deadline) || deadline <= now) {
+                throw new Error(`${label}: deadline must be a future Unix timestamp (set it in the file or with --deadline)`);
+            }
+            orders.push({
+                tokenIn: entry.tokenIn,
+                tokenOut: entry.tokenOut,
+                amountIn: parseAmountArg(`${label} amountIn`, String(entry.amountIn), await tokenDecimals(hre, entry.tokenIn)),
+                amountOut: parseAmountArg(`${label} amountOut`, String(entry.amountOut), await tokenDecimals(hre, entry.tokenOut)),
+                taker,
+                deadline,
+            });
+        }
+
+        await fhevm.initializeCLIApi();
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const otcAddress = await otcContract.getAddress();
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${otcAddress}`);
+        console.log(`Orders: ${orders.length}`);
+
+        const ids: bigint[] = [];
+        for (let start = 0; start < orders.length; start += CREATE_ORDERS_PER_PROOF) {
+            const chunk = orders.slice(start, start + CREATE_ORDERS_PER_PROOF);
+
+            // Every order of the chunk in one encrypted input: the createOrder calls share its proof
+            const input = fhevm.createEncryptedInput(otcAddress, signers[0].address);
+            for (const order of chunk) {
+                input.add64(order.amountIn).add64(order.amountOut).addAddress(order.taker);
+            }
+            const enc = await input.encrypt();
+
+            const calls = chunk.map((order, i) =>
+                otcContract.interface.encodeFunctionData("createOrder", [
+                    order.tokenIn,
+                    order.tokenOut,
+                    enc.handles[3 * i], // amountIn
+                    enc.handles[3 * i + 1], // amountOut
+                    enc.handles[3 * i + 2], // taker
+                    enc.inputProof,
+                    order.deadline,
+                ])
+            );
+
+            const tx = await otcContract.connect(signers[0]).multicall(calls);
+            console.log(`Wait for tx:${tx.hash} (orders ${start}-${start + chunk.length - 1} of the file)...`);
+
+            const receipt = await tx.wait();
+            console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+            for (const log of receipt?.logs ?? []) {
+                try {
+                    const parsed = otcContract.interface.parseLog(log);
+                    if (parsed?.name === "OrderCreated") ids.push(parsed.args.id);
+                } catch {
+                    // not an escrow event
+                }
+            }
+        }
+
+        console.log(`Created order IDs: ${ids.join(", ")}`);
+        console.log(`Batch create succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-fill-order --orderid 0 --takerpay 100 --receive 200
+ *   - npx hardhat --network sepolia task:otc-fill-order --orderid 0 --takerpay 100 --receive 200
+ */
+task("task:otc-fill-order", "Fills an existing OTC order (the escrow must be the signer's operator on tokenIn)")
     .addParam("orderid", "Order ID to fill")
-    .addParam("takerpay", "Taker payment amount (uint64)")
-    .addOptionalParam("dotransferin", "Whether to transfer tokens in immediately", "false")
+    .addParam("takerpay", "Taker payment, in tokenIn units (e.g. 1.5)")
+    .addParam("receive", "Amount of tokenOut to receive, up to the remaining amountOut, in tokenOut units")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers, fhevm } = hre;
 
         const orderId = parseInt(taskArguments.orderid);
-        const takerPay = parseInt(taskArguments.takerpay);
-        const doTransferIn = taskArguments.dotransferin === "true";
 
         if (!Number.isInteger(orderId) || orderId < 0) {
             throw new Error(`Argument --orderid must be a non-negative integer`);
         }
-        if (!Number.isInteger(takerPay) || takerPay <= 0) {
-            throw new Error(`Argument --takerpay must be a positive integer`);
-        }
-
-        await fhevm.initializeCLIApi();
 
         const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
         const signers = await ethers.getSigners();
 
+        const order = await otcContract.orders(orderId);
+        if (order.maker === ethers.ZeroAddress) {
+            throw new Error(`Order ${orderId} does not exist`);
+        }
+        const takerPay = parseAmountArg("takerpay", taskArguments.takerpay, await tokenDecimals(hre, order.tokenIn));
+        const takerReceive = parseAmountArg("receive", taskArguments.receive, await tokenDecimals(hre, order.tokenOut));
+
+        await fhevm.initializeCLIApi();
+
         console.log(`OTC Contract: ${await otcContract.getAddress()}`);
         console.log(`Order ID: ${orderId}`);
-        console.log(`Taker Pay: ${takerPay}`);
-        console.log(`Do Transfer In: ${doTransferIn}`);
+        console.log(`Taker Pay: ${taskArguments.takerpay} (${takerPay} base units)`);
+        console.log(`Taker Receive: ${taskArguments.receive} (${takerReceive} base units)`);
 
-        // Encrypt taker payment amount
+        // Encrypt taker payment and requested tokenOut amount
         const takerPayInput = await fhevm
             .createEncryptedInput(await otcContract.getAddress(), signers[0].address)
-            .add64(BigInt(takerPay))
+            .add64(takerPay)
+            .add64(takerReceive)
             .encrypt();
 
         const tx = await otcContract
@@ -195,14 +348,17 @@ task("task:otc-fill-order", "Fills an existing OTC order")
             .fillOrder(
                 orderId,
                 takerPayInput.handles[0],
-                takerPayInput.inputProof,
-                doTransferIn
+                takerPayInput.handles[1],
+                takerPayInput.inputProof
             );
         console.log(`Wait for tx:${tx.hash}...`);
 
         const receipt = await tx.wait();
         console.log(`tx:${tx.hash} status=${receipt?.status}`);
 
+        const fillCount = await otcContract.fillCount(orderId);
+        console.log(`Fill #${fillCount - 1n} requested, waiting for the gateway to settle it`);
+
         console.log(`Fill order ${orderId} succeeded!`);
     });
 
@@ -235,17 +391,128 @@ task("task:otc-cancel-order", "Cancels an existing OTC order")
         const receipt = await tx.wait();
         console.log(`tx:${tx.hash} status=${receipt?.status}`);
 
+        const order = await otcContract.orders(orderId);
+        console.log(`Remaining amountOut returned to maker ${order.maker} (token ${order.tokenOut})`);
+        console.log(`Pending fills refunded to their takers (token ${order.tokenIn})`);
+
         console.log(`Cancel order ${orderId} succeeded!`);
     });
 
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-amend-order --orderid 0 --amountin 120
+ *   - npx hardhat --network sepolia task:otc-amend-order --orderid 0 --amountin 100 --deadline 1759419328
+ *   - npx hardhat --network sepolia task:otc-amend-order --orderid 0 --deadline 1759419328
+ */
+task("task:otc-amend-order", "Reprices an OTC order and/or moves its deadline (maker only, no fill pending)")
+    .addParam("orderid", "Order ID to amend")
+    .addOptionalParam("amountin", "New Amount In for the remaining amountOut, in Token In units (omit to keep the price)")
+    .addOptionalParam("deadline", "New deadline (Unix timestamp, defaults to the current one; required without --amountin)")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const orderId = parseInt(taskArguments.orderid);
+        if (!Number.isInteger(orderId) || orderId < 0) {
+            throw new Error(`Argument --orderid must be a non-negative integer`);
+        }
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        const order = await otcContract.orders(orderId);
+        if (order.maker === ethers.ZeroAddress) {
+            throw new Error(`Order ${orderId} does not exist`);
+        }
+        if (order.settledFills < (await otcContract.fillCount(orderId))) {
+            throw new Error(`Order ${orderId} has a pending fill; amend it once the gateway has settled it`);
+        }
+
+        if (taskArguments.amountin === undefined && taskArguments.deadline === undefined) {
+            throw new Error(`Pass --amountin, --deadline or both`);
+        }
+        const deadline = taskArguments.deadline !== undefined ? parseInt(taskArguments.deadline) : Number(order.deadline);
+        if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+            throw new Error(`Argument --deadline must be a future Unix timestamp`);
+        }
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Order ID: ${orderId}`);
+        console.log(`Deadline: ${order.deadline} -> ${deadline}`);
+
+        let tx;
+        if (taskArguments.amountin === undefined) {
+            // Deadline only: the current amountIn keeps pricing pricedOutEnc, whatever has been filled since
+            tx = await otcContract.connect(signers[0]).amendDeadline(orderId, deadline);
+        } else {
+            const amountIn = parseAmountArg("amountin", taskArguments.amountin, await tokenDecimals(hre, order.tokenIn));
+            console.log(`Amount In: ${taskArguments.amountin} (${amountIn} base units) for the remaining amountOut`);
+
+            await fhevm.initializeCLIApi();
+            const amendInput = await fhevm
+                .createEncryptedInput(await otcContract.getAddress(), signers[0].address)
+                .add64(amountIn)
+                .encrypt();
+
+            tx = await otcContract
+                .connect(signers[0])
+                .amendOrder(orderId, amendInput.handles[0], deadline, amendInput.inputProof);
+        }
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Amend order ${orderId} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-reclaim --orderid 0
+ *   - npx hardhat --network sepolia task:otc-reclaim --orderid 0
+ */
+task("task:otc-reclaim", "Returns the escrow of an expired OTC order to its maker")
+    .addParam("orderid", "Order ID to reclaim")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const orderId = parseInt(taskArguments.orderid);
+        if (!Number.isInteger(orderId) || orderId < 0) {
+            throw new Error(`Argument --orderid must be a non-negative integer`);
+        }
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Order ID: ${orderId}`);
+
+        const order = await otcContract.orders(orderId);
+        const latestBlock = await ethers.provider.getBlock("latest");
+        if (latestBlock && BigInt(latestBlock.timestamp) <= order.deadline) {
+            throw new Error(`Order ${orderId} has not expired yet (deadline ${order.deadline})`);
+        }
+
+        const tx = await otcContract
+            .connect(signers[0])
+            .reclaimExpired(orderId);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Remaining amountOut returned to maker ${order.maker} (token ${order.tokenOut})`);
+        console.log(`Pending fills refunded to their takers (token ${order.tokenIn})`);
+        console.log(`Reclaim order ${orderId} succeeded!`);
+    });
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:otc-finalize-fill --orderid 0 --taker 0x123...
  *   - npx hardhat --network sepolia task:otc-finalize-fill --orderid 0 --taker 0x123...
  */
-task("task:otc-finalize-fill", "Finalizes a filled order (gateway only)")
+task("task:otc-finalize-fill", "Settles the oldest pending fill of an order (gateway only)")
     .addParam("orderid", "Order ID to finalize")
-    .addParam("taker", "Taker address")
+    .addParam("taker", "Taker of the oldest pending fill")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers } = hre;
 
@@ -275,15 +542,83 @@ task("task:otc-finalize-fill", "Finalizes a filled order (gateway only)")
         console.log(`Finalize fill for order ${orderId} succeeded!`);
     });
 
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-gateway
+ *   - npx hardhat --network sepolia task:otc-gateway --joblog sepolia-gateway.jsonl --fromblock 9000000 --confirmations 2
+ */
+task("task:otc-gateway", "Runs the gateway: finalizes every fill request until interrupted (gateway only)")
+    .addOptionalParam("joblog", "Job log file, kept across restarts", "otc-gateway-jobs.jsonl")
+    .addOptionalParam("fromblock", "First block to scan when the job log is new", "0")
+    .addOptionalParam("confirmations", "Blocks to stay behind the head", "0")
+    .addOptionalParam("interval", "Poll interval in milliseconds", "2000")
+    .addOptionalParam("maxattempts", "finalizeFill attempts per fill before giving up", "6")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const intArg = (name: string) => {
+            const value = parseInt(taskArguments[name]);
+            if (!Number.isInteger(value) || value < 0) {
+                throw new Error(`Argument --${name} must be a non-negative integer`);
+            }
+            return value;
+        };
+        const options = {
+            fromBlock: intArg("fromblock"),
+            confirmations: intArg("confirmations"),
+            pollIntervalMs: intArg("interval"),
+            maxAttempts: Math.max(1, intArg("maxattempts")),
+        };
+
+        const deployment = await hre.deployments.get("ConfidentialOtcEscrowWithOZ");
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", deployment.address);
+
+        // Prefer the primary gateway, then any local account holding GATEWAY_ROLE
+        const signers = await ethers.getSigners();
+        const gatewayRole = await otcContract.GATEWAY_ROLE();
+        const primary = (await otcContract.gateway()).toLowerCase();
+        let gatewaySigner = signers.find((s) => s.address.toLowerCase() === primary);
+        for (const signer of signers) {
+            if (gatewaySigner) break;
+            if (await otcContract.hasRole(gatewayRole, signer.address)) gatewaySigner = signer;
+        }
+        if (!gatewaySigner) {
+            throw new Error(`None of the configured accounts holds GATEWAY_ROLE`);
+        }
+
+        const jobs = new JobLog(taskArguments.joblog);
+        const escrow = new ethers.Contract(deployment.address, deployment.abi, gatewaySigner);
+        const gateway = new OtcGateway(escrow, jobs, options);
+
+        console.log(`OTC Contract: ${deployment.address}`);
+        console.log(`Gateway: ${gatewaySigner.address}`);
+        console.log(`Job log: ${taskArguments.joblog} (${jobs.open().length} open jobs, scanned up to block ${jobs.cursor})`);
+
+        const stop = new AbortController();
+        process.once("SIGINT", () => {
+            console.log("Stopping gateway...");
+            stop.abort();
+        });
+        await gateway.run(stop.signal);
+
+        const byStatus = jobs.all().reduce<Record<string, number>>((acc, job) => {
+            acc[job.status] = (acc[job.status] ?? 0) + 1;
+            return acc;
+        }, {});
+        console.log(`Jobs: ${JSON.stringify(byStatus)}`);
+    });
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:otc-order-info --orderid 0
  *   - npx hardhat --network sepolia task:otc-order-info --orderid 0
+ *   - npx hardhat --network localhost task:otc-order-info --orderid 0 --decrypt true
  */
 task("task:otc-order-info", "Gets information about an OTC order")
     .addParam("orderid", "Order ID to query")
+    .addOptionalParam("decrypt", "Whether to publicly decrypt the terms, once the maker revealed them", "false")
     .setAction(async function (taskArguments: TaskArguments, hre) {
-        const { ethers } = hre;
+        const { ethers, fhevm } = hre;
 
         const orderId = parseInt(taskArguments.orderid);
         if (!Number.isInteger(orderId) || orderId < 0) {
@@ -303,14 +638,538 @@ task("task:otc-order-info", "Gets information about an OTC order")
             console.log(`Token In: ${order.tokenIn}`);
             console.log(`Token Out: ${order.tokenOut}`);
             console.log(`Deadline: ${order.deadline}`);
-            console.log(`Filled: ${order.filled}`);
+            console.log(`Created At: ${order.createdAt} (${new Date(Number(order.createdAt) * 1000).toISOString()})`);
+            console.log(`Created Block: ${order.createdBlock}`);
+
+            // The creation tx is the OrderCreated log for this id in the creation block
+            const createdLogs = await otcContract.queryFilter(
+                otcContract.filters.OrderCreated(orderId),
+                Number(order.createdBlock),
+                Number(order.createdBlock)
+            );
+            if (createdLogs.length > 0) {
+                console.log(`Created In Tx: ${createdLogs[0].transactionHash}`);
+            }
+
             console.log(`Cancelled: ${order.cancelled}`);
             console.log(`Is Open: ${isOpen}`);
+            const auditors = await otcContract.getAuditors(orderId);
+            console.log(`Auditors: ${auditors.length > 0 ? auditors.join(", ") : "none"}`);
+            console.log(`Remaining amountOut (handle): ${order.remainingOutEnc}`);
+            if (order.reservedBy !== ethers.ZeroAddress) {
+                console.log(`Reserved By: ${order.reservedBy} (until ${order.reservedUntil})`);
+            }
+
+            const fills = await otcContract.getFills(orderId);
+            console.log(`Fills: ${fills.length} (${order.settledFills} settled)`);
+            fills.forEach((fill, index) => {
+                console.log(`  #${index} taker=${fill.taker} settled=${fill.settled}`);
+                console.log(`      pay (handle): ${fill.payEnc}`);
+                console.log(`      received (handle): ${fill.receivedEnc}`);
+            });
+
+            if (taskArguments.decrypt === "true") {
+                const reveals = await otcContract.queryFilter(otcContract.filters.TermsRevealed(orderId), Number(order.createdBlock));
+                if (reveals.length === 0) {
+                    console.log(`Terms: not revealed (the maker can reveal them once the order is closed)`);
+                } else {
+                    await fhevm.initializeCLIApi();
+
+                    const amountIn = await fhevm.publicDecryptEuint(FhevmType.euint64, order.amountInEnc);
+                    const amountOut = await fhevm.publicDecryptEuint(FhevmType.euint64, order.amountOutEnc);
+                    const pricedOut = await fhevm.publicDecryptEuint(FhevmType.euint64, order.pricedOutEnc);
+                    const taker = await fhevm.publicDecryptEaddress(order.takerEnc);
+
+                    const decimalsIn = await tokenDecimals(hre, order.tokenIn);
+                    const decimalsOut = await tokenDecimals(hre, order.tokenOut);
+                    // amountIn is the price of pricedOut, which differs from amountOut once the price was amended
+                    const wholeIn = Number(formatAmount(amountIn, decimalsIn));
+                    const wholeOut = Number(formatAmount(pricedOut, decimalsOut));
+
+                    console.log(`Revealed In Tx: ${reveals[0].transactionHash}`);
+                    console.log(`Clear amountIn: ${formatAmount(amountIn, decimalsIn)} (${amountIn} base units)`);
+                    console.log(`Clear amountOut: ${formatAmount(amountOut, decimalsOut)} (${amountOut} base units)`);
+                    console.log(`Clear pricedOut: ${formatAmount(pricedOut, decimalsOut)} (${pricedOut} base units)`);
+                    console.log(`Clear taker: ${taker === ethers.ZeroAddress ? "anyone" : taker}`);
+                    console.log(`Implied price: ${pricedOut > 0n ? wholeIn / wholeOut : "n/a"} tokenIn per tokenOut`);
+                }
+            }
         } catch (error) {
             console.log(`Error getting order info: ${error}`);
         }
     });
 
+// EIP-712 layout of ConfidentialOtcEscrowWithOZ.SIGNED_ORDER_TYPEHASH (inputProof is signed through its hash)
+const SIGNED_ORDER_TYPES = {
+    SignedOrder: [
+        { name: "maker", type: "address" },
+        { name: "taker", type: "address" },
+        { name: "tokenIn", type: "address" },
+        { name: "tokenOut", type: "address" },
+        { name: "amountInExt", type: "bytes32" },
+        { name: "amountOutExt", type: "bytes32" },
+        { name: "inputProofHash", type: "bytes32" },
+        { name: "deadline", type: "uint64" },
+        { name: "nonce", type: "uint256" },
+    ],
+};
+
+// On-disk format shared with the site (packages/site/lib/signedOrder.ts)
+type SignedOrderFile = {
+    chainId: string;
+    verifyingContract: string;
+    order: {
+        maker: string;
+        taker: string;
+        tokenIn: string;
+        tokenOut: string;
+        amountInExt: string;
+        amountOutExt: string;
+        inputProof: string;
+        deadline: string;
+        nonce: string;
+    };
+    signature: string;
+};
+
+function readSignedOrderFile(path: string): SignedOrderFile {
+    if (!fs.existsSync(path)) {
+        throw new Error(`Signed order file ${path} not found`);
+    }
+    return JSON.parse(fs.readFileSync(path, "utf8")) as SignedOrderFile;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-sign-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200.5 --taker 0x789... --deadline 1759332928
+ *   - npx hardhat --network sepolia task:otc-sign-order --tokenin 0x123... --tokenout 0x456... --amountin 100 --amountout 200.5 --taker 0x789... --deadline 1759332928 --out order.json
+ */
+task("task:otc-sign-order", "Signs an off-chain OTC order (RFQ quote) for one taker and writes it to a file")
+    .addParam("tokenin", "Token In contract address")
+    .addParam("tokenout", "Token Out contract address")
+    .addParam("amountin", "Amount In, in Token In units (e.g. 1.5)")
+    .addParam("amountout", "Amount Out, in Token Out units (e.g. 1.5)")
+    .addParam("taker", "Taker address (the terms are encrypted for this address)")
+    .addParam("deadline", "Deadline (Unix timestamp)")
+    .addOptionalParam("nonce", "Order nonce (defaults to the current time in ms)")
+    .addOptionalParam("out", "Output file", "signed-order.json")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const deadline = parseInt(taskArguments.deadline);
+        const nonce = BigInt(taskArguments.nonce ?? Date.now());
+
+        if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+            throw new Error(`Argument --deadline must be a future Unix timestamp`);
+        }
+        if (!ethers.isAddress(taskArguments.taker) || taskArguments.taker === ethers.ZeroAddress) {
+            throw new Error(`Argument --taker must be a non-zero address`);
+        }
+
+        const amountIn = parseAmountArg("amountin", taskArguments.amountin, await tokenDecimals(hre, taskArguments.tokenin));
+        const amountOut = parseAmountArg("amountout", taskArguments.amountout, await tokenDecimals(hre, taskArguments.tokenout));
+
+        await fhevm.initializeCLIApi();
+
+        const otcAddress = (await hre.deployments.get("ConfidentialOtcEscrowWithOZ")).address;
+        const signers = await ethers.getSigners();
+        const maker = signers[0];
+
+        // The taker submits the handles, so the input proof must be bound to the taker's address
+        const terms = await fhevm
+            .createEncryptedInput(otcAddress, taskArguments.taker)
+            .add64(amountIn)
+            .add64(amountOut)
+            .encrypt();
+
+        const order = {
+            maker: maker.address,
+            taker: ethers.getAddress(taskArguments.taker),
+            tokenIn: ethers.getAddress(taskArguments.tokenin),
+            tokenOut: ethers.getAddress(taskArguments.tokenout),
+            amountInExt: ethers.hexlify(terms.handles[0]),
+            amountOutExt: ethers.hexlify(terms.handles[1]),
+            inputProof: ethers.hexlify(terms.inputProof),
+            deadline: deadline.toString(),
+            nonce: nonce.toString(),
+        };
+
+        const chainId = (await ethers.provider.getNetwork()).chainId;
+        const domain = { name: "ConfidentialOtcEscrow", version: "1", chainId, verifyingContract: otcAddress };
+        const signature = await maker.signTypedData(domain, SIGNED_ORDER_TYPES, {
+            ...order,
+            inputProofHash: ethers.keccak256(order.inputProof),
+        });
+
+        const file: SignedOrderFile = { chainId: chainId.toString(), verifyingContract: otcAddress, order, signature };
+        fs.writeFileSync(taskArguments.out, JSON.stringify(file, null, 2));
+
+        console.log(`OTC Contract: ${otcAddress}`);
+        console.log(`Maker: ${order.maker}`);
+        console.log(`Taker: ${order.taker}`);
+        console.log(`Nonce: ${order.nonce}`);
+        console.log(`Signed order written to ${taskArguments.out}`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-inspect-signed-order --file order.json
+ *   - npx hardhat --network sepolia task:otc-inspect-signed-order --file order.json
+ */
+task("task:otc-inspect-signed-order", "Prints a signed order file and checks it against the escrow")
+    .addOptionalParam("file", "Signed order file", "signed-order.json")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const { chainId, verifyingContract, order, signature } = readSignedOrderFile(taskArguments.file);
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", verifyingContract);
+
+        console.log(`OTC Contract: ${verifyingContract} (chain ${chainId})`);
+        console.log(`Maker: ${order.maker}`);
+        console.log(`Taker: ${order.taker}`);
+        console.log(`Token In: ${order.tokenIn}`);
+        console.log(`Token Out: ${order.tokenOut}`);
+        console.log(`Amount In (handle): ${order.amountInExt}`);
+        console.log(`Amount Out (handle): ${order.amountOutExt}`);
+        console.log(`Deadline: ${order.deadline}`);
+        console.log(`Nonce: ${order.nonce}`);
+
+        const networkChainId = (await ethers.provider.getNetwork()).chainId;
+        if (networkChainId.toString() !== chainId) {
+            console.log(`Warning: order is for chain ${chainId}, connected to ${networkChainId}`);
+            return;
+        }
+
+        const digest = await otcContract.hashSignedOrder(order);
+        const signer = ethers.recoverAddress(digest, signature);
+        const used = await otcContract.usedNonces(order.maker, order.nonce);
+        const latestBlock = await ethers.provider.getBlock("latest");
+        const expired = latestBlock !== null && latestBlock.timestamp > Number(order.deadline);
+
+        console.log(`Signature valid: ${signer === order.maker}`);
+        console.log(`Nonce used: ${used}`);
+        console.log(`Expired: ${expired}`);
+        console.log(`Fillable: ${signer === order.maker && !used && !expired}`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-fill-signed-order --file order.json --takerpay 100
+ *   - npx hardhat --network sepolia task:otc-fill-signed-order --file order.json --takerpay 100
+ */
+task("task:otc-fill-signed-order", "Settles a signed order file in one call (taker only)")
+    .addOptionalParam("file", "Signed order file", "signed-order.json")
+    .addParam("takerpay", "Taker payment, in tokenIn units (e.g. 1.5)")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        const { verifyingContract, order, signature } = readSignedOrderFile(taskArguments.file);
+        const takerPay = parseAmountArg("takerpay", taskArguments.takerpay, await tokenDecimals(hre, order.tokenIn));
+
+        await fhevm.initializeCLIApi();
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", verifyingContract);
+        const signers = await ethers.getSigners();
+        const taker = signers.find(s => s.address === order.taker);
+        if (!taker) {
+            throw new Error(`Order is quoted to ${order.taker}, which is not one of the configured accounts`);
+        }
+
+        console.log(`OTC Contract: ${verifyingContract}`);
+        console.log(`Maker: ${order.maker}`);
+        console.log(`Nonce: ${order.nonce}`);
+        console.log(`Taker Pay: ${taskArguments.takerpay} (${takerPay} base units)`);
+
+        const payInput = await fhevm
+            .createEncryptedInput(verifyingContract, taker.address)
+            .add64(takerPay)
+            .encrypt();
+
+        const tx = await otcContract
+            .connect(taker)
+            .fillSignedOrder(order, signature, payInput.handles[0], payInput.inputProof);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Fill signed order ${order.nonce} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-cancel-nonce --nonce 1
+ *   - npx hardhat --network sepolia task:otc-cancel-nonce --nonce 1
+ */
+task("task:otc-cancel-nonce", "Invalidates a signed order of the maker by nonce")
+    .addParam("nonce", "Order nonce to cancel")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Maker: ${signers[0].address}`);
+        console.log(`Nonce: ${taskArguments.nonce}`);
+
+        const tx = await otcContract
+            .connect(signers[0])
+            .cancelNonce(BigInt(taskArguments.nonce));
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Cancel nonce ${taskArguments.nonce} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-grant-auditor --orderid 0 --auditor 0x789...
+ *   - npx hardhat --network sepolia task:otc-grant-auditor --orderid 0 --auditor 0x789...
+ */
+task("task:otc-grant-auditor", "Lets an auditor decrypt every handle of an order (maker only)")
+    .addParam("orderid", "Order ID")
+    .addParam("auditor", "Auditor address")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        if (!ethers.isAddress(taskArguments.auditor)) {
+            throw new Error(`Argument --auditor is not a valid address`);
+        }
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Maker: ${signers[0].address}`);
+        console.log(`Order ID: ${taskArguments.orderid}`);
+        console.log(`Auditor: ${taskArguments.auditor}`);
+
+        const tx = await otcContract
+            .connect(signers[0])
+            .grantAuditor(BigInt(taskArguments.orderid), taskArguments.auditor);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Grant auditor on order ${taskArguments.orderid} succeeded!`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-default-auditor --auditor 0x789...
+ *   - npx hardhat --network localhost task:otc-default-auditor --auditor 0x0000000000000000000000000000000000000000
+ *   - npx hardhat --network sepolia task:otc-default-auditor
+ */
+task("task:otc-default-auditor", "Shows or sets the auditor granted on the maker's future orders (zero address revokes)")
+    .addOptionalParam("auditor", "New default auditor address; omit to print the current one")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Maker: ${signers[0].address}`);
+        console.log(`Current default auditor: ${await otcContract.defaultAuditor(signers[0].address)}`);
+
+        if (taskArguments.auditor === undefined) {
+            return;
+        }
+        if (!ethers.isAddress(taskArguments.auditor)) {
+            throw new Error(`Argument --auditor is not a valid address`);
+        }
+
+        const tx = await otcContract
+            .connect(signers[0])
+            .setDefaultAuditor(taskArguments.auditor);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(
+            taskArguments.auditor === ethers.ZeroAddress
+                ? `Default auditor revoked for future orders`
+                : `Default auditor set to ${taskArguments.auditor} for future orders`
+        );
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-set-fee --tokenin 0x123... --tokenout 0x456... --bps 30
+ *   - npx hardhat --network sepolia task:otc-set-fee --tokenin 0x123... --tokenout 0x456... --bps 30
+ */
+task("task:otc-set-fee", "Sets the basis-point fee charged on a token pair (fee manager only)")
+    .addParam("tokenin", "Token In contract address")
+    .addParam("tokenout", "Token Out contract address")
+    .addParam("bps", "Fee in basis points of the amountOut received by takers (max 1000)")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const bps = parseInt(taskArguments.bps);
+        if (!Number.isInteger(bps) || bps < 0 || bps > 1000) {
+            throw new Error(`Argument --bps must be an integer between 0 and 1000`);
+        }
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        const feeManagerRole = await otcContract.FEE_MANAGER_ROLE();
+        const feeManager = signers[0];
+        if (!(await otcContract.hasRole(feeManagerRole, feeManager.address))) {
+            throw new Error(`${feeManager.address} does not have FEE_MANAGER_ROLE`);
+        }
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Pair: ${taskArguments.tokenin} -> ${taskArguments.tokenout}`);
+        console.log(`Fee: ${await otcContract.pairFeeBps(taskArguments.tokenin, taskArguments.tokenout)} -> ${bps} bps`);
+
+        const tx = await otcContract
+            .connect(feeManager)
+            .setPairFee(taskArguments.tokenin, taskArguments.tokenout, bps);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`Set fee succeeded! Orders created from now on use ${bps} bps`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-fees --token 0x456...
+ *   - npx hardhat --network sepolia task:otc-fees --token 0x456... --withdraw true
+ */
+task("task:otc-fees", "Shows (and optionally withdraws) the fees accrued in a token")
+    .addParam("token", "Token address")
+    .addOptionalParam("withdraw", "Whether to withdraw the accrued fees (fee recipient only)", "false")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers, fhevm } = hre;
+
+        await fhevm.initializeCLIApi();
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        const feeRecipient = await otcContract.feeRecipient();
+        const accrued = await otcContract.accruedFees(taskArguments.token);
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Fee Recipient: ${feeRecipient}`);
+        console.log(`Token: ${taskArguments.token}`);
+        console.log(`Accrued fees (handle): ${accrued}`);
+
+        const recipientSigner = signers.find(s => s.address === feeRecipient);
+        if (!recipientSigner) {
+            console.log(`Fee recipient is not one of the configured accounts, cannot decrypt`);
+            return;
+        }
+
+        if (accrued !== ethers.ZeroHash) {
+            const clearAccrued = await fhevm.userDecryptEuint(
+                FhevmType.euint64,
+                accrued,
+                await otcContract.getAddress(),
+                recipientSigner,
+            );
+            const decimals = await tokenDecimals(hre, taskArguments.token);
+            console.log(`Accrued fees (clear): ${formatAmount(clearAccrued, decimals)} (${clearAccrued} base units)`);
+        }
+
+        if (taskArguments.withdraw === "true") {
+            const tx = await otcContract
+                .connect(recipientSigner)
+                .withdrawFees(taskArguments.token);
+            console.log(`Wait for tx:${tx.hash}...`);
+
+            const receipt = await tx.wait();
+            console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+            console.log(`Withdraw fees succeeded!`);
+        }
+    });
+
+// --role values accepted by task:otc-grant-role, mapped to the escrow's role getters
+const OTC_ROLES = {
+    admin: "DEFAULT_ADMIN_ROLE",
+    gateway: "GATEWAY_ROLE",
+    pauser: "PAUSER_ROLE",
+    feemanager: "FEE_MANAGER_ROLE",
+} as const;
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-grant-role --role pauser --account 0x789...
+ *   - npx hardhat --network sepolia task:otc-grant-role --role gateway --account 0x789... --revoke true
+ */
+task("task:otc-grant-role", "Grants (or revokes) an escrow role (admin only)")
+    .addParam("role", `Role: ${Object.keys(OTC_ROLES).join(" | ")}`)
+    .addParam("account", "Account to grant the role to")
+    .addOptionalParam("revoke", "Whether to revoke the role instead", "false")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const roleName = OTC_ROLES[taskArguments.role as keyof typeof OTC_ROLES];
+        if (!roleName) {
+            throw new Error(`Argument --role must be one of ${Object.keys(OTC_ROLES).join(", ")}`);
+        }
+        if (!ethers.isAddress(taskArguments.account)) {
+            throw new Error(`Argument --account must be an address`);
+        }
+        const revoke = taskArguments.revoke === "true";
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+        const role = await otcContract[roleName]();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Role: ${roleName} (${role})`);
+        console.log(`Account: ${taskArguments.account}`);
+
+        const tx = revoke
+            ? await otcContract.connect(signers[0]).revokeRole(role, taskArguments.account)
+            : await otcContract.connect(signers[0]).grantRole(role, taskArguments.account);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`${revoke ? "Revoke" : "Grant"} role succeeded! hasRole=${await otcContract.hasRole(role, taskArguments.account)}`);
+    });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:otc-pause
+ *   - npx hardhat --network sepolia task:otc-pause --unpause true
+ */
+task("task:otc-pause", "Pauses (or unpauses) order creation, fills, amends and cancels (pauser only)")
+    .addOptionalParam("unpause", "Whether to unpause instead", "false")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+        const { ethers } = hre;
+
+        const unpause = taskArguments.unpause === "true";
+
+        const otcContract = await ethers.getContractAt("ConfidentialOtcEscrowWithOZ", await hre.deployments.get("ConfidentialOtcEscrowWithOZ").then(d => d.address));
+        const signers = await ethers.getSigners();
+
+        console.log(`OTC Contract: ${await otcContract.getAddress()}`);
+        console.log(`Paused: ${await otcContract.paused()}`);
+
+        const tx = unpause
+            ? await otcContract.connect(signers[0]).unpause()
+            : await otcContract.connect(signers[0]).pause();
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+        console.log(`${unpause ? "Unpause" : "Pause"} succeeded! Paused: ${await otcContract.paused()}`);
+    });
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:otc-gateway-info
@@ -323,4 +1182,5 @@ task("task:otc-gateway-info", "Gets OTC contract gateway information").setAction
 
     console.log(`OTC Contract: ${await otcContract.getAddress()}`);
     console.log(`Gateway: ${await otcContract.gateway()}`);
+    console.log(`Paused: ${await otcContract.paused()}`);
 });
@@ -1,6 +1,7 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
+import { formatAmount, parseAmountArg } from "../src/amounts";
 
 /**
  * Tutorial: Deploy and Interact with ConfidentialToken Locally (--network localhost)
@@ -36,6 +37,7 @@ import type { TaskArguments } from "hardhat/types";
  *   npx hardhat --network sepolia task:token-transfer --address <token-address> --from <from> --to <to> --amount 50
  *   npx hardhat --network sepolia task:token-set-operator --address <token-address> --owner <owner> --operator <operator>
  *
+ * Amounts are given in whole tokens (e.g. 1.5) and converted to base units with the token's decimals.
  */
 
 /**
@@ -83,7 +85,7 @@ task("task:token-balance", "Gets the encrypted balance of a token holder")
         console.log(`Token: ${taskArguments.address}`);
         console.log(`Holder: ${holder}`);
 
-        const encryptedBalance = await tokenContract.balanceOf(holder);
+        const encryptedBalance = await tokenContract.confidentialBalanceOf(holder);
         if (encryptedBalance === ethers.ZeroHash) {
             console.log(`Encrypted balance: ${encryptedBalance}`);
             console.log("Clear balance    : 0");
@@ -97,7 +99,8 @@ task("task:token-balance", "Gets the encrypted balance of a token holder")
             signers[0],
         );
         console.log(`Encrypted balance: ${encryptedBalance}`);
-        console.log(`Clear balance    : ${clearBalance}`);
+        const decimals = Number(await tokenContract.decimals());
+        console.log(`Clear balance    : ${formatAmount(clearBalance, decimals)} (${clearBalance} base units)`);
     });
 
 /**
@@ -108,28 +111,24 @@ task("task:token-balance", "Gets the encrypted balance of a token holder")
 task("task:token-mint", "Mints tokens to a recipient")
     .addParam("address", "Token contract address")
     .addParam("to", "Recipient address")
-    .addParam("amount", "Amount to mint")
+    .addParam("amount", "Amount to mint, in tokens (e.g. 1.5)")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers, fhevm } = hre;
 
-        const amount = parseInt(taskArguments.amount);
-        if (!Number.isInteger(amount) || amount <= 0) {
-            throw new Error(`Argument --amount must be a positive integer`);
-        }
-
-        await fhevm.initializeCLIApi();
-
         const tokenContract = await ethers.getContractAt("ConfidentialTokenExample", taskArguments.address);
         const signers = await ethers.getSigners();
+        const amount = parseAmountArg("amount", taskArguments.amount, Number(await tokenContract.decimals()));
+
+        await fhevm.initializeCLIApi();
 
         console.log(`Token: ${taskArguments.address}`);
         console.log(`Recipient: ${taskArguments.to}`);
-        console.log(`Amount: ${amount}`);
+        console.log(`Amount: ${taskArguments.amount} (${amount} base units)`);
 
         // Encrypt the amount
         const encryptedAmount = await fhevm
             .createEncryptedInput(taskArguments.address, signers[0].address)
-            .add64(BigInt(amount))
+            .add64(amount)
             .encrypt();
 
         const tx = await tokenContract
@@ -140,7 +139,7 @@ task("task:token-mint", "Mints tokens to a recipient")
         const receipt = await tx.wait();
         console.log(`tx:${tx.hash} status=${receipt?.status}`);
 
-        console.log(`Mint ${amount} tokens to ${taskArguments.to} succeeded!`);
+        console.log(`Mint ${taskArguments.amount} tokens to ${taskArguments.to} succeeded!`);
     });
 
 /**
@@ -152,29 +151,25 @@ task("task:token-transfer", "Transfers tokens from one address to another")
     .addParam("address", "Token contract address")
     .addParam("from", "Sender address")
     .addParam("to", "Recipient address")
-    .addParam("amount", "Amount to transfer")
+    .addParam("amount", "Amount to transfer, in tokens (e.g. 1.5)")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers, fhevm } = hre;
 
-        const amount = parseInt(taskArguments.amount);
-        if (!Number.isInteger(amount) || amount <= 0) {
-            throw new Error(`Argument --amount must be a positive integer`);
-        }
-
-        await fhevm.initializeCLIApi();
-
         const tokenContract = await ethers.getContractAt("ConfidentialTokenExample", taskArguments.address);
         const signers = await ethers.getSigners();
+        const amount = parseAmountArg("amount", taskArguments.amount, Number(await tokenContract.decimals()));
+
+        await fhevm.initializeCLIApi();
 
         console.log(`Token: ${taskArguments.address}`);
         console.log(`From: ${taskArguments.from}`);
         console.log(`To: ${taskArguments.to}`);
-        console.log(`Amount: ${amount}`);
+        console.log(`Amount: ${taskArguments.amount} (${amount} base units)`);
 
         // Encrypt the amount
         const encryptedAmount = await fhevm
             .createEncryptedInput(taskArguments.address, signers[0].address)
-            .add64(BigInt(amount))
+            .add64(amount)
             .encrypt();
 
         const tx = await tokenContract
@@ -190,23 +185,30 @@ task("task:token-transfer", "Transfers tokens from one address to another")
         const receipt = await tx.wait();
         console.log(`tx:${tx.hash} status=${receipt?.status}`);
 
-        console.log(`Transfer ${amount} tokens from ${taskArguments.from} to ${taskArguments.to} succeeded!`);
+        console.log(`Transfer ${taskArguments.amount} tokens from ${taskArguments.from} to ${taskArguments.to} succeeded!`);
     });
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:token-set-operator --address 0x123... --owner 0x456... --operator 0x789...
- *   - npx hardhat --network sepolia task:token-set-operator --address 0x123... --owner 0x456... --operator 0x789...
+ *   - npx hardhat --network localhost task:token-set-operator --address 0x123... --owner 0x456... --operator 0x789... --until 1759332928
+ *   - npx hardhat --network sepolia task:token-set-operator --address 0x123... --owner 0x456... --operator 0x789... --approved false
  */
 task("task:token-set-operator", "Sets an operator for a token holder")
     .addParam("address", "Token contract address")
     .addParam("owner", "Token holder address")
     .addParam("operator", "Operator address")
     .addOptionalParam("approved", "Whether to approve (true) or revoke (false) the operator", "true")
+    .addOptionalParam("until", "Unix seconds the approval lasts until (defaults to 24 hours from now)")
     .setAction(async function (taskArguments: TaskArguments, hre) {
         const { ethers } = hre;
 
         const approved = taskArguments.approved === "true";
+        // Operators are approved until a timestamp; 0 revokes
+        const until = !approved ? 0 : taskArguments.until !== undefined ? parseInt(taskArguments.until) : Math.floor(Date.now() / 1000) + 86400;
+        if (!Number.isInteger(until) || until < 0) {
+            throw new Error(`Argument --until must be a unix timestamp`);
+        }
 
         const tokenContract = await ethers.getContractAt("ConfidentialTokenExample", taskArguments.address);
         const signers = await ethers.getSigners();
@@ -214,7 +216,7 @@ task("task:token-set-operator", "Sets an operator for a token holder")
         console.log(`Token: ${taskArguments.address}`);
         console.log(`Owner: ${taskArguments.owner}`);
         console.log(`Operator: ${taskArguments.operator}`);
-        console.log(`Approved: ${approved}`);
+        console.log(`Approved: ${approved}${approved ? ` (until ${new Date(until * 1000).toISOString()})` : ""}`);
 
         // Find the signer that matches the owner address
         const ownerSigner = signers.find(signer => signer.address.toLowerCase() === taskArguments.owner.toLowerCase());
@@ -224,7 +226,7 @@ task("task:token-set-operator", "Sets an operator for a token holder")
 
         const tx = await tokenContract
             .connect(ownerSigner)
-            .setOperator(taskArguments.operator, approved);
+            .setOperator(taskArguments.operator, until);
         console.log(`Wait for tx:${tx.hash}...`);
 
         const receipt = await tx.wait();
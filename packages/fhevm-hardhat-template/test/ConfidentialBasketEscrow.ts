@@ -0,0 +1,322 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import {
+    ConfidentialBasketEscrow,
+    ConfidentialBasketEscrow__factory,
+    ConfidentialOtcEscrowWithOZ,
+    ConfidentialOtcEscrowWithOZ__factory,
+    ConfidentialTokenExample,
+    ConfidentialTokenExample__factory,
+} from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+    deployer: HardhatEthersSigner;
+    alice: HardhatEthersSigner;
+    bob: HardhatEthersSigner;
+};
+
+type Token = {
+    contract: ConfidentialTokenExample;
+    address: string;
+};
+
+async function deployFixture() {
+    const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenExample")) as ConfidentialTokenExample__factory;
+    const deployToken = async (name: string, symbol: string): Promise<Token> => {
+        const contract = (await tokenFactory.deploy(1000, name, symbol, "https://example.com/" + symbol)) as ConfidentialTokenExample;
+        return { contract, address: await contract.getAddress() };
+    };
+
+    // bob pays tokenA + tokenB for alice's tokenC
+    const tokenA = await deployToken("Token A", "TKA");
+    const tokenB = await deployToken("Token B", "TKB");
+    const tokenC = await deployToken("Token C", "TKC");
+
+    // The deployer is the escrow's gateway, fee recipient, pauser and fee manager
+    const [deployer] = await ethers.getSigners();
+    const escrowFactory = (await ethers.getContractFactory("ConfidentialOtcEscrowWithOZ")) as ConfidentialOtcEscrowWithOZ__factory;
+    const escrowContract = (await escrowFactory.deploy(deployer.address)) as ConfidentialOtcEscrowWithOZ;
+
+    const basketFactory = (await ethers.getContractFactory("ConfidentialBasketEscrow")) as ConfidentialBasketEscrow__factory;
+    const basketContract = (await basketFactory.deploy(await escrowContract.getAddress())) as ConfidentialBasketEscrow;
+    const basketAddress = await basketContract.getAddress();
+
+    return { escrowContract, basketContract, basketAddress, tokenA, tokenB, tokenC };
+}
+
+// Moves `amount` of `from`'s confidential balance to `to`
+async function transferTokens(token: Token, from: HardhatEthersSigner, to: string, amount: number) {
+    const encryptedAmount = await fhevm
+        .createEncryptedInput(token.address, from.address)
+        .add64(BigInt(amount))
+        .encrypt();
+
+    const tx = await token.contract
+        .connect(from)
+        ["confidentialTransfer(address,bytes32,bytes)"](to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    await tx.wait();
+}
+
+// Decrypts `holder`'s confidential balance (an account that never held the token has balance 0)
+async function decryptBalance(token: Token, holder: HardhatEthersSigner) {
+    const encryptedBalance = await token.contract.confidentialBalanceOf(holder.address);
+    if (encryptedBalance === ethers.ZeroHash) {
+        return 0n;
+    }
+
+    return fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, token.address, holder);
+}
+
+describe("ConfidentialBasketEscrow", function () {
+    const makerBalance = 500;
+    const takerBalance = 300;
+    const amountA = 100;
+    const amountB = 50;
+    const amountC = 200;
+
+    let signers: Signers;
+    let escrowContract: ConfidentialOtcEscrowWithOZ;
+    let basketContract: ConfidentialBasketEscrow;
+    let basketAddress: string;
+    let tokenA: Token;
+    let tokenB: Token;
+    let tokenC: Token;
+
+    before(async function () {
+        const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+        signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    });
+
+    beforeEach(async function () {
+        // Check whether the tests are running against an FHEVM mock environment
+        if (!fhevm.isMock) {
+            console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+            this.skip();
+        }
+
+        ({ escrowContract, basketContract, basketAddress, tokenA, tokenB, tokenC } = await deployFixture());
+
+        await transferTokens(tokenC, signers.deployer, signers.alice.address, makerBalance);
+        await transferTokens(tokenA, signers.deployer, signers.bob.address, takerBalance);
+        await transferTokens(tokenB, signers.deployer, signers.bob.address, takerBalance);
+
+        // The basket escrow pulls alice's tokenC leg on creation and bob's payments on fill
+        const until = (await time.latest()) + 3600;
+        await tokenC.contract.connect(signers.alice).setOperator(basketAddress, until);
+        await tokenA.contract.connect(signers.bob).setOperator(basketAddress, until);
+        await tokenB.contract.connect(signers.bob).setOperator(basketAddress, until);
+    });
+
+    // alice asks amountA of tokenA + amountB of tokenB for amountC of tokenC
+    async function createBasket(
+        { out = amountC, taker = ethers.ZeroAddress }: { out?: number; taker?: string } = {},
+    ) {
+        const input = await fhevm
+            .createEncryptedInput(basketAddress, signers.alice.address)
+            .add64(BigInt(amountA))
+            .add64(BigInt(amountB))
+            .add64(BigInt(out))
+            .addAddress(taker)
+            .encrypt();
+
+        return basketContract
+            .connect(signers.alice)
+            .createBasketOrder(
+                [tokenA.address, tokenB.address],
+                [input.handles[0], input.handles[1]],
+                [tokenC.address],
+                [input.handles[2]],
+                input.handles[3],
+                input.inputProof,
+                (await time.latest()) + 3600
+            );
+    }
+
+    async function fillBasket(id: number, pays: number[], taker: HardhatEthersSigner = signers.bob) {
+        const input = fhevm.createEncryptedInput(basketAddress, taker.address);
+        pays.forEach((pay) => input.add64(BigInt(pay)));
+        const enc = await input.encrypt();
+
+        return basketContract.connect(taker).fillBasketOrder(id, enc.handles, enc.inputProof);
+    }
+
+    async function decryptFilled(id: number, fillIndex: number, viewer: HardhatEthersSigner) {
+        const fill = (await basketContract.getBasketFills(id))[fillIndex];
+        return fhevm.userDecryptEbool(fill.filledEnc, basketAddress, viewer);
+    }
+
+    it("should escrow every tokenOut leg on creation", async function () {
+        await expect(createBasket())
+            .to.emit(basketContract, "BasketOrderCreated")
+            .withArgs(0, signers.alice.address, [tokenA.address, tokenB.address], [tokenC.address], anyValue);
+
+        const basket = await basketContract.basketOrder(0);
+        expect(basket.legsIn.map((leg) => leg.token)).to.deep.equal([tokenA.address, tokenB.address]);
+        expect(await decryptBalance(tokenC, signers.alice)).to.equal(makerBalance - amountC);
+        expect(
+            await fhevm.userDecryptEuint(FhevmType.euint64, basket.remainingOut[0], basketAddress, signers.alice)
+        ).to.equal(amountC);
+        expect(await fhevm.userDecryptEbool(basket.openEnc, basketAddress, signers.alice)).to.be.true;
+    });
+
+    it("should swap every leg in a single fill", async function () {
+        await (await createBasket()).wait();
+
+        await expect(fillBasket(0, [amountA, amountB]))
+            .to.emit(basketContract, "BasketFilled")
+            .withArgs(0, signers.bob.address, 0);
+
+        expect(await decryptFilled(0, 0, signers.bob)).to.be.true;
+        expect(await decryptBalance(tokenA, signers.alice)).to.equal(amountA);
+        expect(await decryptBalance(tokenB, signers.alice)).to.equal(amountB);
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance - amountA);
+        expect(await decryptBalance(tokenB, signers.bob)).to.equal(takerBalance - amountB);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(amountC);
+    });
+
+    it("should return the overpayment of a leg to the taker", async function () {
+        await (await createBasket()).wait();
+        await (await fillBasket(0, [amountA + 10, amountB])).wait();
+
+        expect(await decryptBalance(tokenA, signers.alice)).to.equal(amountA);
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance - amountA);
+    });
+
+    it("should refund every leg when one payment falls short", async function () {
+        await (await createBasket()).wait();
+        await (await fillBasket(0, [amountA, amountB - 1])).wait();
+
+        expect(await decryptFilled(0, 0, signers.alice)).to.be.false;
+        expect(await decryptBalance(tokenA, signers.alice)).to.equal(0);
+        expect(await decryptBalance(tokenB, signers.alice)).to.equal(0);
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance);
+        expect(await decryptBalance(tokenB, signers.bob)).to.equal(takerBalance);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(0);
+
+        // The basket stays open for a full payment
+        await (await fillBasket(0, [amountA, amountB])).wait();
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(amountC);
+    });
+
+    it("should refund a second fill once the basket was taken", async function () {
+        await (await createBasket()).wait();
+        await (await fillBasket(0, [amountA, amountB])).wait();
+        await (await fillBasket(0, [amountA, amountB])).wait();
+
+        expect(await decryptFilled(0, 1, signers.bob)).to.be.false;
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance - amountA);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(amountC);
+    });
+
+    it("should never fill a basket the maker could not fund", async function () {
+        await (await createBasket({ out: makerBalance + 1 })).wait();
+
+        const basket = await basketContract.basketOrder(0);
+        expect(await fhevm.userDecryptEbool(basket.openEnc, basketAddress, signers.alice)).to.be.false;
+
+        await (await fillBasket(0, [amountA, amountB])).wait();
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(0);
+    });
+
+    it("should refund a fill from a taker outside the allowlist", async function () {
+        await (await createBasket({ taker: signers.deployer.address })).wait();
+        await (await fillBasket(0, [amountA, amountB])).wait();
+
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(0);
+    });
+
+    it("should revert a fill that does not pay every leg", async function () {
+        await (await createBasket()).wait();
+
+        await expect(fillBasket(0, [amountA])).to.be.revertedWith("length mismatch");
+    });
+
+    it("should revert the whole fill when one leg's transfer reverts", async function () {
+        await (await createBasket()).wait();
+        await tokenB.contract.connect(signers.bob).setOperator(basketAddress, 0);
+
+        await expect(fillBasket(0, [amountA, amountB])).to.be.reverted;
+        expect(await decryptBalance(tokenA, signers.bob)).to.equal(takerBalance);
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(0);
+    });
+
+    it("should reject more than MAX_LEGS legs on a side", async function () {
+        const legs = Number(await basketContract.MAX_LEGS()) + 1;
+        const input = fhevm.createEncryptedInput(basketAddress, signers.alice.address);
+        for (let i = 0; i <= legs; i++) input.add64(1n);
+        const enc = await input.addAddress(ethers.ZeroAddress).encrypt();
+
+        await expect(
+            basketContract
+                .connect(signers.alice)
+                .createBasketOrder(
+                    Array(legs).fill(tokenA.address),
+                    enc.handles.slice(0, legs),
+                    [tokenC.address],
+                    [enc.handles[legs]],
+                    enc.handles[legs + 1],
+                    enc.inputProof,
+                    (await time.latest()) + 3600
+                )
+        ).to.be.revertedWith("legs");
+    });
+
+    it("should take the highest pair fee of each tokenOut leg for the fee recipient", async function () {
+        await (await escrowContract.setPairFee(tokenA.address, tokenC.address, 100)).wait(); // 1%
+        await (await escrowContract.setPairFee(tokenB.address, tokenC.address, 50)).wait();
+        await (await createBasket()).wait();
+        await (await escrowContract.setPairFee(tokenA.address, tokenC.address, 0)).wait(); // fixed at creation
+
+        await (await fillBasket(0, [amountA, amountB])).wait();
+        expect(await decryptBalance(tokenC, signers.bob)).to.equal(amountC - 2);
+
+        const accrued = await basketContract.accruedFees(tokenC.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, accrued, basketAddress, signers.deployer)).to.equal(2);
+
+        await expect(basketContract.connect(signers.bob).withdrawFees(tokenC.address)).to.be.revertedWith("only fee recipient");
+        await expect(basketContract.connect(signers.deployer).withdrawFees(tokenC.address))
+            .to.emit(basketContract, "FeesWithdrawn")
+            .withArgs(tokenC.address, signers.deployer.address);
+    });
+
+    it("should block creating and filling baskets while the escrow is paused", async function () {
+        await (await createBasket()).wait();
+        await (await escrowContract.pause()).wait();
+
+        expect(await basketContract.isOpen(0)).to.be.false;
+        await expect(createBasket()).to.be.revertedWithCustomError(basketContract, "EnforcedPause");
+        await expect(fillBasket(0, [amountA, amountB])).to.be.revertedWithCustomError(basketContract, "EnforcedPause");
+
+        // Makers can still take their escrow back
+        await (await basketContract.connect(signers.alice).cancelBasketOrder(0)).wait();
+        expect(await decryptBalance(tokenC, signers.alice)).to.equal(makerBalance);
+    });
+
+    it("should return the escrowed legs to the maker on cancel", async function () {
+        await (await createBasket()).wait();
+
+        await expect(basketContract.connect(signers.bob).cancelBasketOrder(0)).to.be.revertedWith("only maker");
+        await expect(basketContract.connect(signers.alice).cancelBasketOrder(0))
+            .to.emit(basketContract, "BasketOrderCancelled")
+            .withArgs(0);
+
+        expect(await decryptBalance(tokenC, signers.alice)).to.equal(makerBalance);
+        expect(await basketContract.isOpen(0)).to.be.false;
+        await expect(fillBasket(0, [amountA, amountB])).to.be.revertedWith("closed");
+    });
+
+    it("should let anyone cancel an expired basket", async function () {
+        await (await createBasket()).wait();
+        await time.increase(3601);
+
+        await expect(fillBasket(0, [amountA, amountB])).to.be.revertedWith("expired");
+        await (await basketContract.connect(signers.bob).cancelBasketOrder(0)).wait();
+        expect(await decryptBalance(tokenC, signers.alice)).to.equal(makerBalance);
+    });
+});
@@ -1,4 +1,5 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
 import { ConfidentialOtcEscrowWithOZ, ConfidentialOtcEscrowWithOZ__factory, ConfidentialTokenExample, ConfidentialTokenExample__factory } from "../types";
 import { expect } from "chai";
@@ -30,8 +31,10 @@ async function deployFixture() {
     )) as ConfidentialTokenExample;
 
     // Deploy OTC escrow contract
+    // The deployer is the initial gateway (the constructor rejects the zero address); the suite rotates it afterwards
+    const [deployer] = await ethers.getSigners();
     const escrowFactory = (await ethers.getContractFactory("ConfidentialOtcEscrowWithOZ")) as ConfidentialOtcEscrowWithOZ__factory;
-    const escrowContract = (await escrowFactory.deploy(ethers.ZeroAddress)) as ConfidentialOtcEscrowWithOZ; // Using zero address as gateway for testing
+    const escrowContract = (await escrowFactory.deploy(deployer.address)) as ConfidentialOtcEscrowWithOZ;
 
     const tokenInAddress = await tokenIn.getAddress();
     const tokenOutAddress = await tokenOut.getAddress();
@@ -47,6 +50,35 @@ async function deployFixture() {
     };
 }
 
+// Moves `amount` of `from`'s confidential balance to `to`
+async function transferTokens(
+    token: ConfidentialTokenExample,
+    tokenAddress: string,
+    from: HardhatEthersSigner,
+    to: string,
+    amount: number
+) {
+    const encryptedAmount = await fhevm
+        .createEncryptedInput(tokenAddress, from.address)
+        .add64(BigInt(amount))
+        .encrypt();
+
+    const tx = await token
+        .connect(from)
+        ["confidentialTransfer(address,bytes32,bytes)"](to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    await tx.wait();
+}
+
+// Decrypts `holder`'s confidential balance (an account that never held the token has balance 0)
+async function decryptBalance(token: ConfidentialTokenExample, tokenAddress: string, holder: HardhatEthersSigner) {
+    const encryptedBalance = await token.confidentialBalanceOf(holder.address);
+    if (encryptedBalance === ethers.ZeroHash) {
+        return 0n;
+    }
+
+    return fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, tokenAddress, holder);
+}
+
 describe("ConfidentialOtcEscrowWithOZ", function () {
     let signers: Signers;
     let escrowContract: ConfidentialOtcEscrowWithOZ;
@@ -82,7 +114,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             tokenOutAddress
         } = await deployFixture());
 
-        // Set gateway for the escrow contract
+        // Set gateway for the escrow contract (the deployer is admin, pauser and fee manager)
         await escrowContract.setGateway(signers.gateway.address);
     });
 
@@ -90,11 +122,18 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
         expect(await escrowContract.gateway()).to.equal(signers.gateway.address);
     });
 
+    // Gives `maker` `amount` of tokenOut and lets the escrow pull it, as createOrder does
+    async function fundMaker(amount: number, maker: HardhatEthersSigner = signers.alice) {
+        await transferTokens(tokenOut, tokenOutAddress, signers.deployer, maker.address, amount);
+        await tokenOut.connect(maker).setOperator(escrowAddress, (await time.latest()) + 3600);
+    }
+
     it("should create an order successfully", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
+        const deadline = (await time.latest()) + 3600; // 1 hour from now
         const takerAddr = signers.bob.address;
+        await fundMaker(amountOut);
 
         // Encrypt order parameters
         const orderInput = await fhevm
@@ -114,10 +153,14 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1], // amountOut
                 orderInput.handles[2], // takerAddr
                 orderInput.inputProof,
-                deadline,
-                false // doTransferOut
+                deadline
             );
-        await tx.wait();
+        const receipt = await tx.wait();
+        const block = await ethers.provider.getBlock(receipt!.blockNumber);
+
+        await expect(tx)
+            .to.emit(escrowContract, "OrderCreated")
+            .withArgs(0, signers.alice.address, tokenInAddress, tokenOutAddress, deadline, block!.timestamp, block!.number);
 
         // Check order was created
         const order = await escrowContract.orders(0);
@@ -125,14 +168,21 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
         expect(order.tokenIn).to.equal(tokenInAddress);
         expect(order.tokenOut).to.equal(tokenOutAddress);
         expect(order.deadline).to.equal(deadline);
-        expect(order.filled).to.be.false;
+        expect(order.settledFills).to.equal(0);
         expect(order.cancelled).to.be.false;
+        expect(order.createdAt).to.equal(block!.timestamp);
+        expect(order.createdBlock).to.equal(block!.number);
+
+        // The maker can decrypt their own terms
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.amountInEnc, escrowAddress, signers.alice)).to.equal(amountIn);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.amountOutEnc, escrowAddress, signers.alice)).to.equal(amountOut);
+        expect(await fhevm.userDecryptEaddress(order.takerEnc, escrowAddress, signers.alice)).to.equal(takerAddr);
     });
 
-    it("should create an order with doTransferOut=true", async function () {
+    it("should escrow the declared amountOut on createOrder", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
 
         // First, mint tokens to alice
@@ -149,7 +199,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
         // Set escrow as operator for alice's tokenOut
         await tokenOut
             .connect(signers.alice)
-            .setOperator(escrowAddress, true);
+            .setOperator(escrowAddress, deadline);
 
         // Encrypt order parameters
         const orderInput = await fhevm
@@ -159,7 +209,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             .addAddress(takerAddr)
             .encrypt();
 
-        // Create order with doTransferOut=true
+        // Create order; the escrow pulls amountOut from alice
         const tx = await escrowContract
             .connect(signers.alice)
             .createOrder(
@@ -169,8 +219,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1], // amountOut
                 orderInput.handles[2], // takerAddr
                 orderInput.inputProof,
-                deadline,
-                true // doTransferOut
+                deadline
             );
         await tx.wait();
 
@@ -180,16 +229,58 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
         expect(order.tokenIn).to.equal(tokenInAddress);
         expect(order.tokenOut).to.equal(tokenOutAddress);
         expect(order.deadline).to.equal(deadline);
-        expect(order.filled).to.be.false;
+        expect(order.settledFills).to.equal(0);
         expect(order.cancelled).to.be.false;
+
+        // The escrow pulled the declared amountOut handle itself: the same proof covers terms and escrow
+        expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(BigInt(mintAmount - amountOut));
+        expect(
+            await fhevm.userDecryptEuint(FhevmType.euint64, order.remainingOutEnc, escrowAddress, signers.alice)
+        ).to.equal(BigInt(amountOut));
+    });
+
+    it("should escrow nothing when the maker's balance is too low", async function () {
+        const deadline = (await time.latest()) + 3600;
+
+        // alice holds 50 (an account that never held the token cannot send at all)
+        await transferTokens(tokenOut, tokenOutAddress, signers.deployer, signers.alice.address, 50);
+        await tokenOut.connect(signers.alice).setOperator(escrowAddress, deadline);
+        const orderInput = await fhevm
+            .createEncryptedInput(escrowAddress, signers.alice.address)
+            .add64(100n)
+            .add64(200n)
+            .addAddress(ethers.ZeroAddress)
+            .encrypt();
+
+        await (
+            await escrowContract
+                .connect(signers.alice)
+                .createOrder(
+                    tokenInAddress,
+                    tokenOutAddress,
+                    orderInput.handles[0],
+                    orderInput.handles[1],
+                    orderInput.handles[2],
+                    orderInput.inputProof,
+                    deadline
+                )
+        ).wait();
+
+        // The declared size stays visible to the maker, but no fill can take from an empty escrow
+        const order = await escrowContract.orders(0);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.amountOutEnc, escrowAddress, signers.alice)).to.equal(200n);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.remainingOutEnc, escrowAddress, signers.alice)).to.equal(0n);
+        expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(50n);
     });
 
     it("should allow maker to cancel order", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
 
+        await fundMaker(amountOut);
+
         // Create order
         const orderInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.alice.address)
@@ -207,8 +298,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
         // Cancel order
@@ -225,8 +315,9 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
     it("should allow taker to fill order", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
+        await fundMaker(amountOut);
 
         // Create order
         const orderInput = await fhevm
@@ -245,15 +336,17 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
-        // Fill order
+        // Fill order: the escrow pulls the payment from the taker
         const takerPayAmount = 100;
+        await transferTokens(tokenIn, tokenInAddress, signers.deployer, takerAddr, takerPayAmount);
+        await tokenIn.connect(signers.bob).setOperator(escrowAddress, deadline);
         const takerPayInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.bob.address)
             .add64(BigInt(takerPayAmount))
+            .add64(BigInt(amountOut))
             .encrypt();
 
         const tx = await escrowContract
@@ -261,22 +354,27 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             .fillOrder(
                 0,
                 takerPayInput.handles[0],
-                takerPayInput.inputProof,
-                false // doTransferIn
+                takerPayInput.handles[1],
+                takerPayInput.inputProof
             );
-        await tx.wait();
+        await expect(tx).to.emit(escrowContract, "FillRequested").withArgs(0, takerAddr, 0);
 
-        // Check order has taker payment recorded
-        const order = await escrowContract.orders(0);
-        expect(order.takerPayEnc).to.not.equal(ethers.ZeroHash);
+        // Check a pending fill was recorded for the taker
+        const fills = await escrowContract.getFills(0);
+        expect(fills.length).to.equal(1);
+        expect(fills[0].taker).to.equal(takerAddr);
+        expect(fills[0].settled).to.be.false;
+        expect(fills[0].payEnc).to.not.equal(ethers.ZeroHash);
     });
 
     it("should allow gateway to finalize fill", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
 
+        await fundMaker(amountOut);
+
         // Create order
         const orderInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.alice.address)
@@ -294,15 +392,17 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
-        // Fill order
+        // Fill order: the escrow pulls the payment from the taker
         const takerPayAmount = 100;
+        await transferTokens(tokenIn, tokenInAddress, signers.deployer, takerAddr, takerPayAmount);
+        await tokenIn.connect(signers.bob).setOperator(escrowAddress, deadline);
         const takerPayInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.bob.address)
             .add64(BigInt(takerPayAmount))
+            .add64(BigInt(amountOut))
             .encrypt();
 
         await escrowContract
@@ -310,8 +410,8 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             .fillOrder(
                 0,
                 takerPayInput.handles[0],
-                takerPayInput.inputProof,
-                false
+                takerPayInput.handles[1],
+                takerPayInput.inputProof
             );
 
         // Finalize fill
@@ -320,17 +420,24 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             .finalizeFill(0, signers.bob.address);
         await tx.wait();
 
-        // Check order is filled
+        // Check the fill is settled and the order stays open for further fills
         const order = await escrowContract.orders(0);
-        expect(order.filled).to.be.true;
+        await expect(tx)
+            .to.emit(escrowContract, "OrderFinalized")
+            .withArgs(0, signers.bob.address, 0, order.createdAt, order.createdBlock);
+        expect(order.settledFills).to.equal(1);
+        expect((await escrowContract.getFills(0))[0].settled).to.be.true;
+        expect(await escrowContract.isOpen(0)).to.be.true;
     });
 
     it("should check if order is open", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
 
+        await fundMaker(amountOut);
+
         // Create order
         const orderInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.alice.address)
@@ -348,8 +455,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
         // Check order is open
@@ -367,8 +473,9 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
     it("should revert when non-maker tries to cancel order", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
+        await fundMaker(amountOut);
 
         // Create order
         const orderInput = await fhevm
@@ -387,8 +494,7 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
         // Try to cancel order as non-maker
@@ -402,8 +508,9 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
     it("should revert when non-gateway tries to finalize fill", async function () {
         const amountIn = 100;
         const amountOut = 200;
-        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        const deadline = (await time.latest()) + 3600;
         const takerAddr = signers.bob.address;
+        await fundMaker(amountOut);
 
         // Create order
         const orderInput = await fhevm
@@ -422,15 +529,17 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 orderInput.handles[1],
                 orderInput.handles[2],
                 orderInput.inputProof,
-                deadline,
-                false
+                deadline
             );
 
-        // Fill order
+        // Fill order: the escrow pulls the payment from the taker
         const takerPayAmount = 100;
+        await transferTokens(tokenIn, tokenInAddress, signers.deployer, takerAddr, takerPayAmount);
+        await tokenIn.connect(signers.bob).setOperator(escrowAddress, deadline);
         const takerPayInput = await fhevm
             .createEncryptedInput(escrowAddress, signers.bob.address)
             .add64(BigInt(takerPayAmount))
+            .add64(BigInt(amountOut))
             .encrypt();
 
         await escrowContract
@@ -438,8 +547,8 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
             .fillOrder(
                 0,
                 takerPayInput.handles[0],
-                takerPayInput.inputProof,
-                false
+                takerPayInput.handles[1],
+                takerPayInput.inputProof
             );
 
         // Try to finalize fill as non-gateway
@@ -449,4 +558,1120 @@ describe("ConfidentialOtcEscrowWithOZ", function () {
                 .finalizeFill(0, signers.bob.address)
         ).to.be.revertedWith("only gateway");
     });
+
+    // Funds alice (maker) with tokenOut, escrows amountOut and creates order #0, restricted to `taker` unless zero
+    async function createFundedOrder(
+        makerBalance: number,
+        amountIn: number,
+        amountOut: number,
+        deadline: number,
+        taker: string = ethers.ZeroAddress
+    ) {
+        await fundMaker(makerBalance);
+
+        const orderInput = await fhevm
+            .createEncryptedInput(escrowAddress, signers.alice.address)
+            .add64(BigInt(amountIn))
+            .add64(BigInt(amountOut))
+            .addAddress(taker)
+            .encrypt();
+
+        const tx = await escrowContract
+            .connect(signers.alice)
+            .createOrder(
+                tokenInAddress,
+                tokenOutAddress,
+                orderInput.handles[0],
+                orderInput.handles[1],
+                orderInput.handles[2],
+                orderInput.inputProof,
+                deadline
+            );
+        await tx.wait();
+    }
+
+    // Requests a fill of order #0 as `taker`, pulling the payment into escrow
+    async function fillAs(taker: HardhatEthersSigner, takerPay: number, takerReceive: number) {
+        const fillInput = await fhevm
+            .createEncryptedInput(escrowAddress, taker.address)
+            .add64(BigInt(takerPay))
+            .add64(BigInt(takerReceive))
+            .encrypt();
+
+        const tx = await escrowContract
+            .connect(taker)
+            .fillOrder(0, fillInput.handles[0], fillInput.handles[1], fillInput.inputProof);
+        await tx.wait();
+        return tx;
+    }
+
+    async function finalize(taker: HardhatEthersSigner) {
+        const tx = await escrowContract
+            .connect(signers.gateway)
+            .finalizeFill(0, taker.address);
+        await tx.wait();
+    }
+
+    // Decrypts what a settled fill of order #0 paid and received, as one of its counterparties
+    async function decryptFill(index: number, holder: HardhatEthersSigner) {
+        const fill = (await escrowContract.getFills(0))[index];
+        return {
+            paid: await fhevm.userDecryptEuint(FhevmType.euint64, fill.payEnc, escrowAddress, holder),
+            received: await fhevm.userDecryptEuint(FhevmType.euint64, fill.receivedEnc, escrowAddress, holder),
+        };
+    }
+
+    describe("on-chain settlement", function () {
+        const makerBalance = 500;
+        const takerBalance = 500;
+        const amountIn = 100;
+        const amountOut = 200;
+
+        beforeEach(async function () {
+            await createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, takerBalance);
+
+            // Taker lets the escrow pull the payment
+            await tokenIn
+                .connect(signers.bob)
+                .setOperator(escrowAddress, (await time.latest()) + 3600);
+        });
+
+        async function fillAsBob(takerPay: number, takerReceive: number = amountOut) {
+            await fillAs(signers.bob, takerPay, takerReceive);
+        }
+
+
+        it("should pull the taker payment into escrow on fillOrder", async function () {
+            await fillAsBob(amountIn);
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance - amountIn);
+        });
+
+        it("should let each side decrypt what it has locked in escrow", async function () {
+            await fillAsBob(amountIn / 2, amountOut / 2);
+
+            const pending = (await escrowContract.getFills(0))[0];
+            expect(
+                await fhevm.userDecryptEuint(FhevmType.euint64, pending.payEnc, escrowAddress, signers.bob)
+            ).to.equal(amountIn / 2);
+
+            await finalize(signers.bob);
+            const order = await escrowContract.orders(0);
+            expect(
+                await fhevm.userDecryptEuint(FhevmType.euint64, order.remainingOutEnc, escrowAddress, signers.alice)
+            ).to.equal(amountOut / 2);
+        });
+
+        it("should swap both legs when the payment matches amountIn", async function () {
+            await fillAsBob(amountIn);
+            await finalize(signers.bob);
+
+            expect((await escrowContract.orders(0)).settledFills).to.equal(1);
+            expect(await decryptFill(0, signers.alice)).to.deep.equal({ paid: BigInt(amountIn), received: BigInt(amountOut) });
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(amountIn);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance - amountOut);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance - amountIn);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+        });
+
+        it("should refund the taker when the payment is below the pro-rata price", async function () {
+            await fillAsBob(amountIn - 1);
+            await finalize(signers.bob);
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(0);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(0);
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: 0n, received: 0n });
+
+            // The rejected fill leaves the whole amountOut available; cancelling returns it to the maker
+            await escrowContract.connect(signers.alice).cancelOrder(0);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+        });
+
+        it("should settle partial fills pro-rata across takers", async function () {
+            await tokenIn
+                .connect(signers.deployer)
+                .setOperator(escrowAddress, (await time.latest()) + 3600);
+
+            // bob takes a quarter, deployer takes the rest
+            await fillAs(signers.bob, amountIn / 4, amountOut / 4);
+            await fillAs(signers.deployer, (amountIn * 3) / 4, (amountOut * 3) / 4);
+            await finalize(signers.bob);
+            await finalize(signers.deployer);
+
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: BigInt(amountIn / 4), received: BigInt(amountOut / 4) });
+            expect(await decryptFill(1, signers.alice)).to.deep.equal({
+                paid: BigInt((amountIn * 3) / 4),
+                received: BigInt((amountOut * 3) / 4),
+            });
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(amountIn);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut / 4);
+
+            // Nothing is left in escrow for the maker
+            await escrowContract.connect(signers.alice).cancelOrder(0);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance - amountOut);
+        });
+
+        it("should reject a fill that exceeds the remaining amountOut", async function () {
+            await fillAsBob(amountIn / 2, amountOut / 2);
+            await finalize(signers.bob);
+
+            // Fairly priced, but only half of amountOut is left
+            await fillAsBob(amountIn, amountOut);
+            await finalize(signers.bob);
+
+            expect(await decryptFill(1, signers.bob)).to.deep.equal({ paid: 0n, received: 0n });
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance - amountIn / 2);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut / 2);
+        });
+
+        it("should finalize fills in request order", async function () {
+            await fillAsBob(amountIn / 2, amountOut / 2);
+
+            await expect(
+                escrowContract
+                    .connect(signers.gateway)
+                    .finalizeFill(0, signers.alice.address)
+            ).to.be.revertedWith("taker mismatch");
+        });
+
+        it("should refund pending fills when the maker cancels", async function () {
+            await fillAsBob(amountIn, amountOut);
+
+            await escrowContract.connect(signers.alice).cancelOrder(0);
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+            expect((await escrowContract.getFills(0))[0].settled).to.be.true;
+        });
+
+        it("should revert finalizeFill when no fill was requested", async function () {
+            await expect(
+                escrowContract
+                    .connect(signers.gateway)
+                    .finalizeFill(0, signers.bob.address)
+            ).to.be.revertedWith("no fill");
+        });
+    });
+
+    describe("taker allowlist", function () {
+        const makerBalance = 500;
+        const takerBalance = 200;
+        const amountIn = 100;
+        const amountOut = 200;
+
+        beforeEach(async function () {
+            // bob and the deployer both hold tokenIn and let the escrow pull payments
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, takerBalance);
+            for (const taker of [signers.bob, signers.deployer]) {
+                await tokenIn
+                    .connect(taker)
+                    .setOperator(escrowAddress, (await time.latest()) + 3600);
+            }
+        });
+
+        it("should settle a fill from the allowlisted taker", async function () {
+            await createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600, signers.bob.address);
+
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: BigInt(amountIn), received: BigInt(amountOut) });
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(amountIn);
+        });
+
+        it("should refund a fill from any other taker without reverting", async function () {
+            await createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600, signers.bob.address);
+            const deployerBalance = await decryptBalance(tokenIn, tokenInAddress, signers.deployer);
+
+            // The fill is accepted on-chain: rejecting it here would reveal who is allowlisted
+            await fillAs(signers.deployer, amountIn, amountOut);
+            await finalize(signers.deployer);
+
+            expect(await decryptFill(0, signers.deployer)).to.deep.equal({ paid: 0n, received: 0n });
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.deployer)).to.equal(deployerBalance);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(0);
+
+            // The whole amountOut is still available to the allowlisted taker
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+        });
+
+        it("should let anyone fill an order whose taker is the zero address", async function () {
+            await createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600);
+            const deployerBalance = await decryptBalance(tokenOut, tokenOutAddress, signers.deployer);
+
+            await fillAs(signers.deployer, amountIn, amountOut);
+            await finalize(signers.deployer);
+
+            expect(await decryptFill(0, signers.deployer)).to.deep.equal({ paid: BigInt(amountIn), received: BigInt(amountOut) });
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.deployer)).to.equal(deployerBalance + BigInt(amountOut));
+        });
+    });
+
+    describe("fill reservation", function () {
+        const amountIn = 100;
+        const amountOut = 200;
+
+        beforeEach(async function () {
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, 200);
+            for (const taker of [signers.bob, signers.deployer]) {
+                await tokenIn
+                    .connect(taker)
+                    .setOperator(escrowAddress, (await time.latest()) + 3600);
+            }
+        });
+
+        it("should reserve the order for the first requesting taker", async function () {
+            const tx = await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            const block = await ethers.provider.getBlock(tx.blockNumber!);
+
+            const order = await escrowContract.orders(0);
+            expect(order.reservedBy).to.equal(signers.bob.address);
+            expect(order.reservedUntil).to.equal(BigInt(block!.timestamp) + (await escrowContract.fillLockWindow()));
+
+            // A competing taker cannot slip a request in before bob's fill is settled
+            await expect(fillAs(signers.deployer, amountIn, amountOut)).to.be.revertedWith("reserved");
+
+            // bob may queue more requests while holding the reservation
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            expect(await escrowContract.fillCount(0)).to.equal(2);
+        });
+
+        it("should not extend the reservation when its taker requests again", async function () {
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            const { reservedUntil } = await escrowContract.orders(0);
+
+            await time.increase(Number(await escrowContract.fillLockWindow()) / 2);
+            await fillAs(signers.bob, amountIn / 4, amountOut / 4);
+            expect((await escrowContract.orders(0)).reservedUntil).to.equal(reservedUntil);
+
+            // Once the original window lapses another taker may take the order over
+            await time.increaseTo(reservedUntil);
+            await fillAs(signers.deployer, amountIn / 4, amountOut / 4);
+            expect((await escrowContract.orders(0)).reservedBy).to.equal(signers.deployer.address);
+        });
+
+        it("should finalize only for the taker that requested the fill", async function () {
+            await fillAs(signers.bob, amountIn, amountOut);
+
+            await expect(
+                escrowContract
+                    .connect(signers.gateway)
+                    .finalizeFill(0, signers.deployer.address)
+            ).to.be.revertedWith("taker mismatch");
+
+            await finalize(signers.bob);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+        });
+
+        it("should release the reservation once the pending fills are settled", async function () {
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            await finalize(signers.bob);
+
+            expect((await escrowContract.orders(0)).reservedBy).to.equal(ethers.ZeroAddress);
+
+            await fillAs(signers.deployer, amountIn / 2, amountOut / 2);
+            await finalize(signers.deployer);
+            expect(await decryptFill(1, signers.deployer)).to.deep.equal({
+                paid: BigInt(amountIn / 2),
+                received: BigInt(amountOut / 2),
+            });
+        });
+
+        it("should queue a competing request behind the pending fill once the window lapses", async function () {
+            await fillAs(signers.bob, amountIn, amountOut);
+            await time.increase(Number(await escrowContract.fillLockWindow()));
+
+            await fillAs(signers.deployer, amountIn, amountOut);
+            expect((await escrowContract.orders(0)).reservedBy).to.equal(signers.deployer.address);
+
+            // bob's fill is still settled first and takes the whole order; the late request is refunded
+            await expect(
+                escrowContract
+                    .connect(signers.gateway)
+                    .finalizeFill(0, signers.deployer.address)
+            ).to.be.revertedWith("taker mismatch");
+            await finalize(signers.bob);
+            await finalize(signers.deployer);
+
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: BigInt(amountIn), received: BigInt(amountOut) });
+            expect(await decryptFill(1, signers.deployer)).to.deep.equal({ paid: 0n, received: 0n });
+        });
+
+        it("should let only the admin change the lock window", async function () {
+            await expect(escrowContract.connect(signers.gateway).setFillLockWindow(0)).to.be.revertedWith("only admin");
+
+            await expect(escrowContract.connect(signers.deployer).setFillLockWindow(0))
+                .to.emit(escrowContract, "FillLockWindowUpdated")
+                .withArgs(0);
+
+            // Without a window, competing requests simply queue
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            await fillAs(signers.deployer, amountIn / 2, amountOut / 2);
+            expect(await escrowContract.fillCount(0)).to.equal(2);
+        });
+    });
+
+    describe("fees", function () {
+        const takerBalance = 300;
+        const amountIn = 100;
+        const amountOut = 200;
+        const feeBps = 100; // 1%
+        const fee = (amountOut * feeBps) / 10_000;
+
+        beforeEach(async function () {
+            // The deployer is the fee manager, and as the initial gateway still the fee recipient
+            await escrowContract.connect(signers.deployer).setPairFee(tokenInAddress, tokenOutAddress, feeBps);
+
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, takerBalance);
+            await tokenIn
+                .connect(signers.bob)
+                .setOperator(escrowAddress, (await time.latest()) + 3600);
+        });
+
+        async function decryptAccruedFees() {
+            const accrued = await escrowContract.accruedFees(tokenOutAddress);
+            return fhevm.userDecryptEuint(FhevmType.euint64, accrued, escrowAddress, signers.deployer);
+        }
+
+        it("should take the pair fee from the amountOut received by the taker", async function () {
+            expect((await escrowContract.orders(0)).feeBps).to.equal(feeBps);
+
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut - fee);
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: BigInt(amountIn), received: BigInt(amountOut - fee) });
+            expect(await decryptAccruedFees()).to.equal(fee);
+        });
+
+        it("should not charge a fee on a rejected fill", async function () {
+            await fillAs(signers.bob, amountIn - 1, amountOut);
+            await finalize(signers.bob);
+
+            expect(await decryptAccruedFees()).to.equal(0);
+        });
+
+        it("should keep the fee in force when the order was created", async function () {
+            await escrowContract.connect(signers.deployer).setPairFee(tokenInAddress, tokenOutAddress, 0);
+
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut - fee);
+        });
+
+        it("should let only the fee recipient withdraw accrued fees", async function () {
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+
+            await expect(escrowContract.connect(signers.bob).withdrawFees(tokenOutAddress)).to.be.revertedWith(
+                "only fee recipient"
+            );
+
+            const balanceBefore = await decryptBalance(tokenOut, tokenOutAddress, signers.deployer);
+            await expect(escrowContract.connect(signers.deployer).withdrawFees(tokenOutAddress))
+                .to.emit(escrowContract, "FeesWithdrawn")
+                .withArgs(tokenOutAddress, signers.deployer.address);
+
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.deployer)).to.equal(balanceBefore + BigInt(fee));
+            expect(await decryptAccruedFees()).to.equal(0);
+        });
+
+        it("should restrict fee configuration to the fee manager and cap the fee", async function () {
+            await expect(
+                escrowContract.connect(signers.gateway).setPairFee(tokenInAddress, tokenOutAddress, 1)
+            ).to.be.revertedWith("only fee manager");
+            await expect(
+                escrowContract.connect(signers.deployer).setPairFee(tokenInAddress, tokenOutAddress, 1_001)
+            ).to.be.revertedWith("fee too high");
+
+            await expect(escrowContract.connect(signers.deployer).setFeeRecipient(signers.bob.address))
+                .to.emit(escrowContract, "FeeRecipientUpdated")
+                .withArgs(signers.bob.address);
+            expect(await escrowContract.feeRecipient()).to.equal(signers.bob.address);
+        });
+    });
+
+    describe("roles and pause", function () {
+        const makerBalance = 500;
+        const amountIn = 100;
+        const amountOut = 200;
+
+        beforeEach(async function () {
+            await createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, 300);
+            await tokenIn
+                .connect(signers.bob)
+                .setOperator(escrowAddress, (await time.latest()) + 3600);
+        });
+
+        it("should let only the admin rotate the gateway role", async function () {
+            const gatewayRole = await escrowContract.GATEWAY_ROLE();
+            expect(await escrowContract.hasRole(gatewayRole, signers.gateway.address)).to.be.true;
+            expect(await escrowContract.hasRole(gatewayRole, signers.deployer.address)).to.be.false;
+
+            // The current gateway can no longer hand its role over by itself
+            await expect(
+                escrowContract.connect(signers.gateway).setGateway(signers.bob.address)
+            ).to.be.revertedWith("only admin");
+
+            await expect(escrowContract.connect(signers.deployer).setGateway(signers.bob.address))
+                .to.emit(escrowContract, "GatewayUpdated")
+                .withArgs(signers.bob.address);
+            expect(await escrowContract.hasRole(gatewayRole, signers.gateway.address)).to.be.false;
+            expect(await escrowContract.hasRole(gatewayRole, signers.bob.address)).to.be.true;
+        });
+
+        it("should let a granted gateway finalize fills", async function () {
+            await escrowContract
+                .connect(signers.deployer)
+                .grantRole(await escrowContract.GATEWAY_ROLE(), signers.alice.address);
+
+            await fillAs(signers.bob, amountIn, amountOut);
+            const tx = await escrowContract
+                .connect(signers.alice)
+                .finalizeFill(0, signers.bob.address);
+            await tx.wait();
+
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+        });
+
+        it("should block new orders and fills while paused", async function () {
+            await expect(escrowContract.connect(signers.bob).pause()).to.be.revertedWith("only pauser");
+            await expect(escrowContract.connect(signers.deployer).pause()).to.emit(escrowContract, "Paused");
+
+            await expect(fillAs(signers.bob, amountIn, amountOut))
+                .to.be.revertedWithCustomError(escrowContract, "EnforcedPause");
+            await expect(
+                createFundedOrder(makerBalance, amountIn, amountOut, (await time.latest()) + 3600)
+            ).to.be.revertedWithCustomError(escrowContract, "EnforcedPause");
+
+            await escrowContract.connect(signers.deployer).unpause();
+            await fillAs(signers.bob, amountIn, amountOut);
+            expect(await escrowContract.fillCount(0)).to.equal(1);
+        });
+
+        it("should let makers withdraw their escrow while paused", async function () {
+            await fillAs(signers.bob, amountIn, amountOut);
+
+            await expect(
+                escrowContract.connect(signers.alice).emergencyWithdraw(0)
+            ).to.be.revertedWithCustomError(escrowContract, "ExpectedPause");
+
+            // While paused, emergencyWithdraw is the only way for a maker to close an order
+            await escrowContract.connect(signers.deployer).pause();
+            await expect(
+                escrowContract.connect(signers.alice).cancelOrder(0)
+            ).to.be.revertedWithCustomError(escrowContract, "EnforcedPause");
+            await expect(
+                escrowContract.connect(signers.bob).emergencyWithdraw(0)
+            ).to.be.revertedWith("only maker");
+
+            await expect(escrowContract.connect(signers.alice).emergencyWithdraw(0))
+                .to.emit(escrowContract, "OrderEmergencyWithdrawn")
+                .withArgs(0);
+
+            // The maker gets amountOut back and the pending fill is refunded to its taker
+            expect((await escrowContract.orders(0)).cancelled).to.be.true;
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(300);
+        });
+    });
+
+    describe("order views", function () {
+        // Views only read the order book: every order escrows the same 200 tokenOut
+        async function createOrderAs(maker: HardhatEthersSigner, deadline: number) {
+            const orderInput = await fhevm
+                .createEncryptedInput(escrowAddress, maker.address)
+                .add64(100n)
+                .add64(200n)
+                .addAddress(ethers.ZeroAddress)
+                .encrypt();
+
+            const tx = await escrowContract
+                .connect(maker)
+                .createOrder(
+                    tokenInAddress,
+                    tokenOutAddress,
+                    orderInput.handles[0],
+                    orderInput.handles[1],
+                    orderInput.handles[2],
+                    orderInput.inputProof,
+                    deadline
+                );
+            await tx.wait();
+        }
+
+        beforeEach(async function () {
+            await fundMaker(600, signers.alice);
+            await fundMaker(400, signers.bob);
+
+            const deadline = (await time.latest()) + 3600;
+            // #0 alice, #1 bob, #2 alice, #3 alice (short-lived), #4 bob
+            await createOrderAs(signers.alice, deadline);
+            await createOrderAs(signers.bob, deadline);
+            await createOrderAs(signers.alice, deadline);
+            await createOrderAs(signers.alice, (await time.latest()) + 60);
+            await createOrderAs(signers.bob, deadline);
+        });
+
+        it("should page through all orders", async function () {
+            const first = await escrowContract.getOrders(0, 2);
+            expect(first.map((o) => o.maker)).to.deep.equal([signers.alice.address, signers.bob.address]);
+
+            const last = await escrowContract.getOrders(4, 10);
+            expect(last.length).to.equal(1);
+            expect(last[0].maker).to.equal(signers.bob.address);
+
+            expect((await escrowContract.getOrders(5, 10)).length).to.equal(0);
+        });
+
+        it("should page through a maker's orders", async function () {
+            expect(await escrowContract.makerOrderCount(signers.alice.address)).to.equal(3);
+
+            const [ids, page] = await escrowContract.getOrdersByMaker(signers.alice.address, 1, 5);
+            expect([...ids]).to.deep.equal([2n, 3n]);
+            expect(page.every((o) => o.maker === signers.alice.address)).to.be.true;
+
+            const [none] = await escrowContract.getOrdersByMaker(signers.deployer.address, 0, 5);
+            expect(none.length).to.equal(0);
+        });
+
+        it("should list only open orders", async function () {
+            await (await escrowContract.connect(signers.bob).cancelOrder(1)).wait();
+
+            let [ids, total] = await escrowContract.getOpenOrderIds(0, 10);
+            expect(total).to.equal(4);
+            expect([...ids].sort()).to.deep.equal([0n, 2n, 3n, 4n]);
+
+            // Expired orders keep their index entry until reclaimed but are not listed
+            await time.increase(120);
+            [ids, total] = await escrowContract.getOpenOrderIds(0, 10);
+            expect(total).to.equal(4);
+            expect([...ids].sort()).to.deep.equal([0n, 2n, 4n]);
+
+            await (await escrowContract.connect(signers.alice).reclaimExpired(3)).wait();
+            [ids, total] = await escrowContract.getOpenOrderIds(0, 10);
+            expect(total).to.equal(3);
+        });
+    });
+
+    describe("escrow refunds", function () {
+        const makerBalance = 500;
+        const amountOut = 200;
+
+        beforeEach(async function () {
+            await createFundedOrder(makerBalance, 100, amountOut, (await time.latest()) + 3600);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance - amountOut);
+        });
+
+        it("should return the escrowed amountOut to the maker on cancelOrder", async function () {
+            const tx = await escrowContract
+                .connect(signers.alice)
+                .cancelOrder(0);
+            await tx.wait();
+
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+        });
+
+        it("should return the escrowed amountOut to the maker on reclaimExpired", async function () {
+            await time.increase(3601);
+
+            // Anyone may trigger the reclaim; funds always go back to the maker
+            const tx = await escrowContract
+                .connect(signers.bob)
+                .reclaimExpired(0);
+            await expect(tx).to.emit(escrowContract, "OrderReclaimed").withArgs(0);
+
+            expect((await escrowContract.orders(0)).cancelled).to.be.true;
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+        });
+
+        it("should revert reclaimExpired before the deadline", async function () {
+            await expect(
+                escrowContract
+                    .connect(signers.alice)
+                    .reclaimExpired(0)
+            ).to.be.revertedWith("not expired");
+        });
+
+        it("should revert reclaimExpired on a cancelled order", async function () {
+            await escrowContract
+                .connect(signers.alice)
+                .cancelOrder(0);
+            await time.increase(3601);
+
+            await expect(
+                escrowContract
+                    .connect(signers.alice)
+                    .reclaimExpired(0)
+            ).to.be.revertedWith("closed");
+        });
+    });
+
+    describe("order amendment", function () {
+        const amountIn = 100;
+        const amountOut = 200;
+        let deadline: number;
+
+        beforeEach(async function () {
+            deadline = (await time.latest()) + 3600;
+            await createFundedOrder(500, amountIn, amountOut, deadline);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, 500);
+            await tokenIn.connect(signers.bob).setOperator(escrowAddress, deadline);
+        });
+
+        async function amend(maker: HardhatEthersSigner, newAmountIn: number, newDeadline: number) {
+            const input = await fhevm
+                .createEncryptedInput(escrowAddress, maker.address)
+                .add64(BigInt(newAmountIn))
+                .encrypt();
+            return escrowContract.connect(maker).amendOrder(0, input.handles[0], newDeadline, input.inputProof);
+        }
+
+        it("should reprice and extend the order under the same id", async function () {
+            const newDeadline = deadline + 3600;
+            await expect(amend(signers.alice, 150, newDeadline))
+                .to.emit(escrowContract, "OrderAmended")
+                .withArgs(0, newDeadline);
+
+            const order = await escrowContract.orders(0);
+            expect(order.deadline).to.equal(newDeadline);
+            expect(
+                await fhevm.userDecryptEuint(FhevmType.euint64, order.amountInEnc, escrowAddress, signers.alice)
+            ).to.equal(150);
+
+            // The old price no longer fills: paying the original amountIn is refunded
+            await fillAs(signers.bob, amountIn, amountOut);
+            await finalize(signers.bob);
+            expect(await decryptFill(0, signers.bob)).to.deep.equal({ paid: 0n, received: 0n });
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(500n);
+        });
+
+        it("should keep the fill history and apply the new price to the remaining amountOut", async function () {
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            await finalize(signers.bob);
+
+            // 50 is now the price of the remaining 100, not of the order size
+            await (await amend(signers.alice, 50, deadline)).wait();
+            const order = await escrowContract.orders(0);
+            expect(
+                await fhevm.userDecryptEuint(FhevmType.euint64, order.pricedOutEnc, escrowAddress, signers.alice)
+            ).to.equal(amountOut / 2);
+
+            await fillAs(signers.bob, 25, amountOut / 2);
+            await finalize(signers.bob);
+            expect(await decryptFill(1, signers.bob)).to.deep.equal({ paid: 0n, received: 0n });
+
+            await fillAs(signers.bob, 50, amountOut / 2);
+            await finalize(signers.bob);
+            expect(await escrowContract.fillCount(0)).to.equal(3);
+            expect(await decryptFill(2, signers.bob)).to.deep.equal({ paid: 50n, received: BigInt(amountOut / 2) });
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(BigInt(500 - amountIn / 2 - 50));
+        });
+
+        it("should move only the deadline and keep the price after a partial fill", async function () {
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            await finalize(signers.bob);
+            const before = await escrowContract.orders(0);
+
+            const newDeadline = deadline + 3600;
+            await expect(escrowContract.connect(signers.alice).amendDeadline(0, newDeadline))
+                .to.emit(escrowContract, "OrderAmended")
+                .withArgs(0, newDeadline);
+
+            const order = await escrowContract.orders(0);
+            expect(order.deadline).to.equal(newDeadline);
+            expect(order.amountInEnc).to.equal(before.amountInEnc);
+            expect(order.pricedOutEnc).to.equal(before.pricedOutEnc);
+
+            // The remaining half still fills at the original unit price
+            await fillAs(signers.bob, amountIn / 2, amountOut / 2);
+            await finalize(signers.bob);
+            expect(await decryptFill(1, signers.bob)).to.deep.equal({ paid: BigInt(amountIn / 2), received: BigInt(amountOut / 2) });
+        });
+
+        it("should revert while a fill request is pending", async function () {
+            await fillAs(signers.bob, amountIn, amountOut);
+
+            await expect(amend(signers.alice, 150, deadline)).to.be.revertedWith("fill pending");
+            await expect(escrowContract.connect(signers.alice).amendDeadline(0, deadline)).to.be.revertedWith("fill pending");
+
+            await finalize(signers.bob);
+            await expect(amend(signers.alice, 150, deadline)).to.emit(escrowContract, "OrderAmended");
+        });
+
+        it("should let only the maker amend an open order to a future deadline", async function () {
+            await expect(amend(signers.bob, 150, deadline)).to.be.revertedWith("only maker");
+            await expect(amend(signers.alice, 150, await time.latest())).to.be.revertedWith("deadline past");
+
+            await time.increase(3601);
+            await expect(amend(signers.alice, 150, deadline + 7200)).to.be.revertedWith("expired");
+
+            await escrowContract.connect(signers.alice).reclaimExpired(0);
+            await expect(amend(signers.alice, 150, deadline + 7200)).to.be.revertedWith("closed");
+        });
+    });
+
+    describe("batches", function () {
+        const amountIn = 100;
+        const amountOut = 200;
+        let deadline: number;
+
+        beforeEach(async function () {
+            deadline = (await time.latest()) + 3600;
+            await transferTokens(tokenOut, tokenOutAddress, signers.deployer, signers.alice.address, 500);
+            await tokenOut.connect(signers.alice).setOperator(escrowAddress, deadline);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, 500);
+            await tokenIn.connect(signers.bob).setOperator(escrowAddress, deadline);
+        });
+
+        // Creates `count` escrowed orders in one multicall, all terms under a single input proof
+        async function createBatch(count: number) {
+            let input = fhevm.createEncryptedInput(escrowAddress, signers.alice.address);
+            for (let i = 0; i < count; i++) {
+                input = input.add64(BigInt(amountIn)).add64(BigInt(amountOut)).addAddress(ethers.ZeroAddress);
+            }
+            const enc = await input.encrypt();
+
+            const calls = Array.from({ length: count }, (_, i) =>
+                escrowContract.interface.encodeFunctionData("createOrder", [
+                    tokenInAddress,
+                    tokenOutAddress,
+                    enc.handles[3 * i],
+                    enc.handles[3 * i + 1],
+                    enc.handles[3 * i + 2],
+                    enc.inputProof,
+                    deadline,
+                ])
+            );
+            return escrowContract.connect(signers.alice).multicall(calls);
+        }
+
+        it("should create several orders from one input proof in one transaction", async function () {
+            await (await createBatch(2)).wait();
+
+            expect(await escrowContract.nextOrderId()).to.equal(2);
+            expect(await escrowContract.makerOrderCount(signers.alice.address)).to.equal(2);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(BigInt(500 - 2 * amountOut));
+            for (const id of [0, 1]) {
+                const order = await escrowContract.orders(id);
+                expect(order.maker).to.equal(signers.alice.address);
+                expect(
+                    await fhevm.userDecryptEuint(FhevmType.euint64, order.remainingOutEnc, escrowAddress, signers.alice)
+                ).to.equal(amountOut);
+            }
+        });
+
+        it("should fill several orders from one input proof", async function () {
+            await (await createBatch(2)).wait();
+
+            const enc = await fhevm
+                .createEncryptedInput(escrowAddress, signers.bob.address)
+                .add64(BigInt(amountIn))
+                .add64(BigInt(amountOut))
+                .add64(BigInt(amountIn))
+                .add64(BigInt(amountOut))
+                .encrypt();
+            const calls = [0, 1].map((id) =>
+                escrowContract.interface.encodeFunctionData("fillOrder", [
+                    id,
+                    enc.handles[2 * id],
+                    enc.handles[2 * id + 1],
+                    enc.inputProof,
+                ])
+            );
+            await (await escrowContract.connect(signers.bob).multicall(calls)).wait();
+
+            expect(await escrowContract.fillCount(0)).to.equal(1);
+            expect(await escrowContract.fillCount(1)).to.equal(1);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(BigInt(500 - 2 * amountIn));
+        });
+
+        it("should cancel several orders as their maker and revert the whole batch if one call fails", async function () {
+            await (await createBatch(3)).wait();
+            const cancel = (id: number) => escrowContract.interface.encodeFunctionData("cancelOrder", [id]);
+
+            // Bob is not the maker: nothing is cancelled
+            await expect(escrowContract.connect(signers.bob).multicall([cancel(0), cancel(1)])).to.be.revertedWith("only maker");
+            // Order #1 twice: the second cancel fails and undoes the first
+            await expect(escrowContract.connect(signers.alice).multicall([cancel(1), cancel(1)])).to.be.revertedWith("closed");
+            expect((await escrowContract.orders(1)).cancelled).to.be.false;
+
+            await (await escrowContract.connect(signers.alice).multicall([cancel(0), cancel(2)])).wait();
+            expect((await escrowContract.orders(0)).cancelled).to.be.true;
+            expect((await escrowContract.orders(1)).cancelled).to.be.false;
+            expect((await escrowContract.orders(2)).cancelled).to.be.true;
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(BigInt(500 - amountOut));
+        });
+    });
+
+    describe("reveal terms", function () {
+        beforeEach(async function () {
+            await createFundedOrder(500, 100, 200, (await time.latest()) + 3600, signers.bob.address);
+        });
+
+        it("should make the terms publicly decryptable once the order is closed", async function () {
+            await escrowContract.connect(signers.alice).cancelOrder(0);
+            await expect(escrowContract.connect(signers.alice).revealTerms(0))
+                .to.emit(escrowContract, "TermsRevealed")
+                .withArgs(0);
+
+            const order = await escrowContract.orders(0);
+            expect(await fhevm.publicDecryptEuint(FhevmType.euint64, order.amountInEnc)).to.equal(100);
+            expect(await fhevm.publicDecryptEuint(FhevmType.euint64, order.amountOutEnc)).to.equal(200);
+            expect(await fhevm.publicDecryptEaddress(order.takerEnc)).to.equal(signers.bob.address);
+        });
+
+        it("should reveal the amountOut an amended price applies to", async function () {
+            const input = await fhevm
+                .createEncryptedInput(escrowAddress, signers.alice.address)
+                .add64(150n)
+                .encrypt();
+            await escrowContract
+                .connect(signers.alice)
+                .amendOrder(0, input.handles[0], (await time.latest()) + 3600, input.inputProof);
+            await escrowContract.connect(signers.alice).cancelOrder(0);
+            await escrowContract.connect(signers.alice).revealTerms(0);
+
+            const order = await escrowContract.orders(0);
+            expect(await fhevm.publicDecryptEuint(FhevmType.euint64, order.amountInEnc)).to.equal(150);
+            expect(await fhevm.publicDecryptEuint(FhevmType.euint64, order.pricedOutEnc)).to.equal(200);
+        });
+
+        it("should let only the maker reveal, and only after close", async function () {
+            await expect(escrowContract.connect(signers.alice).revealTerms(0)).to.be.revertedWith("only after close");
+
+            await time.increase(3601);
+            await expect(escrowContract.connect(signers.bob).revealTerms(0)).to.be.revertedWith("only maker");
+        });
+    });
+
+    describe("auditors", function () {
+        const amountIn = 100;
+        const amountOut = 200;
+
+        async function decryptAsAuditor(handle: string) {
+            return fhevm.userDecryptEuint(FhevmType.euint64, handle, escrowAddress, signers.deployer);
+        }
+
+        beforeEach(async function () {
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, 500);
+            await tokenIn
+                .connect(signers.bob)
+                .setOperator(escrowAddress, (await time.latest()) + 3600);
+        });
+
+        it("should let a granted auditor decrypt the terms and every fill, before and after the grant", async function () {
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600, signers.bob.address);
+            await fillAs(signers.bob, 50, 100);
+            await finalize(signers.bob);
+
+            await expect(escrowContract.connect(signers.alice).grantAuditor(0, signers.deployer.address))
+                .to.emit(escrowContract, "AuditorGranted")
+                .withArgs(0, signers.deployer.address);
+            expect(await escrowContract.getAuditors(0)).to.deep.equal([signers.deployer.address]);
+
+            await fillAs(signers.bob, 50, 100);
+            await finalize(signers.bob);
+
+            const order = await escrowContract.orders(0);
+            expect(await decryptAsAuditor(order.amountInEnc)).to.equal(amountIn);
+            expect(await decryptAsAuditor(order.amountOutEnc)).to.equal(amountOut);
+            expect(
+                await fhevm.userDecryptEaddress(order.takerEnc, escrowAddress, signers.deployer)
+            ).to.equal(signers.bob.address);
+            expect(await decryptAsAuditor(order.remainingOutEnc)).to.equal(0);
+
+            for (const fill of await escrowContract.getFills(0)) {
+                expect(await decryptAsAuditor(fill.payEnc)).to.equal(50);
+                expect(await decryptAsAuditor(fill.receivedEnc)).to.equal(100);
+            }
+        });
+
+        it("should grant the maker's default auditor on new orders until revoked", async function () {
+            await expect(escrowContract.connect(signers.alice).setDefaultAuditor(signers.deployer.address))
+                .to.emit(escrowContract, "DefaultAuditorUpdated")
+                .withArgs(signers.alice.address, signers.deployer.address);
+
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600);
+            expect(await escrowContract.getAuditors(0)).to.deep.equal([signers.deployer.address]);
+            expect(await decryptAsAuditor((await escrowContract.orders(0)).amountOutEnc)).to.equal(amountOut);
+
+            await escrowContract.connect(signers.alice).setDefaultAuditor(ethers.ZeroAddress);
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600);
+            expect(await escrowContract.getAuditors(1)).to.deep.equal([]);
+            // the revocation only applies to new orders
+            expect(await escrowContract.getAuditors(0)).to.deep.equal([signers.deployer.address]);
+        });
+
+        it("should let only the maker grant, once per auditor", async function () {
+            await createFundedOrder(500, amountIn, amountOut, (await time.latest()) + 3600);
+
+            await expect(
+                escrowContract.connect(signers.bob).grantAuditor(0, signers.bob.address)
+            ).to.be.revertedWith("only maker");
+            await expect(
+                escrowContract.connect(signers.alice).grantAuditor(0, ethers.ZeroAddress)
+            ).to.be.revertedWith("auditor=0");
+
+            await escrowContract.connect(signers.alice).grantAuditor(0, signers.deployer.address);
+            await expect(
+                escrowContract.connect(signers.alice).grantAuditor(0, signers.deployer.address)
+            ).to.be.revertedWith("already auditor");
+        });
+    });
+
+    describe("signed orders", function () {
+        const makerBalance = 500;
+        const takerBalance = 300;
+        const amountIn = 100;
+        const amountOut = 200;
+
+        const signedOrderTypes = {
+            SignedOrder: [
+                { name: "maker", type: "address" },
+                { name: "taker", type: "address" },
+                { name: "tokenIn", type: "address" },
+                { name: "tokenOut", type: "address" },
+                { name: "amountInExt", type: "bytes32" },
+                { name: "amountOutExt", type: "bytes32" },
+                { name: "inputProofHash", type: "bytes32" },
+                { name: "deadline", type: "uint64" },
+                { name: "nonce", type: "uint256" },
+            ],
+        };
+
+        beforeEach(async function () {
+            await transferTokens(tokenOut, tokenOutAddress, signers.deployer, signers.alice.address, makerBalance);
+            await transferTokens(tokenIn, tokenInAddress, signers.deployer, signers.bob.address, takerBalance);
+
+            // Nothing is escrowed up front: the escrow pulls both legs when the taker settles
+            await tokenOut.connect(signers.alice).setOperator(escrowAddress, (await time.latest()) + 3600);
+            await tokenIn.connect(signers.bob).setOperator(escrowAddress, (await time.latest()) + 3600);
+        });
+
+        // alice quotes amountIn/amountOut to bob; the terms are encrypted for bob, who submits them
+        async function signOrder(nonce: number, signer: HardhatEthersSigner = signers.alice) {
+            const terms = await fhevm
+                .createEncryptedInput(escrowAddress, signers.bob.address)
+                .add64(BigInt(amountIn))
+                .add64(BigInt(amountOut))
+                .encrypt();
+
+            const order = {
+                maker: signers.alice.address,
+                taker: signers.bob.address,
+                tokenIn: tokenInAddress,
+                tokenOut: tokenOutAddress,
+                amountInExt: ethers.hexlify(terms.handles[0]),
+                amountOutExt: ethers.hexlify(terms.handles[1]),
+                inputProof: ethers.hexlify(terms.inputProof),
+                deadline: (await time.latest()) + 3600,
+                nonce,
+            };
+
+            const domain = {
+                name: "ConfidentialOtcEscrow",
+                version: "1",
+                chainId: (await ethers.provider.getNetwork()).chainId,
+                verifyingContract: escrowAddress,
+            };
+            const signature = await signer.signTypedData(domain, signedOrderTypes, {
+                ...order,
+                inputProofHash: ethers.keccak256(order.inputProof),
+            });
+
+            return { order, signature };
+        }
+
+        async function fillSigned(order: Awaited<ReturnType<typeof signOrder>>["order"], signature: string, takerPay: number) {
+            const payInput = await fhevm
+                .createEncryptedInput(escrowAddress, signers.bob.address)
+                .add64(BigInt(takerPay))
+                .encrypt();
+
+            return escrowContract
+                .connect(signers.bob)
+                .fillSignedOrder(order, signature, payInput.handles[0], payInput.inputProof);
+        }
+
+        it("should match the on-chain EIP-712 digest", async function () {
+            const { order, signature } = await signOrder(1);
+
+            const digest = await escrowContract.hashSignedOrder(order);
+            expect(ethers.recoverAddress(digest, signature)).to.equal(signers.alice.address);
+        });
+
+        it("should swap both legs in a single call", async function () {
+            const { order, signature } = await signOrder(1);
+
+            await expect(fillSigned(order, signature, amountIn))
+                .to.emit(escrowContract, "SignedOrderFilled")
+                .withArgs(signers.alice.address, 1, signers.bob.address);
+
+            expect(await escrowContract.usedNonces(signers.alice.address, 1)).to.be.true;
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(amountIn);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance - amountOut);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance - amountIn);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(amountOut);
+        });
+
+        it("should return both legs when the payment does not cover amountIn", async function () {
+            const { order, signature } = await signOrder(1);
+
+            await (await fillSigned(order, signature, amountIn - 1)).wait();
+
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.alice)).to.equal(0);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.alice)).to.equal(makerBalance);
+            expect(await decryptBalance(tokenIn, tokenInAddress, signers.bob)).to.equal(takerBalance);
+            expect(await decryptBalance(tokenOut, tokenOutAddress, signers.bob)).to.equal(0);
+        });
+
+        it("should reject a replayed order", async function () {
+            const { order, signature } = await signOrder(1);
+            await (await fillSigned(order, signature, amountIn)).wait();
+
+            await expect(fillSigned(order, signature, amountIn)).to.be.revertedWith("nonce used");
+        });
+
+        it("should reject an order whose nonce the maker cancelled", async function () {
+            const { order, signature } = await signOrder(1);
+
+            await expect(escrowContract.connect(signers.alice).cancelNonce(1))
+                .to.emit(escrowContract, "NonceCancelled")
+                .withArgs(signers.alice.address, 1);
+
+            await expect(fillSigned(order, signature, amountIn)).to.be.revertedWith("nonce used");
+        });
+
+        it("should reject tampered terms or a signature from someone else", async function () {
+            const { order, signature } = await signOrder(1);
+            await expect(fillSigned({ ...order, deadline: order.deadline + 1 }, signature, amountIn)).to.be.revertedWith(
+                "bad signature"
+            );
+
+            const forged = await signOrder(2, signers.bob);
+            await expect(fillSigned(forged.order, forged.signature, amountIn)).to.be.revertedWith("bad signature");
+        });
+
+        it("should only be fillable by the quoted taker", async function () {
+            const { order, signature } = await signOrder(1);
+
+            await expect(
+                escrowContract
+                    .connect(signers.deployer)
+                    .fillSignedOrder(order, signature, order.amountInExt, order.inputProof)
+            ).to.be.revertedWith("not taker");
+        });
+    });
 });
@@ -0,0 +1,134 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { ConfidentialOtcEscrowWithOZ, ConfidentialOtcEscrowWithOZ__factory, ConfidentialTokenExample, ConfidentialTokenExample__factory } from "../types";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JobLog } from "../src/gateway/JobLog";
+import { OtcGateway } from "../src/gateway/OtcGateway";
+
+describe("OtcGateway", function () {
+    let deployer: HardhatEthersSigner;
+    let alice: HardhatEthersSigner;
+    let bob: HardhatEthersSigner;
+    let gatewaySigner: HardhatEthersSigner;
+    let escrowContract: ConfidentialOtcEscrowWithOZ;
+    let escrowAddress: string;
+    let tokenIn: ConfidentialTokenExample;
+    let tokenOut: ConfidentialTokenExample;
+    let logPath: string;
+
+    const quiet = { log: () => {}, pollIntervalMs: 0 };
+
+    async function fund(token: ConfidentialTokenExample, amount: number) {
+        const tokenAddress = await token.getAddress();
+        const input = await fhevm.createEncryptedInput(tokenAddress, deployer.address).add64(BigInt(amount)).encrypt();
+        await (await token["confidentialTransfer(address,bytes32,bytes)"](escrowAddress, input.handles[0], input.inputProof)).wait();
+    }
+
+    async function createOrder(deadline: number) {
+        const input = await fhevm
+            .createEncryptedInput(escrowAddress, alice.address)
+            .add64(100n)
+            .add64(200n)
+            .addAddress(ethers.ZeroAddress)
+            .encrypt();
+        await (
+            await escrowContract
+                .connect(alice)
+                .createOrder(await tokenIn.getAddress(), await tokenOut.getAddress(), input.handles[0], input.handles[1], input.handles[2], input.inputProof, deadline, false)
+        ).wait();
+    }
+
+    async function requestFill(orderId: number, pay: bigint, receive: bigint) {
+        const input = await fhevm.createEncryptedInput(escrowAddress, bob.address).add64(pay).add64(receive).encrypt();
+        await (await escrowContract.connect(bob).fillOrder(orderId, input.handles[0], input.handles[1], input.inputProof, false)).wait();
+    }
+
+    // Opens the job log like a (re)started daemon would
+    function startGateway() {
+        const escrow = new ethers.Contract(escrowAddress, escrowContract.interface, gatewaySigner);
+        const jobs = new JobLog(logPath);
+        return { jobs, gateway: new OtcGateway(escrow, jobs, quiet) };
+    }
+
+    beforeEach(async function () {
+        if (!fhevm.isMock) {
+            console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+            this.skip();
+        }
+
+        [deployer, alice, bob, gatewaySigner] = await ethers.getSigners();
+
+        const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenExample")) as ConfidentialTokenExample__factory;
+        tokenIn = (await tokenFactory.deploy(1000, "Token In", "TIN", "https://example.com/tokenin")) as ConfidentialTokenExample;
+        tokenOut = (await tokenFactory.deploy(1000, "Token Out", "TOUT", "https://example.com/tokenout")) as ConfidentialTokenExample;
+
+        const escrowFactory = (await ethers.getContractFactory("ConfidentialOtcEscrowWithOZ")) as ConfidentialOtcEscrowWithOZ__factory;
+        escrowContract = (await escrowFactory.deploy(gatewaySigner.address)) as ConfidentialOtcEscrowWithOZ;
+        escrowAddress = await escrowContract.getAddress();
+
+        // Escrow holds both legs so settlement can pay out
+        await fund(tokenOut, 400);
+        await fund(tokenIn, 200);
+
+        logPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "otc-gateway-")), "jobs.jsonl");
+    });
+
+    it("should finalize pending fills oldest first and log them as done", async function () {
+        await createOrder((await time.latest()) + 3600);
+        await requestFill(0, 50n, 100n);
+        await requestFill(0, 50n, 100n);
+
+        const { jobs, gateway } = startGateway();
+        await gateway.poll();
+
+        expect((await escrowContract.orders(0)).settledFills).to.equal(2);
+        expect(jobs.all().map((job) => [job.fillIndex, job.status, job.attempts])).to.deep.equal([
+            [0, "done", 1],
+            [1, "done", 1],
+        ]);
+        expect(jobs.cursor).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("should resume from the job log without settling a fill twice", async function () {
+        await createOrder((await time.latest()) + 3600);
+        await requestFill(0, 50n, 100n);
+
+        await startGateway().gateway.poll();
+
+        await requestFill(0, 50n, 100n);
+
+        // A restart reads the log back: only the new request is queued and finalized
+        const { jobs, gateway } = startGateway();
+        expect(jobs.get(0, 0)?.status).to.equal("done");
+        await gateway.poll();
+
+        expect((await escrowContract.orders(0)).settledFills).to.equal(2);
+        expect(jobs.get(0, 0)?.attempts).to.equal(1);
+        expect(jobs.get(0, 1)?.status).to.equal("done");
+    });
+
+    it("should retry with backoff while finalizing fails, then skip fills of an expired order", async function () {
+        await createOrder((await time.latest()) + 3600);
+        await requestFill(0, 50n, 100n);
+
+        // Without the role every attempt reverts
+        await escrowContract.connect(deployer).revokeRole(await escrowContract.GATEWAY_ROLE(), gatewaySigner.address);
+
+        const { jobs, gateway } = startGateway();
+        await gateway.poll();
+        const failed = jobs.get(0, 0)!;
+        expect(failed.status).to.equal("pending");
+        expect(failed.attempts).to.equal(1);
+        expect(failed.error).to.contain("only gateway");
+        expect(failed.nextAttemptAt).to.be.greaterThan(Date.now());
+
+        await time.increase(7200);
+        await gateway.poll();
+        expect(jobs.get(0, 0)?.status).to.equal("skipped");
+        expect(jobs.get(0, 0)?.error).to.equal("order expired");
+    });
+});
@@ -0,0 +1,38 @@
+import { expect } from "chai";
+import { checkedMul, feeOf, formatAmount, parseAmount, parseAmountArg, MAX_UINT64, MAX_UINT128 } from "../src/amounts";
+
+describe("amounts", function () {
+    it("should parse decimal strings to base units", function () {
+        expect(parseAmount("1.5", 6)).to.equal(1_500_000n);
+        expect(parseAmount("100", 6)).to.equal(100_000_000n);
+        expect(parseAmount(".25", 2)).to.equal(25n);
+        expect(parseAmount("42", 0)).to.equal(42n);
+        expect(parseAmount("18446744073709.551615", 6)).to.equal(MAX_UINT64);
+    });
+
+    it("should reject malformed, zero, too precise and out of range amounts", function () {
+        expect(() => parseAmount("1e6", 6)).to.throw("not a decimal amount");
+        expect(() => parseAmount("0", 6)).to.throw("greater than zero");
+        expect(() => parseAmount("0.0000001", 6)).to.throw("more than 6 decimals");
+        expect(() => parseAmount("18446744073709.551616", 6)).to.throw("fits in 64 bits");
+        expect(() => parseAmountArg("amountin", "-1", 6)).to.throw("Argument --amountin");
+    });
+
+    it("should format base units back to decimals", function () {
+        expect(formatAmount(1_500_000n, 6)).to.equal("1.5");
+        expect(formatAmount(5n, 6)).to.equal("0.000005");
+        expect(formatAmount(100n, 0)).to.equal("100");
+    });
+
+    it("should multiply within the given width", function () {
+        expect(checkedMul(MAX_UINT64, MAX_UINT64, MAX_UINT128)).to.equal(MAX_UINT64 * MAX_UINT64);
+        expect(() => checkedMul(MAX_UINT128, 2n, MAX_UINT128)).to.throw("overflows");
+        expect(() => checkedMul(MAX_UINT64, 10_000n, MAX_UINT64)).to.throw("overflows");
+    });
+
+    it("should compute fees like the escrow", function () {
+        expect(feeOf(1_000n, 30)).to.equal(3n);
+        expect(feeOf(MAX_UINT64, 1_000)).to.equal(MAX_UINT64 / 10n);
+        expect(() => feeOf(MAX_UINT64, 20_000)).to.throw("does not fit in 64 bits");
+    });
+});
@@ -0,0 +1,26 @@
+// The part of ConfidentialOtcEscrowWithOZ the indexer reads: order events and the order/fill views
+export const ESCROW_ABI = [
+    "event OrderCreated(uint256 indexed id, address indexed maker, address tokenIn, address tokenOut, uint64 deadline, uint64 createdAt, uint64 createdBlock)",
+    "event FillRequested(uint256 indexed id, address indexed taker, uint256 fillIndex)",
+    "event OrderFinalized(uint256 indexed id, address indexed taker, uint256 fillIndex, uint64 createdAt, uint64 createdBlock)",
+    "event OrderCancelled(uint256 indexed id)",
+    "event OrderAmended(uint256 indexed id, uint64 deadline)",
+    "event OrderReclaimed(uint256 indexed id)",
+    "event OrderEmergencyWithdrawn(uint256 indexed id)",
+    "event TermsRevealed(uint256 indexed id)",
+    "function orders(uint256 id) view returns (tuple(address maker, address tokenIn, address tokenOut, bytes32 amountInEnc, bytes32 amountOutEnc, bytes32 takerEnc, uint64 deadline, bool cancelled, bytes32 remainingOutEnc, uint32 settledFills, address reservedBy, uint64 reservedUntil, uint16 feeBps, uint64 createdAt, uint64 createdBlock, bytes32 pricedOutEnc))",
+    "function getFills(uint256 id) view returns (tuple(address taker, bytes32 payEnc, bytes32 receivedEnc, bytes32 allowedEnc, bool settled)[])",
+] as const;
+
+export const ORDER_EVENTS = [
+    "OrderCreated",
+    "FillRequested",
+    "OrderFinalized",
+    "OrderCancelled",
+    "OrderAmended",
+    "OrderReclaimed",
+    "OrderEmergencyWithdrawn",
+    "TermsRevealed",
+] as const;
+
+export type OrderEventName = (typeof ORDER_EVENTS)[number];
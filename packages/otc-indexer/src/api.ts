@@ -0,0 +1,100 @@
+import http from "node:http";
+import type { OrderStatus, OrderStore } from "./store";
+
+const MAX_LIMIT = 100;
+const DEFAULT_LIMIT = 20;
+const STATUSES: OrderStatus[] = ["active", "cancelled", "expired"];
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function parsePaging(query: URLSearchParams) {
+    const offset = query.has("offset") ? Number(query.get("offset")) : 0;
+    const limit = query.has("limit") ? Number(query.get("limit")) : DEFAULT_LIMIT;
+    if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, "offset must be a non-negative integer");
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new HttpError(400, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    return { offset, limit };
+}
+
+function parseStatus(query: URLSearchParams): OrderStatus | undefined {
+    const status = query.get("status");
+    if (status === null) return undefined;
+    if (!STATUSES.includes(status as OrderStatus)) {
+        throw new HttpError(400, `status must be one of ${STATUSES.join(", ")}`);
+    }
+    return status as OrderStatus;
+}
+
+/**
+ * Read-only JSON API over the store:
+ *   GET /orders?status=&offset=&limit=          newest first with fills, { orders, total, offset, limit }
+ *   GET /orders/:id                             order with its fills and events
+ *   GET /makers/:addr/orders?status=&offset=&limit=
+ *   GET /stats
+ * `now` is injectable so tests can pin the expiry cut-off.
+ */
+export function createApi(store: OrderStore, now: () => number = () => Math.floor(Date.now() / 1000)) {
+    const page = (options: Parameters<OrderStore["listOrders"]>[0]) => {
+        const { orders, total } = store.listOrders(options);
+        return {
+            orders: orders.map((order) => ({ ...order, fills: store.getFills(order.id) })),
+            total,
+            offset: options.offset,
+            limit: options.limit,
+        };
+    };
+
+    const route = (method: string, url: URL): unknown => {
+        if (method !== "GET") throw new HttpError(405, "method not allowed");
+
+        const parts = url.pathname.split("/").filter(Boolean);
+        const query = url.searchParams;
+
+        if (parts.length === 1 && parts[0] === "orders") {
+            return page({ ...parsePaging(query), status: parseStatus(query), now: now() });
+        }
+
+        if (parts.length === 2 && parts[0] === "orders") {
+            if (!/^\d+$/.test(parts[1])) throw new HttpError(400, "order id must be a non-negative integer");
+            const id = Number(parts[1]);
+            const order = store.getOrder(id);
+            if (!order) throw new HttpError(404, `order ${id} not found`);
+            return { ...order, fills: store.getFills(id), events: store.getEvents(id) };
+        }
+
+        if (parts.length === 3 && parts[0] === "makers" && parts[2] === "orders") {
+            if (!/^0x[0-9a-fA-F]{40}$/.test(parts[1])) throw new HttpError(400, "maker must be an address");
+            return page({ ...parsePaging(query), maker: parts[1], status: parseStatus(query), now: now() });
+        }
+
+        if (parts.length === 1 && parts[0] === "stats") {
+            return store.stats(now());
+        }
+
+        throw new HttpError(404, "not found");
+    };
+
+    return http.createServer((req, res) => {
+        // The site reads the API from the browser, on another origin
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.setHeader("Content-Type", "application/json");
+
+        let status = 200;
+        let body: unknown;
+        try {
+            body = route(req.method ?? "GET", new URL(req.url ?? "/", "http://localhost"));
+        } catch (err) {
+            status = err instanceof HttpError ? err.status : 500;
+            body = { error: err instanceof Error ? err.message : String(err) };
+            if (status === 500) console.error("API error:", err);
+        }
+
+        res.statusCode = status;
+        res.end(JSON.stringify(body));
+    });
+}
@@ -0,0 +1,59 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DEFAULT_INDEXER_OPTIONS, type IndexerOptions } from "./indexer";
+
+export type Config = IndexerOptions & {
+    rpcUrl: string;
+    escrowAddress: string;
+    dbPath: string;
+    port: number;
+    replay: boolean; // wipe the store and index again from startBlock
+};
+
+// Written by `npx hardhat deploy --network localhost` in the Hardhat package
+const LOCAL_DEPLOYMENT = path.resolve(__dirname, "../../fhevm-hardhat-template/deployments/localhost/ConfidentialOtcEscrowWithOZ.json");
+
+function intSetting(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined || value === "") return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`${name} must be a non-negative integer, got ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * Settings come from the environment (RPC_URL, ESCROW_ADDRESS, DB_PATH, PORT, START_BLOCK, CONFIRMATIONS,
+ * REORG_DEPTH, BATCH_SIZE, POLL_INTERVAL_MS); `--from-block <n>` overrides START_BLOCK and `--replay`
+ * re-indexes from it. Without ESCROW_ADDRESS, the local Hardhat deployment is used.
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): Config {
+    const fromBlockArg = argv.indexOf("--from-block");
+    if (fromBlockArg >= 0 && argv[fromBlockArg + 1] === undefined) {
+        throw new Error("--from-block needs a block number");
+    }
+    const startBlock = fromBlockArg >= 0
+        ? intSetting("--from-block", argv[fromBlockArg + 1], 0)
+        : intSetting("START_BLOCK", env.START_BLOCK, DEFAULT_INDEXER_OPTIONS.startBlock);
+
+    let escrowAddress = env.ESCROW_ADDRESS;
+    if (!escrowAddress) {
+        if (!fs.existsSync(LOCAL_DEPLOYMENT)) {
+            throw new Error(`Set ESCROW_ADDRESS, or deploy the escrow on the local Hardhat node (${LOCAL_DEPLOYMENT} not found)`);
+        }
+        escrowAddress = JSON.parse(fs.readFileSync(LOCAL_DEPLOYMENT, "utf8")).address as string;
+    }
+
+    return {
+        rpcUrl: env.RPC_URL || "http://127.0.0.1:8545",
+        escrowAddress,
+        dbPath: env.DB_PATH || "otc-indexer.db",
+        port: intSetting("PORT", env.PORT, 4000),
+        replay: argv.includes("--replay"),
+        startBlock,
+        confirmations: intSetting("CONFIRMATIONS", env.CONFIRMATIONS, DEFAULT_INDEXER_OPTIONS.confirmations),
+        reorgDepth: intSetting("REORG_DEPTH", env.REORG_DEPTH, DEFAULT_INDEXER_OPTIONS.reorgDepth),
+        batchSize: intSetting("BATCH_SIZE", env.BATCH_SIZE, DEFAULT_INDEXER_OPTIONS.batchSize) || 1,
+        pollIntervalMs: intSetting("POLL_INTERVAL_MS", env.POLL_INTERVAL_MS, DEFAULT_INDEXER_OPTIONS.pollIntervalMs),
+    };
+}
@@ -0,0 +1,46 @@
+import { ethers } from "ethers";
+import { createApi } from "./api";
+import { loadConfig } from "./config";
+import { OrderIndexer } from "./indexer";
+import { OrderStore } from "./store";
+
+export { createApi } from "./api";
+export { OrderIndexer, DEFAULT_INDEXER_OPTIONS, type IndexerOptions } from "./indexer";
+export { OrderStore, type OrderRow, type FillRow, type EventRow, type OrderStatus, type Stats } from "./store";
+
+async function main() {
+    const config = loadConfig();
+    const store = new OrderStore(config.dbPath);
+    if (config.replay) {
+        console.log(`Replaying from block ${config.startBlock}`);
+        store.reset();
+    }
+
+    const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    const indexer = new OrderIndexer(provider, config.escrowAddress, store, config);
+
+    console.log(`Indexing ConfidentialOtcEscrowWithOZ at ${config.escrowAddress} from ${config.rpcUrl} into ${config.dbPath}`);
+
+    const server = createApi(store);
+    server.listen(config.port, () => console.log(`API listening on http://localhost:${config.port}`));
+
+    const stop = new AbortController();
+    const shutdown = () => {
+        console.log("Shutting down...");
+        stop.abort();
+        server.close();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    await indexer.run(stop.signal);
+    provider.destroy();
+    store.close();
+}
+
+if (require.main === module) {
+    main().catch((err) => {
+        console.error(err);
+        process.exit(1);
+    });
+}
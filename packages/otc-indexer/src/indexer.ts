@@ -0,0 +1,204 @@
+import { ethers } from "ethers";
+import { ESCROW_ABI, ORDER_EVENTS, type OrderEventName } from "./abi";
+import type { EventRow, FillRow, OrderRow, OrderStore } from "./store";
+
+export type IndexerOptions = {
+    startBlock: number; // first block scanned when the store is empty
+    confirmations: number; // blocks kept between the chain head and the indexed block
+    reorgDepth: number; // block hashes kept to detect reorgs; deeper reorgs need a replay
+    batchSize: number; // blocks per getLogs call
+    pollIntervalMs: number;
+};
+
+export const DEFAULT_INDEXER_OPTIONS: IndexerOptions = {
+    startBlock: 0,
+    confirmations: 0,
+    reorgDepth: 64,
+    batchSize: 2_000,
+    pollIntervalMs: 4_000,
+};
+
+/**
+ * Follows the escrow's order events into an OrderStore. Each batch of logs is stored together with fresh
+ * snapshots of the orders it touched (read through `orders` / `getFills`), so the store always holds the
+ * on-chain state of every indexed order. Reorgs are detected by comparing stored block hashes with the chain:
+ * everything after the fork point is dropped and re-indexed.
+ */
+export class OrderIndexer {
+    private readonly escrow: ethers.Contract;
+    private readonly topics: string[];
+    private readonly options: IndexerOptions;
+
+    constructor(
+        private readonly provider: ethers.Provider,
+        escrowAddress: string,
+        private readonly store: OrderStore,
+        options: Partial<IndexerOptions> = {},
+    ) {
+        this.escrow = new ethers.Contract(escrowAddress, ESCROW_ABI, provider);
+        this.topics = ORDER_EVENTS.map((name) => this.escrow.interface.getEvent(name)!.topicHash);
+        this.options = { ...DEFAULT_INDEXER_OPTIONS, ...options };
+    }
+
+    // Indexes up to the confirmed head and returns the last indexed block (null if nothing was indexable yet)
+    async syncOnce(): Promise<number | null> {
+        const head = await this.provider.getBlockNumber();
+        const target = head - this.options.confirmations;
+
+        let last = this.store.lastIndexedBlock();
+        const dirty = new Set<number>();
+
+        if (last !== null) {
+            const forkPoint = await this.findForkPoint(last);
+            if (forkPoint < last) {
+                console.log(`Reorg detected: rolling back from block ${last} to ${forkPoint}`);
+                for (const id of this.store.rollbackTo(forkPoint)) dirty.add(id);
+                last = forkPoint;
+            }
+        }
+
+        const from = last === null ? this.options.startBlock : last + 1;
+        if (from > target) {
+            if (dirty.size > 0) await this.saveBatch([], dirty, last!, target);
+            return last;
+        }
+
+        for (let start = from; start <= target; start += this.options.batchSize) {
+            const end = Math.min(target, start + this.options.batchSize - 1);
+            const logs = await this.provider.getLogs({
+                address: await this.escrow.getAddress(),
+                topics: [this.topics],
+                fromBlock: start,
+                toBlock: end,
+            });
+
+            const events = logs.map((log) => this.toEvent(log)).filter((e): e is EventRow => e !== null);
+            for (const event of events) dirty.add(event.orderId);
+
+            await this.saveBatch(events, dirty, end, target, logs);
+            dirty.clear();
+        }
+
+        return target;
+    }
+
+    // Polls until `signal` aborts; errors are logged and retried on the next tick
+    async run(signal: AbortSignal) {
+        while (!signal.aborted) {
+            try {
+                const indexed = await this.syncOnce();
+                if (indexed !== null) console.log(`Indexed up to block ${indexed}`);
+            } catch (err) {
+                console.error("Indexing failed, retrying:", err);
+            }
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, this.options.pollIntervalMs);
+                signal.addEventListener("abort", () => {
+                    clearTimeout(timer);
+                    resolve();
+                }, { once: true });
+            });
+        }
+    }
+
+    // Highest indexed block whose stored hash still matches the chain. Blocks without a stored hash
+    // (pruned, or outside the window) are trusted.
+    private async findForkPoint(last: number): Promise<number> {
+        const floor = Math.max(this.options.startBlock - 1, last - this.options.reorgDepth);
+        for (let n = last; n > floor; n--) {
+            const stored = this.store.blockHash(n);
+            if (stored === undefined) return n;
+
+            const block = await this.provider.getBlock(n);
+            if (block?.hash === stored) return n;
+        }
+        return floor;
+    }
+
+    private toEvent(log: ethers.Log): EventRow | null {
+        const parsed = this.escrow.interface.parseLog(log);
+        if (!parsed) return null;
+
+        const type = parsed.name as OrderEventName;
+        return {
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            txHash: log.transactionHash,
+            type,
+            orderId: Number(parsed.args.id),
+            account: type === "OrderCreated" ? parsed.args.maker : parsed.args.taker ?? null,
+            fillIndex: parsed.args.fillIndex !== undefined ? Number(parsed.args.fillIndex) : null,
+        };
+    }
+
+    // Reads the touched orders at `target` and stores them with the batch's events, block hashes and cursor
+    // in one transaction, so a crash never leaves events without their order snapshots.
+    private async saveBatch(events: EventRow[], dirty: Set<number>, end: number, target: number, logs: ethers.Log[] = []) {
+        const snapshots = await Promise.all([...dirty].map((id) => this.readOrder(id, target)));
+
+        // Hashes of the blocks a reorg could still replace, plus those holding events
+        const hashes = new Map<number, string>();
+        for (const log of logs) hashes.set(log.blockNumber, log.blockHash);
+        for (let n = Math.max(end - this.options.reorgDepth + 1, 0); n <= end; n++) {
+            if (n < target - this.options.reorgDepth || hashes.has(n) || this.store.blockHash(n) !== undefined) continue;
+            const block = await this.provider.getBlock(n);
+            if (block?.hash) hashes.set(n, block.hash);
+        }
+
+        this.store.db.transaction(() => {
+            for (const event of events) this.store.insertEvent(event);
+            for (const [n, hash] of hashes) this.store.recordBlock(n, hash);
+
+            for (const [i, id] of [...dirty].entries()) {
+                const snapshot = snapshots[i];
+                if (snapshot === null) {
+                    this.store.deleteOrder(id);
+                } else {
+                    snapshot.order.createdTxHash = this.store.creationTxHash(id);
+                    this.store.saveOrder(snapshot.order, snapshot.fills);
+                }
+            }
+
+            this.store.pruneBlocks(target - this.options.reorgDepth);
+            this.store.setLastIndexedBlock(end);
+        })();
+    }
+
+    // null when no order exists under `id` at `blockTag` (e.g. its creation was reorged out)
+    private async readOrder(id: number, blockTag: number): Promise<{ order: OrderRow; fills: FillRow[] } | null> {
+        const o = await this.escrow.orders(id, { blockTag });
+        if (o.maker === ethers.ZeroAddress) return null;
+
+        const fills = await this.escrow.getFills(id, { blockTag });
+        return {
+            order: {
+                id,
+                maker: o.maker,
+                tokenIn: o.tokenIn,
+                tokenOut: o.tokenOut,
+                amountInEnc: o.amountInEnc,
+                amountOutEnc: o.amountOutEnc,
+                takerEnc: o.takerEnc,
+                deadline: Number(o.deadline),
+                cancelled: o.cancelled,
+                remainingOutEnc: o.remainingOutEnc,
+                settledFills: Number(o.settledFills),
+                reservedBy: o.reservedBy,
+                reservedUntil: Number(o.reservedUntil),
+                feeBps: Number(o.feeBps),
+                createdAt: Number(o.createdAt),
+                createdBlock: Number(o.createdBlock),
+                createdTxHash: null,
+                pricedOutEnc: o.pricedOutEnc,
+            },
+            fills: fills.map((f: any, index: number) => ({
+                orderId: id,
+                index,
+                taker: f.taker,
+                payEnc: f.payEnc,
+                receivedEnc: f.receivedEnc,
+                settled: f.settled,
+            })),
+        };
+    }
+}
@@ -0,0 +1,320 @@
+import Database from "better-sqlite3";
+import type { OrderEventName } from "./abi";
+
+// Mirrors the escrow's Order struct; handles are kept as bytes32 hex so clients can decrypt them
+export type OrderRow = {
+    id: number;
+    maker: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountInEnc: string;
+    amountOutEnc: string;
+    takerEnc: string;
+    deadline: number;
+    cancelled: boolean;
+    remainingOutEnc: string;
+    settledFills: number;
+    reservedBy: string;
+    reservedUntil: number;
+    feeBps: number;
+    createdAt: number; // unix seconds
+    createdBlock: number;
+    createdTxHash: string | null;
+    pricedOutEnc: string; // amountOut the price was last set against
+};
+
+export type FillRow = {
+    orderId: number;
+    index: number;
+    taker: string;
+    payEnc: string;
+    receivedEnc: string;
+    settled: boolean;
+};
+
+export type EventRow = {
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+    type: OrderEventName;
+    orderId: number;
+    account: string | null; // maker for OrderCreated, taker for fill events
+    fillIndex: number | null;
+};
+
+export type OrderStatus = "active" | "cancelled" | "expired";
+
+export type Stats = {
+    orders: number;
+    openOrders: number;
+    makers: number;
+    fills: number;
+    settledFills: number;
+    takers: number;
+    lastIndexedBlock: number | null;
+};
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    type TEXT NOT NULL,
+    order_id INTEGER NOT NULL,
+    account TEXT,
+    fill_index INTEGER,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_order ON events (order_id);
+CREATE TABLE IF NOT EXISTS orders (
+    id INTEGER PRIMARY KEY,
+    maker TEXT NOT NULL,
+    token_in TEXT NOT NULL,
+    token_out TEXT NOT NULL,
+    amount_in_enc TEXT NOT NULL,
+    amount_out_enc TEXT NOT NULL,
+    taker_enc TEXT NOT NULL,
+    deadline INTEGER NOT NULL,
+    cancelled INTEGER NOT NULL,
+    remaining_out_enc TEXT NOT NULL,
+    settled_fills INTEGER NOT NULL,
+    reserved_by TEXT NOT NULL,
+    reserved_until INTEGER NOT NULL,
+    fee_bps INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    created_block INTEGER NOT NULL,
+    created_tx_hash TEXT,
+    priced_out_enc TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS orders_maker ON orders (maker COLLATE NOCASE);
+CREATE TABLE IF NOT EXISTS fills (
+    order_id INTEGER NOT NULL,
+    fill_index INTEGER NOT NULL,
+    taker TEXT NOT NULL,
+    pay_enc TEXT NOT NULL,
+    received_enc TEXT NOT NULL,
+    settled INTEGER NOT NULL,
+    PRIMARY KEY (order_id, fill_index)
+);
+`;
+
+const ORDER_COLUMNS = `
+    id, maker, token_in AS tokenIn, token_out AS tokenOut, amount_in_enc AS amountInEnc,
+    amount_out_enc AS amountOutEnc, taker_enc AS takerEnc, deadline, cancelled, remaining_out_enc AS remainingOutEnc,
+    settled_fills AS settledFills, reserved_by AS reservedBy, reserved_until AS reservedUntil, fee_bps AS feeBps,
+    created_at AS createdAt, created_block AS createdBlock, created_tx_hash AS createdTxHash,
+    priced_out_enc AS pricedOutEnc
+`;
+
+// SQL condition per status, evaluated against the current time (?) since orders expire without an event
+const STATUS_FILTERS: Record<OrderStatus, string> = {
+    active: "cancelled = 0 AND deadline >= ?",
+    cancelled: "cancelled = 1",
+    expired: "cancelled = 0 AND deadline < ?",
+};
+
+function toOrder(row: any): OrderRow {
+    return { ...row, cancelled: row.cancelled === 1 };
+}
+
+function toFill(row: any): FillRow {
+    return { ...row, settled: row.settled === 1 };
+}
+
+/**
+ * SQLite persistence for the indexer: order and fill snapshots, the raw order events and the hashes of
+ * indexed blocks (used to detect reorgs). Pass ":memory:" for a throwaway store.
+ */
+export class OrderStore {
+    readonly db: Database.Database;
+
+    constructor(path: string) {
+        this.db = new Database(path);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    // ----------------------
+    // Indexing state
+    // ----------------------
+    getMeta(key: string): string | undefined {
+        const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+        return row?.value;
+    }
+
+    setMeta(key: string, value: string) {
+        this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+            .run(key, value);
+    }
+
+    // Last block whose events are stored, or null before the first sync
+    lastIndexedBlock(): number | null {
+        const value = this.getMeta("lastIndexedBlock");
+        return value === undefined ? null : Number(value);
+    }
+
+    setLastIndexedBlock(blockNumber: number) {
+        this.setMeta("lastIndexedBlock", blockNumber.toString());
+    }
+
+    blockHash(blockNumber: number): string | undefined {
+        const row = this.db.prepare("SELECT hash FROM blocks WHERE number = ?").get(blockNumber) as { hash: string } | undefined;
+        return row?.hash;
+    }
+
+    recordBlock(blockNumber: number, hash: string) {
+        this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)").run(blockNumber, hash);
+    }
+
+    // Keeps block hashes only as far back as a reorg can reach
+    pruneBlocks(belowBlock: number) {
+        this.db.prepare("DELETE FROM blocks WHERE number < ?").run(belowBlock);
+    }
+
+    /**
+     * Drops everything indexed after `blockNumber` (events, block hashes, orders created later) and returns
+     * the ids of the surviving orders the dropped events touched, so their snapshots can be re-read.
+     */
+    rollbackTo(blockNumber: number): number[] {
+        return this.db.transaction(() => {
+            const touched = this.db
+                .prepare("SELECT DISTINCT order_id AS id FROM events WHERE block_number > ?")
+                .all(blockNumber) as { id: number }[];
+
+            this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+            this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+            const dropped = this.db.prepare("SELECT id FROM orders WHERE created_block > ?").all(blockNumber) as { id: number }[];
+            for (const { id } of dropped) {
+                this.deleteOrder(id);
+            }
+            this.setLastIndexedBlock(blockNumber);
+
+            const droppedIds = new Set(dropped.map((o) => o.id));
+            return touched.map((t) => t.id).filter((id) => !droppedIds.has(id));
+        })();
+    }
+
+    // Forgets everything, for a replay from a given block
+    reset() {
+        this.db.exec("DELETE FROM meta; DELETE FROM blocks; DELETE FROM events; DELETE FROM orders; DELETE FROM fills;");
+    }
+
+    // ----------------------
+    // Writes
+    // ----------------------
+    insertEvent(event: EventRow) {
+        this.db.prepare(`
+            INSERT OR REPLACE INTO events (block_number, log_index, tx_hash, type, order_id, account, fill_index)
+            VALUES (@blockNumber, @logIndex, @txHash, @type, @orderId, @account, @fillIndex)
+        `).run(event);
+    }
+
+    // Replaces the order snapshot and its fills
+    saveOrder(order: OrderRow, fills: FillRow[]) {
+        this.db.transaction(() => {
+            this.db.prepare(`
+                INSERT OR REPLACE INTO orders (
+                    id, maker, token_in, token_out, amount_in_enc, amount_out_enc, taker_enc, deadline, cancelled,
+                    remaining_out_enc, settled_fills, reserved_by, reserved_until, fee_bps, created_at, created_block,
+                    created_tx_hash, priced_out_enc
+                ) VALUES (
+                    @id, @maker, @tokenIn, @tokenOut, @amountInEnc, @amountOutEnc, @takerEnc, @deadline, @cancelled,
+                    @remainingOutEnc, @settledFills, @reservedBy, @reservedUntil, @feeBps, @createdAt, @createdBlock,
+                    @createdTxHash, @pricedOutEnc
+                )
+            `).run({ ...order, cancelled: order.cancelled ? 1 : 0 });
+
+            this.db.prepare("DELETE FROM fills WHERE order_id = ?").run(order.id);
+            const insertFill = this.db.prepare(`
+                INSERT INTO fills (order_id, fill_index, taker, pay_enc, received_enc, settled)
+                VALUES (@orderId, @index, @taker, @payEnc, @receivedEnc, @settled)
+            `);
+            for (const fill of fills) {
+                insertFill.run({ ...fill, settled: fill.settled ? 1 : 0 });
+            }
+        })();
+    }
+
+    deleteOrder(id: number) {
+        this.db.prepare("DELETE FROM orders WHERE id = ?").run(id);
+        this.db.prepare("DELETE FROM fills WHERE order_id = ?").run(id);
+    }
+
+    // ----------------------
+    // Queries
+    // ----------------------
+    // Orders newest first, optionally restricted to a maker and/or a status at `now` (unix seconds)
+    listOrders(options: { maker?: string; status?: OrderStatus; offset: number; limit: number; now: number }) {
+        const where: string[] = [];
+        const params: (string | number)[] = [];
+        if (options.maker) {
+            where.push("maker = ? COLLATE NOCASE");
+            params.push(options.maker);
+        }
+        if (options.status) {
+            where.push(STATUS_FILTERS[options.status]);
+            if (options.status !== "cancelled") params.push(options.now);
+        }
+        const clause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+
+        const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM orders ${clause}`).get(...params) as { total: number };
+        const rows = this.db
+            .prepare(`SELECT ${ORDER_COLUMNS} FROM orders ${clause} ORDER BY id DESC LIMIT ? OFFSET ?`)
+            .all(...params, options.limit, options.offset);
+
+        return { orders: rows.map(toOrder), total };
+    }
+
+    getOrder(id: number): OrderRow | undefined {
+        const row = this.db.prepare(`SELECT ${ORDER_COLUMNS} FROM orders WHERE id = ?`).get(id);
+        return row ? toOrder(row) : undefined;
+    }
+
+    getFills(orderId: number): FillRow[] {
+        const rows = this.db.prepare(`
+            SELECT order_id AS orderId, fill_index AS "index", taker, pay_enc AS payEnc, received_enc AS receivedEnc, settled
+            FROM fills WHERE order_id = ? ORDER BY fill_index
+        `).all(orderId);
+        return rows.map(toFill);
+    }
+
+    creationTxHash(orderId: number): string | null {
+        const row = this.db
+            .prepare("SELECT tx_hash AS txHash FROM events WHERE order_id = ? AND type = 'OrderCreated'")
+            .get(orderId) as { txHash: string } | undefined;
+        return row?.txHash ?? null;
+    }
+
+    getEvents(orderId: number): EventRow[] {
+        return this.db.prepare(`
+            SELECT block_number AS blockNumber, log_index AS logIndex, tx_hash AS txHash, type, order_id AS orderId,
+                account, fill_index AS fillIndex
+            FROM events WHERE order_id = ? ORDER BY block_number, log_index
+        `).all(orderId) as EventRow[];
+    }
+
+    stats(now: number): Stats {
+        const count = (sql: string, ...params: number[]) => (this.db.prepare(sql).get(...params) as { n: number }).n;
+        return {
+            orders: count("SELECT COUNT(*) AS n FROM orders"),
+            openOrders: count(`SELECT COUNT(*) AS n FROM orders WHERE ${STATUS_FILTERS.active}`, now),
+            makers: count("SELECT COUNT(DISTINCT lower(maker)) AS n FROM orders"),
+            fills: count("SELECT COUNT(*) AS n FROM fills"),
+            settledFills: count("SELECT COUNT(*) AS n FROM fills WHERE settled = 1"),
+            takers: count("SELECT COUNT(DISTINCT lower(taker)) AS n FROM fills"),
+            lastIndexedBlock: this.lastIndexedBlock(),
+        };
+    }
+}
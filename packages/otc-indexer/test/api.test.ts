@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { createApi } from "../src/api";
+import { OrderStore, type OrderRow } from "../src/store";
+
+const NOW = 1_700_000_000;
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+const HANDLE = "0x" + "00".repeat(31) + "01";
+
+function order(id: number, maker: string, overrides: Partial<OrderRow> = {}): OrderRow {
+    return {
+        id,
+        maker,
+        tokenIn: ALICE,
+        tokenOut: BOB,
+        amountInEnc: HANDLE,
+        amountOutEnc: HANDLE,
+        takerEnc: HANDLE,
+        deadline: NOW + 3600,
+        cancelled: false,
+        remainingOutEnc: HANDLE,
+        settledFills: 0,
+        reservedBy: "0x0000000000000000000000000000000000000000",
+        reservedUntil: 0,
+        feeBps: 0,
+        createdAt: NOW - 60,
+        createdBlock: id + 1,
+        createdTxHash: null,
+        pricedOutEnc: HANDLE,
+        ...overrides,
+    };
+}
+
+describe("API", () => {
+    let store: OrderStore;
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        store = new OrderStore(":memory:");
+        store.saveOrder(order(0, ALICE), [
+            { orderId: 0, index: 0, taker: BOB, payEnc: HANDLE, receivedEnc: HANDLE, settled: true },
+        ]);
+        store.saveOrder(order(1, BOB, { cancelled: true }), []);
+        store.saveOrder(order(2, ALICE, { deadline: NOW - 1 }), []);
+        store.insertEvent({ blockNumber: 1, logIndex: 0, txHash: HANDLE, type: "OrderCreated", orderId: 0, account: ALICE, fillIndex: null });
+        store.setLastIndexedBlock(3);
+
+        server = createApi(store, () => NOW);
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        store.close();
+    });
+
+    const get = async (path: string) => {
+        const res = await fetch(baseUrl + path);
+        return { status: res.status, body: (await res.json()) as any };
+    };
+
+    it("lists orders newest first with paging and status filters", async () => {
+        const all = await get("/orders?limit=2");
+        expect(all.status).toBe(200);
+        expect(all.body.total).toBe(3);
+        expect(all.body.orders.map((o: OrderRow) => o.id)).toEqual([2, 1]);
+
+        const active = await get("/orders?status=active");
+        expect(active.body.orders.map((o: OrderRow) => o.id)).toEqual([0]);
+        expect(active.body.orders[0].fills).toHaveLength(1);
+        const expired = await get("/orders?status=expired");
+        expect(expired.body.orders.map((o: OrderRow) => o.id)).toEqual([2]);
+    });
+
+    it("returns an order with its fills and events", async () => {
+        const { status, body } = await get("/orders/0");
+        expect(status).toBe(200);
+        expect(body.maker).toBe(ALICE);
+        expect(body.pricedOutEnc).toBe(HANDLE);
+        expect(body.fills).toHaveLength(1);
+        expect(body.events[0].type).toBe("OrderCreated");
+
+        expect((await get("/orders/7")).status).toBe(404);
+    });
+
+    it("lists a maker's orders regardless of address case", async () => {
+        const { body } = await get(`/makers/${ALICE.toUpperCase().replace("0X", "0x")}/orders`);
+        expect(body.orders.map((o: OrderRow) => o.id)).toEqual([2, 0]);
+    });
+
+    it("reports stats and rejects bad input", async () => {
+        const { body } = await get("/stats");
+        expect(body).toEqual({ orders: 3, openOrders: 1, makers: 2, fills: 1, settledFills: 1, takers: 1, lastIndexedBlock: 3 });
+
+        expect((await get("/orders?limit=1000")).status).toBe(400);
+        expect((await get("/orders?status=filled")).status).toBe(400);
+        expect((await get("/makers/alice/orders")).status).toBe(400);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ethers } from "ethers";
+import { ESCROW_ABI } from "../src/abi";
+import { OrderIndexer } from "../src/indexer";
+import { OrderStore } from "../src/store";
+
+const ESCROW = ethers.getAddress("0x00000000000000000000000000000000000e5c40");
+const MAKER = ethers.getAddress("0x00000000000000000000000000000000000000a1");
+const TAKER = ethers.getAddress("0x00000000000000000000000000000000000000b2");
+const TOKEN = ethers.getAddress("0x00000000000000000000000000000000000000c3");
+const HANDLE = ethers.zeroPadValue("0x01", 32);
+
+const iface = new ethers.Interface(ESCROW_ABI);
+
+type FakeOrder = { maker: string; cancelled: boolean; deadline?: number; fills: { taker: string; settled: boolean }[] };
+
+// Just enough of an ethers provider for the indexer: blocks with hashes and escrow logs, and the current
+// escrow state behind `orders` / `getFills` (block tags are ignored)
+class FakeChain {
+    blocks: { hash: string; logs: { name: string; args: unknown[] }[] }[] = [];
+    orders = new Map<number, FakeOrder>();
+    private fork = 0;
+
+    mine(...logs: { name: string; args: unknown[] }[]) {
+        this.blocks.push({ hash: ethers.id(`${this.blocks.length}-${this.fork}`), logs });
+    }
+
+    // Replaces every block from `blockNumber` on, like a reorg onto another branch
+    reorgFrom(blockNumber: number) {
+        this.fork++;
+        this.blocks = this.blocks.slice(0, blockNumber);
+    }
+
+    async getBlockNumber() {
+        return this.blocks.length - 1;
+    }
+
+    async getBlock(n: number) {
+        return this.blocks[n] ? { number: n, hash: this.blocks[n].hash } : null;
+    }
+
+    async getLogs(filter: { fromBlock: number; toBlock: number }) {
+        const logs: ethers.Log[] = [];
+        for (let n = filter.fromBlock; n <= filter.toBlock && n < this.blocks.length; n++) {
+            this.blocks[n].logs.forEach(({ name, args }, index) => {
+                const { data, topics } = iface.encodeEventLog(name, args);
+                logs.push({
+                    address: ESCROW,
+                    blockNumber: n,
+                    blockHash: this.blocks[n].hash,
+                    transactionHash: ethers.id(`tx-${n}-${index}-${this.fork}`),
+                    index,
+                    data,
+                    topics,
+                } as unknown as ethers.Log);
+            });
+        }
+        return logs;
+    }
+
+    async call(tx: { data: string }) {
+        const parsed = iface.parseTransaction(tx)!;
+        const id = Number(parsed.args[0]);
+        const order = this.orders.get(id);
+
+        if (parsed.name === "getFills") {
+            return iface.encodeFunctionResult("getFills", [
+                (order?.fills ?? []).map((f) => [f.taker, HANDLE, HANDLE, HANDLE, f.settled]),
+            ]);
+        }
+        return iface.encodeFunctionResult("orders", [[
+            order?.maker ?? ethers.ZeroAddress, TOKEN, TOKEN, HANDLE, HANDLE, HANDLE, order?.deadline ?? 2_000_000_000, order?.cancelled ?? false,
+            HANDLE, order?.fills.filter((f) => f.settled).length ?? 0, ethers.ZeroAddress, 0, 0, 1_700_000_000, 1, HANDLE,
+        ]]);
+    }
+}
+
+function created(id: number) {
+    return { name: "OrderCreated", args: [id, MAKER, TOKEN, TOKEN, 2_000_000_000, 1_700_000_000, 1] };
+}
+
+describe("OrderIndexer", () => {
+    let chain: FakeChain;
+    let store: OrderStore;
+    let indexer: OrderIndexer;
+
+    beforeEach(() => {
+        chain = new FakeChain();
+        store = new OrderStore(":memory:");
+        indexer = new OrderIndexer(chain as unknown as ethers.Provider, ESCROW, store, { reorgDepth: 8, batchSize: 3 });
+    });
+
+    afterEach(() => {
+        store.close();
+    });
+
+    it("stores orders, fills and events up to the head", async () => {
+        chain.orders.set(0, { maker: MAKER, cancelled: false, fills: [{ taker: TAKER, settled: true }] });
+        chain.mine();
+        chain.mine(created(0));
+        chain.mine({ name: "FillRequested", args: [0, TAKER, 0] });
+        chain.mine();
+        chain.mine({ name: "OrderFinalized", args: [0, TAKER, 0, 1_700_000_000, 1] });
+
+        expect(await indexer.syncOnce()).toBe(4);
+
+        const order = store.getOrder(0)!;
+        expect(order.maker).toBe(MAKER);
+        expect(order.settledFills).toBe(1);
+        expect(order.pricedOutEnc).toBe(HANDLE);
+        expect(order.createdTxHash).toBe(ethers.id("tx-1-0-0"));
+        expect(store.getFills(0)).toEqual([
+            { orderId: 0, index: 0, taker: TAKER, payEnc: HANDLE, receivedEnc: HANDLE, settled: true },
+        ]);
+        expect(store.getEvents(0).map((e) => e.type)).toEqual(["OrderCreated", "FillRequested", "OrderFinalized"]);
+    });
+
+    it("drops orders created on an orphaned branch and re-reads the ones it touched", async () => {
+        chain.orders.set(0, { maker: MAKER, cancelled: false, fills: [] });
+        chain.mine(created(0));
+        chain.mine();
+        chain.orders.set(0, { maker: MAKER, cancelled: true, fills: [] });
+        chain.orders.set(1, { maker: MAKER, cancelled: false, fills: [] });
+        chain.mine({ name: "OrderCancelled", args: [0] }, created(1));
+        await indexer.syncOnce();
+        expect(store.getOrder(0)!.cancelled).toBe(true);
+        expect(store.getOrder(1)).toBeDefined();
+
+        // Block 2 is replaced by an empty one: order #1 never existed and #0 was not cancelled
+        chain.reorgFrom(2);
+        chain.orders.set(0, { maker: MAKER, cancelled: false, fills: [] });
+        chain.orders.delete(1);
+        chain.mine();
+        chain.mine();
+
+        expect(await indexer.syncOnce()).toBe(3);
+        expect(store.getOrder(0)!.cancelled).toBe(false);
+        expect(store.getOrder(1)).toBeUndefined();
+        expect(store.getEvents(0).map((e) => e.type)).toEqual(["OrderCreated"]);
+        expect(store.blockHash(2)).toBe(chain.blocks[2].hash);
+    });
+
+    it("re-reads an amended order", async () => {
+        chain.orders.set(0, { maker: MAKER, cancelled: false, fills: [] });
+        chain.mine(created(0));
+        await indexer.syncOnce();
+
+        chain.orders.set(0, { maker: MAKER, cancelled: false, deadline: 2_000_086_400, fills: [] });
+        chain.mine({ name: "OrderAmended", args: [0, 2_000_086_400] });
+
+        expect(await indexer.syncOnce()).toBe(1);
+        expect(store.getOrder(0)!.deadline).toBe(2_000_086_400);
+        expect(store.getEvents(0).map((e) => e.type)).toEqual(["OrderCreated", "OrderAmended"]);
+    });
+
+    it("resumes from the last indexed block", async () => {
+        chain.orders.set(0, { maker: MAKER, cancelled: false, fills: [] });
+        chain.mine(created(0));
+        await indexer.syncOnce();
+
+        chain.orders.set(1, { maker: MAKER, cancelled: false, fills: [] });
+        chain.mine(created(1));
+        expect(await indexer.syncOnce()).toBe(1);
+        expect(store.stats(0).orders).toBe(2);
+        expect(store.getEvents(0)).toHaveLength(1);
+    });
+});
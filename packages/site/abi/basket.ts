@@ -0,0 +1,414 @@
+export const BASKET_ABI = [
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_escrow",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "inputs": [],
+        "name": "EnforcedPause",
+        "type": "error"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "taker",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "fillIndex",
+                "type": "uint256"
+            }
+        ],
+        "name": "BasketFilled",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "name": "BasketOrderCancelled",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "maker",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "address[]",
+                "name": "tokensIn",
+                "type": "address[]"
+            },
+            {
+                "indexed": false,
+                "internalType": "address[]",
+                "name": "tokensOut",
+                "type": "address[]"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint64",
+                "name": "deadline",
+                "type": "uint64"
+            }
+        ],
+        "name": "BasketOrderCreated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            }
+        ],
+        "name": "FeesWithdrawn",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "MAX_LEGS",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            }
+        ],
+        "name": "accruedFees",
+        "outputs": [
+            {
+                "internalType": "euint64",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "name": "basketOrder",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "address",
+                        "name": "maker",
+                        "type": "address"
+                    },
+                    {
+                        "components": [
+                            {
+                                "internalType": "address",
+                                "name": "token",
+                                "type": "address"
+                            },
+                            {
+                                "internalType": "euint64",
+                                "name": "amount",
+                                "type": "bytes32"
+                            }
+                        ],
+                        "internalType": "struct ConfidentialBasketEscrow.Leg[]",
+                        "name": "legsIn",
+                        "type": "tuple[]"
+                    },
+                    {
+                        "components": [
+                            {
+                                "internalType": "address",
+                                "name": "token",
+                                "type": "address"
+                            },
+                            {
+                                "internalType": "euint64",
+                                "name": "amount",
+                                "type": "bytes32"
+                            }
+                        ],
+                        "internalType": "struct ConfidentialBasketEscrow.Leg[]",
+                        "name": "legsOut",
+                        "type": "tuple[]"
+                    },
+                    {
+                        "internalType": "euint64[]",
+                        "name": "remainingOut",
+                        "type": "bytes32[]"
+                    },
+                    {
+                        "internalType": "uint16[]",
+                        "name": "feeBpsOut",
+                        "type": "uint16[]"
+                    },
+                    {
+                        "internalType": "eaddress",
+                        "name": "takerEnc",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "ebool",
+                        "name": "openEnc",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "uint64",
+                        "name": "deadline",
+                        "type": "uint64"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "cancelled",
+                        "type": "bool"
+                    }
+                ],
+                "internalType": "struct ConfidentialBasketEscrow.BasketOrder",
+                "name": "",
+                "type": "tuple"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "name": "cancelBasketOrder",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address[]",
+                "name": "tokensIn",
+                "type": "address[]"
+            },
+            {
+                "internalType": "externalEuint64[]",
+                "name": "amountsInExt",
+                "type": "bytes32[]"
+            },
+            {
+                "internalType": "address[]",
+                "name": "tokensOut",
+                "type": "address[]"
+            },
+            {
+                "internalType": "externalEuint64[]",
+                "name": "amountsOutExt",
+                "type": "bytes32[]"
+            },
+            {
+                "internalType": "externalEaddress",
+                "name": "takerExt",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "attestation",
+                "type": "bytes"
+            },
+            {
+                "internalType": "uint64",
+                "name": "deadline",
+                "type": "uint64"
+            }
+        ],
+        "name": "createBasketOrder",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "escrow",
+        "outputs": [
+            {
+                "internalType": "contract IOtcEscrowPolicy",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            },
+            {
+                "internalType": "externalEuint64[]",
+                "name": "paysExt",
+                "type": "bytes32[]"
+            },
+            {
+                "internalType": "bytes",
+                "name": "attestation",
+                "type": "bytes"
+            }
+        ],
+        "name": "fillBasketOrder",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "fillIndex",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "name": "getBasketFills",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "address",
+                        "name": "taker",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "ebool",
+                        "name": "filledEnc",
+                        "type": "bytes32"
+                    }
+                ],
+                "internalType": "struct ConfidentialBasketEscrow.BasketFill[]",
+                "name": "",
+                "type": "tuple[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "id",
+                "type": "uint256"
+            }
+        ],
+        "name": "isOpen",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextBasketId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            }
+        ],
+        "name": "withdrawFees",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    }
+] as const;
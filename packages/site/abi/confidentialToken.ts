@@ -0,0 +1,208 @@
+// The parts of ConfidentialTokenExample (ERC-7984) the site uses; mint is owner only
+export const CONFIDENTIAL_TOKEN_ABI = [
+    {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "decimals",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "account",
+                "type": "address"
+            }
+        ],
+        "name": "confidentialBalanceOf",
+        "outputs": [
+            {
+                "internalType": "euint64",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "encryptedAmount",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "confidentialTransfer",
+        "outputs": [
+            {
+                "internalType": "euint64",
+                "name": "transferred",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "from",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "encryptedAmount",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "confidentialTransferFrom",
+        "outputs": [
+            {
+                "internalType": "euint64",
+                "name": "transferred",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "operator",
+                "type": "address"
+            },
+            {
+                "internalType": "uint48",
+                "name": "until",
+                "type": "uint48"
+            }
+        ],
+        "name": "setOperator",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "holder",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "spender",
+                "type": "address"
+            }
+        ],
+        "name": "isOperator",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "amount",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "mint",
+        "outputs": [
+            {
+                "internalType": "euint64",
+                "name": "minted",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    }
+] as const;
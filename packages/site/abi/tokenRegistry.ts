@@ -0,0 +1,46 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+  Edit config/tokens.json to add tokens.
+*/
+import type { TokenRegistry } from "@/lib/tokens";
+
+export const TOKEN_REGISTRY: TokenRegistry = {
+  "31337": [
+    {
+      "chainId": 31337,
+      "decimals": 6,
+      "address": "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+      "name": "Token In",
+      "symbol": "TIN",
+      "icon": "🔵"
+    },
+    {
+      "chainId": 31337,
+      "decimals": 6,
+      "address": "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+      "name": "Token Out",
+      "symbol": "TOUT",
+      "icon": "🟠"
+    },
+    {
+      "chainId": 31337,
+      "decimals": 6,
+      "address": "0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9",
+      "name": "Test Confidential Token",
+      "symbol": "TCT",
+      "icon": "🪙"
+    }
+  ],
+  "11155111": [
+    {
+      "chainId": 11155111,
+      "decimals": 6,
+      "address": "0xcde70d205f9D467CFA1fC46b45C45a30E651E172",
+      "name": "Demo Confidential Token",
+      "symbol": "DCT",
+      "icon": "🪙"
+    }
+  ]
+};
@@ -9,6 +9,9 @@ export default function Home() {
       {/* OTC Demo */}
       <OTCDemo
         otcAddress={DEMO_CONFIG.otcAddress}
+        basketAddress={DEMO_CONFIG.basketAddress}
+        otcStartBlock={DEMO_CONFIG.otcStartBlock}
+        indexerUrl={DEMO_CONFIG.indexerUrl}
         gatewayAddress={DEMO_CONFIG.gatewayAddress}
         tokenIn={DEMO_CONFIG.tokenIn}
         tokenOut={DEMO_CONFIG.tokenOut}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { OTC_ABI } from "@/abi/otc";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useEscrowRoles } from "@/hooks/useEscrowRoles";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Props = {
+    otcAddress: string;
+};
+
+const ROLE_OPTIONS = [
+    { value: "DEFAULT_ADMIN_ROLE", label: "Admin" },
+    { value: "GATEWAY_ROLE", label: "Gateway" },
+    { value: "PAUSER_ROLE", label: "Pauser" },
+    { value: "FEE_MANAGER_ROLE", label: "Fee Manager" },
+] as const;
+
+// Escrow administration, only rendered for accounts holding at least one role
+export function AdminPanel({ otcAddress }: Props) {
+    const { ethersSigner } = useMetaMaskEthersSigner();
+    const { roles, hasAnyRole, paused, error: rolesError, refreshRoles } = useEscrowRoles(otcAddress);
+
+    const [pending, setPending] = useState<string>("");
+    const [status, setStatus] = useState<string>("");
+    const [error, setError] = useState<string>("");
+
+    // Fee manager form
+    const [feeTokenIn, setFeeTokenIn] = useState<string>("");
+    const [feeTokenOut, setFeeTokenOut] = useState<string>("");
+    const [feeBps, setFeeBps] = useState<string>("0");
+    const [feeRecipient, setFeeRecipient] = useState<string>("");
+
+    // Admin form
+    const [roleName, setRoleName] = useState<(typeof ROLE_OPTIONS)[number]["value"]>("PAUSER_ROLE");
+    const [roleAccount, setRoleAccount] = useState<string>("");
+    const [gatewayAddress, setGatewayAddress] = useState<string>("");
+
+    if (!hasAnyRole) {
+        return null;
+    }
+
+    // Sends one escrow transaction and reports its outcome
+    const runTx = async (label: string, send: (contract: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+        if (!ethersSigner) return;
+
+        setPending(label);
+        setStatus("");
+        setError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const tx = await send(contract);
+            const receipt = await tx.wait();
+            setStatus(`${label} succeeded (tx ${receipt?.hash})`);
+            await refreshRoles();
+        } catch (err: any) {
+            console.error(`${label} failed:`, err);
+            setError(`${label} failed: ${err.reason || err.message}`);
+        } finally {
+            setPending("");
+        }
+    };
+
+    const onSetFee = (e: React.FormEvent) => {
+        e.preventDefault();
+        const bps = parseInt(feeBps);
+        if (!ethers.isAddress(feeTokenIn) || !ethers.isAddress(feeTokenOut) || !Number.isInteger(bps) || bps < 0 || bps > 1000) {
+            setError("Enter both token addresses and a fee between 0 and 1000 bps");
+            return;
+        }
+        runTx("Set pair fee", (contract) => contract.setPairFee(feeTokenIn, feeTokenOut, bps));
+    };
+
+    const onSetFeeRecipient = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ethers.isAddress(feeRecipient)) {
+            setError("Invalid fee recipient address");
+            return;
+        }
+        runTx("Set fee recipient", (contract) => contract.setFeeRecipient(feeRecipient));
+    };
+
+    const onChangeRole = async (grant: boolean) => {
+        if (!ethers.isAddress(roleAccount)) {
+            setError("Invalid account address");
+            return;
+        }
+        runTx(grant ? "Grant role" : "Revoke role", async (contract) => {
+            const role = await contract[roleName]();
+            return grant ? contract.grantRole(role, roleAccount) : contract.revokeRole(role, roleAccount);
+        });
+    };
+
+    // setGateway moves GATEWAY_ROLE from the current primary gateway to the new one
+    const onSetGateway = () => {
+        if (!ethers.isAddress(gatewayAddress)) {
+            setError("Invalid gateway address");
+            return;
+        }
+        runTx("Set gateway", (contract) => contract.setGateway(gatewayAddress));
+    };
+
+    const heldRoles = [
+        roles.admin && "Admin",
+        roles.gateway && "Gateway",
+        roles.pauser && "Pauser",
+        roles.feeManager && "Fee Manager",
+    ].filter(Boolean) as string[];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex flex-wrap gap-2">
+                    {heldRoles.map((role) => (
+                        <span key={role} className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium">
+                            {role.toUpperCase()}
+                        </span>
+                    ))}
+                </div>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium ${paused ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}`}>
+                    {paused ? "PAUSED" : "LIVE"}
+                </span>
+            </div>
+
+            {(error || rolesError) && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{error || rolesError}</p>
+                </div>
+            )}
+            {status && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+                    <p className="text-sm text-green-800 break-all">{status}</p>
+                </div>
+            )}
+
+            {roles.pauser && (
+                <Card>
+                    <CardContent className="p-4 flex items-center justify-between">
+                        <div>
+                            <h4 className="font-semibold text-gray-900">Pause</h4>
+                            <p className="text-sm text-gray-500">
+                                Blocks new orders, fills, edits and cancels. Makers pull their escrow with an emergency withdrawal instead.
+                            </p>
+                        </div>
+                        <Button
+                            onClick={() => runTx(paused ? "Unpause" : "Pause", (contract) => paused ? contract.unpause() : contract.pause())}
+                            variant={paused ? "default" : "outline"}
+                            size="sm"
+                            disabled={!!pending}
+                        >
+                            {pending === "Pause" || pending === "Unpause" ? "Sending..." : paused ? "Unpause" : "Pause"}
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
+            {roles.feeManager && (
+                <Card>
+                    <CardContent className="p-4 space-y-4">
+                        <h4 className="font-semibold text-gray-900">Fees</h4>
+                        <form onSubmit={onSetFee} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Token In</Label>
+                                <Input value={feeTokenIn} onChange={e => setFeeTokenIn(e.target.value)} placeholder="0x..." />
+                            </div>
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Token Out</Label>
+                                <Input value={feeTokenOut} onChange={e => setFeeTokenOut(e.target.value)} placeholder="0x..." />
+                            </div>
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Fee (bps)</Label>
+                                <Input value={feeBps} onChange={e => setFeeBps(e.target.value)} type="number" min="0" max="1000" />
+                            </div>
+                            <Button type="submit" size="sm" disabled={!!pending}>Set Pair Fee</Button>
+                        </form>
+                        <form onSubmit={onSetFeeRecipient} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                            <div className="md:col-span-3">
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Fee Recipient</Label>
+                                <Input value={feeRecipient} onChange={e => setFeeRecipient(e.target.value)} placeholder="0x..." />
+                            </div>
+                            <Button type="submit" size="sm" disabled={!!pending}>Set Recipient</Button>
+                        </form>
+                    </CardContent>
+                </Card>
+            )}
+
+            {roles.admin && (
+                <Card>
+                    <CardContent className="p-4 space-y-3">
+                        <h4 className="font-semibold text-gray-900">Roles</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Role</Label>
+                                <select
+                                    value={roleName}
+                                    onChange={(e) => setRoleName(e.target.value as typeof roleName)}
+                                    className="w-full h-9 px-3 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {ROLE_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Account</Label>
+                                <Input value={roleAccount} onChange={e => setRoleAccount(e.target.value)} placeholder="0x..." />
+                            </div>
+                            <div className="flex gap-2">
+                                <Button onClick={() => onChangeRole(true)} size="sm" disabled={!!pending}>Grant</Button>
+                                <Button onClick={() => onChangeRole(false)} variant="outline" size="sm" disabled={!!pending}>Revoke</Button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                            <div className="md:col-span-3">
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Primary Gateway</Label>
+                                <Input value={gatewayAddress} onChange={e => setGatewayAddress(e.target.value)} placeholder="0x..." />
+                            </div>
+                            <Button onClick={onSetGateway} variant="outline" size="sm" disabled={!!pending}>Set Gateway</Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
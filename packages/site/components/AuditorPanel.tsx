@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { OTC_ABI } from "@/abi/otc";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useAuditorView } from "@/hooks/useAuditorView";
+import { useFhevm } from "@/fhevm/useFhevm";
+
+type Props = {
+    otcAddress: `0x${string}`;
+    startBlock?: number; // first block scanned for AuditorGranted
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+const formatAmount = (value: bigint | undefined) => (value === undefined ? "🔒" : value.toString());
+
+// Makers grant auditors view keys on their orders; auditors decrypt everything granted to them in one go
+export function AuditorPanel({ otcAddress, startBlock = 0 }: Props) {
+    const { ethersSigner, ethersReadonlyProvider, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({
+        provider,
+        chainId,
+        enabled: !!provider
+    });
+    const { audited, loading, decrypting, error: auditError, refresh, decryptAll } =
+        useAuditorView(otcAddress, startBlock, fhevmInstance);
+
+    const [defaultAuditor, setDefaultAuditor] = useState<string>(ethers.ZeroAddress);
+    const [newDefaultAuditor, setNewDefaultAuditor] = useState<string>("");
+    const [grantOrderId, setGrantOrderId] = useState<string>("0");
+    const [grantAuditor, setGrantAuditor] = useState<string>("");
+    const [pending, setPending] = useState<string>("");
+    const [status, setStatus] = useState<string>("");
+    const [error, setError] = useState<string>("");
+
+    const account = ethersSigner?.address;
+
+    const loadDefaultAuditor = useCallback(async () => {
+        if (!account || !ethersReadonlyProvider) return;
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersReadonlyProvider);
+            setDefaultAuditor(await contract.defaultAuditor(account));
+        } catch (err: any) {
+            console.error("Failed to load the default auditor:", err);
+        }
+    }, [account, ethersReadonlyProvider, otcAddress]);
+
+    useEffect(() => {
+        loadDefaultAuditor();
+    }, [loadDefaultAuditor]);
+
+    // Sends one escrow transaction and reports its outcome
+    const runTx = async (label: string, send: (contract: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+        if (!ethersSigner) return;
+
+        setPending(label);
+        setStatus("");
+        setError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const tx = await send(contract);
+            const receipt = await tx.wait();
+            setStatus(`${label} succeeded (tx ${receipt?.hash})`);
+            await Promise.all([loadDefaultAuditor(), refresh()]);
+        } catch (err: any) {
+            console.error(`${label} failed:`, err);
+            setError(`${label} failed: ${err.reason || err.message}`);
+        } finally {
+            setPending("");
+        }
+    };
+
+    const onSetDefault = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ethers.isAddress(newDefaultAuditor)) {
+            setError("Invalid auditor address");
+            return;
+        }
+        runTx("Set default auditor", (contract) => contract.setDefaultAuditor(newDefaultAuditor));
+    };
+
+    const onGrant = (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = parseInt(grantOrderId);
+        if (!Number.isInteger(id) || id < 0 || !ethers.isAddress(grantAuditor)) {
+            setError("Enter an order ID and a valid auditor address");
+            return;
+        }
+        runTx("Grant auditor", (contract) => contract.grantAuditor(BigInt(id), grantAuditor));
+    };
+
+    const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent";
+    const buttonClass = "bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium";
+
+    return (
+        <div className="p-8">
+            <div className="max-w-5xl mx-auto space-y-8">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    {/* Maker: share orders with an auditor */}
+                    <div className="bg-white border border-gray-200 rounded-xl p-6 space-y-4">
+                        <div>
+                            <h4 className="text-xl font-semibold text-gray-900 mb-1">Share With an Auditor</h4>
+                            <p className="text-gray-600 text-sm">
+                                An auditor can decrypt the terms, the remaining amount and every settled fill of the
+                                orders you grant. Access to an order cannot be taken back once granted.
+                            </p>
+                        </div>
+
+                        <form onSubmit={onGrant} className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-700">Grant one of your orders</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                <input
+                                    value={grantOrderId}
+                                    onChange={e => setGrantOrderId(e.target.value)}
+                                    type="number"
+                                    min="0"
+                                    className={inputClass}
+                                    placeholder="Order ID"
+                                />
+                                <input
+                                    value={grantAuditor}
+                                    onChange={e => setGrantAuditor(e.target.value)}
+                                    className={`${inputClass} col-span-2`}
+                                    placeholder="Auditor 0x..."
+                                />
+                            </div>
+                            <button type="submit" disabled={!!pending} className={`w-full ${buttonClass}`}>
+                                {pending === "Grant auditor" ? "Granting..." : "Grant Auditor"}
+                            </button>
+                        </form>
+
+                        <form onSubmit={onSetDefault} className="space-y-2 pt-4 border-t border-gray-200">
+                            <label className="block text-sm font-medium text-gray-700">Default auditor for new orders</label>
+                            <p className="text-xs text-gray-500">
+                                Current: {defaultAuditor === ethers.ZeroAddress ? "none" : <code>{defaultAuditor}</code>}
+                            </p>
+                            <input
+                                value={newDefaultAuditor}
+                                onChange={e => setNewDefaultAuditor(e.target.value)}
+                                className={inputClass}
+                                placeholder="Auditor 0x..."
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                                <button type="submit" disabled={!!pending} className={buttonClass}>
+                                    {pending === "Set default auditor" ? "Saving..." : "Set Default"}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => runTx("Revoke default auditor", (contract) => contract.setDefaultAuditor(ethers.ZeroAddress))}
+                                    disabled={!!pending || defaultAuditor === ethers.ZeroAddress}
+                                    className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                                >
+                                    {pending === "Revoke default auditor" ? "Revoking..." : "Revoke"}
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500">Revoking only applies to orders created afterwards.</p>
+                        </form>
+
+                        {error && (
+                            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                                <p className="text-sm text-red-800">{error}</p>
+                            </div>
+                        )}
+                        {status && (
+                            <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+                                <p className="text-sm text-green-800 break-all">{status}</p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Auditor: decrypt everything granted */}
+                    <div className="bg-white border border-gray-200 rounded-xl p-6 space-y-4">
+                        <div>
+                            <h4 className="text-xl font-semibold text-gray-900 mb-1">Orders You Audit</h4>
+                            <p className="text-gray-600 text-sm">
+                                Orders whose maker granted this account. One signature decrypts all of them.
+                            </p>
+                        </div>
+
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">
+                                {loading ? "Loading granted orders..." : `${audited.length} order${audited.length === 1 ? "" : "s"} granted`}
+                            </span>
+                            <button onClick={refresh} className="text-blue-600 hover:underline">
+                                Refresh
+                            </button>
+                        </div>
+
+                        <button
+                            onClick={decryptAll}
+                            disabled={decrypting || fhevmStatus !== "ready" || audited.length === 0}
+                            className={`w-full ${buttonClass}`}
+                        >
+                            {fhevmStatus !== "ready" ? "Waiting for FHEVM..." : decrypting ? "Decrypting..." : "🔓 Decrypt All"}
+                        </button>
+
+                        {auditError && (
+                            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                                <p className="text-sm text-red-800">{auditError}</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {audited.length > 0 && (
+                    <div className="bg-white border border-gray-200 rounded-xl p-6 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-200">
+                                    <th className="py-2 pr-4">Order</th>
+                                    <th className="py-2 pr-4">Maker</th>
+                                    <th className="py-2 pr-4">Amount In</th>
+                                    <th className="py-2 pr-4">Amount Out</th>
+                                    <th className="py-2 pr-4">Priced Out</th>
+                                    <th className="py-2 pr-4">Remaining Out</th>
+                                    <th className="py-2 pr-4">Taker</th>
+                                    <th className="py-2">Fills (paid / received)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {audited.map(({ order, amountIn, amountOut, pricedOut, remainingOut, taker, fills }) => (
+                                    <tr key={order.id} className="border-b border-gray-100 align-top">
+                                        <td className="py-2 pr-4 font-medium">
+                                            #{order.id}
+                                            {order.cancelled && <span className="ml-1 text-xs text-gray-500">(closed)</span>}
+                                        </td>
+                                        <td className="py-2 pr-4 font-mono text-xs">{formatAddress(order.maker)}</td>
+                                        <td className="py-2 pr-4">
+                                            {formatAmount(amountIn)} <span className="font-mono text-xs text-gray-500">{formatAddress(order.tokenIn)}</span>
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            {formatAmount(amountOut)} <span className="font-mono text-xs text-gray-500">{formatAddress(order.tokenOut)}</span>
+                                        </td>
+                                        <td className="py-2 pr-4">{formatAmount(pricedOut)}</td>
+                                        <td className="py-2 pr-4">{formatAmount(remainingOut)}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs">
+                                            {taker === undefined ? "🔒" : taker === ethers.ZeroAddress ? "anyone" : formatAddress(taker)}
+                                        </td>
+                                        <td className="py-2 text-xs">
+                                            {fills.length === 0 && <span className="text-gray-500">none</span>}
+                                            {fills.map((fill) => (
+                                                <div key={fill.index}>
+                                                    #{fill.index} <span className="font-mono">{formatAddress(fill.taker)}</span>{" "}
+                                                    {fill.settled ? `${formatAmount(fill.paid)} / ${formatAmount(fill.received)}` : "pending"}
+                                                </div>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { useBasketOrders, type BasketLeg, type BasketOrder } from "@/hooks/useBasketOrders";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { BASKET_ABI } from "@/abi/basket";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildBasketInputs } from "@/lib/otcInputs";
+import { formatAmount, parseAmount } from "@/lib/amounts";
+import { tokenLabel } from "@/lib/tokens";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Props = {
+    basketAddress: string;
+};
+
+const STATUS_COLORS: Record<BasketOrder["status"], string> = {
+    active: "bg-green-100 text-green-800",
+    cancelled: "bg-red-100 text-red-800",
+    expired: "bg-gray-100 text-gray-800",
+};
+
+/**
+ * Baskets of the basket escrow: the legs on each side, their status and fills. Takers fill a whole basket,
+ * paying every tokenIn leg at once; makers decrypt and cancel their own baskets.
+ */
+export function BasketOrders({ basketAddress }: Props) {
+    const { ethersSigner, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({ provider, chainId, enabled: !!provider });
+    const { baskets, paused, loading, error, refreshBaskets, decryptBaskets, decrypting, clearValue } =
+        useBasketOrders(basketAddress, fhevmInstance);
+    const tokenDecimals = useTokenDecimals(baskets.flatMap((basket) => [...basket.legsIn, ...basket.legsOut].map((leg) => leg.token)));
+
+    const [filling, setFilling] = useState<BasketOrder | null>(null);
+    const [pays, setPays] = useState<string[]>([]);
+    const [pending, setPending] = useState<string>("");
+    const [actionError, setActionError] = useState<string>("");
+
+    const me = ethersSigner?.address.toLowerCase();
+
+    // "100 TKA", or the token alone while the amount is encrypted
+    const legLabel = (leg: BasketLeg, handle: string = leg.amountEnc) => {
+        const clear = clearValue(handle);
+        const decimals = tokenDecimals[leg.token.toLowerCase()];
+        if (clear === undefined) return `🔒 ${tokenLabel(chainId, leg.token)}`;
+        const amount = decimals === undefined ? String(clear) : formatAmount(BigInt(clear), decimals);
+        return `${amount} ${tokenLabel(chainId, leg.token)}`;
+    };
+
+    const openFill = (basket: BasketOrder) => {
+        setFilling(basket);
+        setPays(basket.legsIn.map(() => ""));
+        setActionError("");
+    };
+
+    const onFill = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!filling || !fhevmInstance || !ethersSigner) return;
+
+        setPending("fill");
+        setActionError("");
+        try {
+            const amounts = filling.legsIn.map((leg, i) => {
+                const decimals = tokenDecimals[leg.token.toLowerCase()];
+                if (decimals === undefined) {
+                    throw new Error(`Decimals of ${tokenLabel(chainId, leg.token)} are still loading. Please try again.`);
+                }
+                try {
+                    return parseAmount(pays[i], decimals);
+                } catch (err: any) {
+                    throw new Error(`${tokenLabel(chainId, leg.token)}: ${err.message}`);
+                }
+            });
+
+            // The basket escrow pulls every payment in the fill: approve it where it is not an operator yet
+            for (const token of [...new Set(filling.legsIn.map((leg) => leg.token.toLowerCase()))]) {
+                const contract = new ethers.Contract(token, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+                if (!(await contract.isOperator(ethersSigner.address, basketAddress))) {
+                    await (await contract.setOperator(basketAddress, Math.floor(Date.now() / 1000) + 86400)).wait();
+                }
+            }
+
+            const enc = await buildBasketInputs(fhevmInstance, "fillBasketOrder", basketAddress, ethersSigner.address, {
+                paysExt: amounts,
+            });
+            const contract = new ethers.Contract(basketAddress, BASKET_ABI, ethersSigner);
+            await (await contract.fillBasketOrder(BigInt(filling.id), enc.handles.paysExt, enc.inputProof)).wait();
+
+            setFilling(null);
+            await refreshBaskets();
+        } catch (err: any) {
+            console.error("Basket fill failed:", err);
+            setActionError(err.reason || err.message || "Basket fill failed");
+        } finally {
+            setPending("");
+        }
+    };
+
+    const onCancel = async (basket: BasketOrder) => {
+        if (!ethersSigner) return;
+
+        setPending(`cancel-${basket.id}`);
+        setActionError("");
+        try {
+            const contract = new ethers.Contract(basketAddress, BASKET_ABI, ethersSigner);
+            await (await contract.cancelBasketOrder(BigInt(basket.id))).wait();
+            await refreshBaskets();
+        } catch (err: any) {
+            console.error("Basket cancel failed:", err);
+            setActionError(err.reason || err.message || "Basket cancel failed");
+        } finally {
+            setPending("");
+        }
+    };
+
+    // Outcome of a fill once decrypted: the maker sees all of them, a taker its own
+    const fillOutcome = (handle: string) => {
+        const clear = clearValue(handle);
+        return clear === undefined ? "🔒" : clear ? "✅ swapped" : "↩️ refunded";
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">🧺 Basket Orders</h3>
+                <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={refreshBaskets} disabled={loading}>
+                        {loading ? "Loading..." : "Refresh"}
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={decryptBaskets}
+                        disabled={decrypting || !fhevmInstance || fhevmStatus !== "ready"}
+                    >
+                        {decrypting ? "Decrypting..." : "Decrypt Mine"}
+                    </Button>
+                </div>
+            </div>
+
+            {paused && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                    <p className="text-sm text-yellow-800">
+                        The escrow is paused: baskets cannot be created or filled until it resumes. Makers can still cancel.
+                    </p>
+                </div>
+            )}
+            {(error || actionError) && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{actionError || error}</p>
+                </div>
+            )}
+            {!loading && baskets.length === 0 && (
+                <div className="py-4 text-center text-sm text-gray-500">No basket orders yet</div>
+            )}
+
+            {baskets.map((basket) => {
+                const open = clearValue(basket.openEnc);
+                const canCancel = basket.status !== "cancelled" && (basket.isMine || basket.status === "expired");
+                return (
+                    <Card key={basket.id} className="hover:shadow-md transition-shadow">
+                        <CardContent className="p-4 space-y-3">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2">
+                                    <h4 className="text-lg font-semibold text-gray-900">Basket #{basket.id}</h4>
+                                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[basket.status]}`}>
+                                        {basket.status.toUpperCase()}
+                                    </span>
+                                    {basket.isMine && (
+                                        <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">YOURS</span>
+                                    )}
+                                    {open !== undefined && (
+                                        <span className="text-xs text-gray-600">{open ? "fillable" : "filled or underfunded"}</span>
+                                    )}
+                                </div>
+                                <span className="text-xs text-gray-500">
+                                    Deadline {new Date(basket.deadline * 1000).toLocaleString()}
+                                </span>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-center text-sm">
+                                <div className="p-3 bg-gray-50 rounded-md space-y-1">
+                                    <div className="text-xs text-gray-500">Taker pays</div>
+                                    {basket.legsIn.map((leg, i) => (
+                                        <div key={i} title={leg.token}>{legLabel(leg)}</div>
+                                    ))}
+                                </div>
+                                <div className="text-center text-gray-400">⇄</div>
+                                <div className="p-3 bg-gray-50 rounded-md space-y-1">
+                                    <div className="text-xs text-gray-500">Taker receives</div>
+                                    {basket.legsOut.map((leg, i) => (
+                                        <div key={i} title={leg.token}>
+                                            {legLabel(leg)}
+                                            {clearValue(leg.remainingEnc) !== undefined && (
+                                                <span className="text-xs text-gray-500"> ({legLabel(leg, leg.remainingEnc)} escrowed)</span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {basket.fills.length > 0 && (
+                                <div className="text-xs text-gray-600 space-y-1">
+                                    {basket.fills.map((fill) => (
+                                        <div key={fill.index}>
+                                            Fill #{fill.index} by {fill.taker.slice(0, 6)}...{fill.taker.slice(-4)}
+                                            {(basket.isMine || fill.taker.toLowerCase() === me) && <> · {fillOutcome(fill.filledEnc)}</>}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="flex space-x-2">
+                                {basket.status === "active" && !basket.isMine && !paused && (
+                                    <Button size="sm" onClick={() => openFill(basket)} disabled={!ethersSigner}>
+                                        Fill Basket
+                                    </Button>
+                                )}
+                                {canCancel && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => onCancel(basket)}
+                                        disabled={pending === `cancel-${basket.id}`}
+                                    >
+                                        {pending === `cancel-${basket.id}` ? "Cancelling..." : basket.isMine ? "Cancel" : "Return Escrow"}
+                                    </Button>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
+                );
+            })}
+
+            {filling && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-semibold text-gray-900">Fill Basket #{filling.id}</h3>
+                            <button onClick={() => setFilling(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+
+                        <form onSubmit={onFill} className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                Pay every leg in one transaction. If any payment is short, every leg is refunded;
+                                anything paid above a leg&apos;s price comes back to you. The escrow&apos;s pair fee is
+                                taken from each leg you receive.
+                            </p>
+                            {filling.legsIn.map((leg, i) => (
+                                <div key={i}>
+                                    <Label className="block text-xs text-gray-600 mb-1">Pay in {tokenLabel(chainId, leg.token)}</Label>
+                                    <Input
+                                        value={pays[i] ?? ""}
+                                        onChange={(e) => setPays(pays.map((pay, j) => (j === i ? e.target.value : pay)))}
+                                        inputMode="decimal"
+                                        placeholder="100.0"
+                                        required
+                                    />
+                                </div>
+                            ))}
+
+                            <div className="flex space-x-3 pt-2">
+                                <Button type="button" onClick={() => setFilling(null)} variant="outline" className="flex-1">
+                                    Cancel
+                                </Button>
+                                <Button
+                                    type="submit"
+                                    className="flex-1"
+                                    disabled={pending === "fill" || !fhevmInstance || fhevmStatus !== "ready"}
+                                >
+                                    {pending === "fill" ? "Filling..." : "Fill Basket"}
+                                </Button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
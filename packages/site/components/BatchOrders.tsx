@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { OTC_ABI } from "@/abi/otc";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildOtcBatchInputs, maxOtcBatchSize } from "@/lib/otcInputs";
+import { parseAmount } from "@/lib/amounts";
+import { pairLabel, tokenLabel } from "@/lib/tokens";
+import { explorerTxUrl } from "@/lib/explorer";
+import { TokenSelect } from "@/components/TokenSelect";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Props = {
+    otcAddress: `0x${string}`;
+    tokenIn: `0x${string}`;
+    tokenOut: `0x${string}`;
+};
+
+type StagedOrder = {
+    key: number;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string;
+    amountOut: string;
+    taker: string; // empty: open to anyone
+};
+
+// createOrder values fill an input proof after this many orders
+const MAX_BATCH = maxOtcBatchSize("createOrder");
+
+/**
+ * Stages several orders and creates them in one transaction: every order's terms are encrypted into a single
+ * input, and the createOrder calls go to the escrow's multicall with that one proof.
+ */
+export function BatchOrders({ otcAddress, tokenIn, tokenOut }: Props) {
+    const { ethersSigner, isConnected, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({ provider, chainId, enabled: !!provider });
+
+    const [nextKey, setNextKey] = useState(1);
+    const [staged, setStaged] = useState<StagedOrder[]>([
+        { key: 0, tokenIn, tokenOut, amountIn: "", amountOut: "", taker: "" },
+    ]);
+    const [deadline, setDeadline] = useState<number>(Math.floor(Date.now() / 1000) + 86400);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string>("");
+    const [created, setCreated] = useState<{ txHash: string; ids: string[] } | null>(null);
+
+    const tokenDecimals = useTokenDecimals(staged.flatMap((order) => [order.tokenIn, order.tokenOut]));
+
+    const update = (key: number, patch: Partial<StagedOrder>) => {
+        setStaged((orders) => orders.map((order) => (order.key === key ? { ...order, ...patch } : order)));
+    };
+
+    // New rows start from the last one's pair, the usual case when quoting several sizes
+    const addOrder = () => {
+        const last = staged[staged.length - 1];
+        setStaged([...staged, {
+            key: nextKey,
+            tokenIn: last?.tokenIn ?? tokenIn,
+            tokenOut: last?.tokenOut ?? tokenOut,
+            amountIn: "",
+            amountOut: "",
+            taker: "",
+        }]);
+        setNextKey(nextKey + 1);
+    };
+
+    const removeOrder = (key: number) => setStaged(staged.filter((order) => order.key !== key));
+
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fhevmInstance || !ethersSigner) return;
+
+        setSubmitting(true);
+        setError("");
+        setCreated(null);
+        try {
+            if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+                throw new Error("The deadline must be in the future.");
+            }
+            const orders = staged.map((order, i) => {
+                const label = `Order ${i + 1}`;
+                if (!ethers.isAddress(order.tokenIn) || !ethers.isAddress(order.tokenOut)) {
+                    throw new Error(`${label}: select a token in and a token out.`);
+                }
+                const decimalsIn = tokenDecimals[order.tokenIn.toLowerCase()];
+                const decimalsOut = tokenDecimals[order.tokenOut.toLowerCase()];
+                if (decimalsIn === undefined || decimalsOut === undefined) {
+                    throw new Error(`${label}: token decimals are still loading. Please try again.`);
+                }
+                const taker = order.taker.trim() || ethers.ZeroAddress;
+                if (!ethers.isAddress(taker)) {
+                    throw new Error(`${label}: invalid taker address.`);
+                }
+                try {
+                    return {
+                        ...order,
+                        values: {
+                            amountInExt: parseAmount(order.amountIn, decimalsIn),
+                            amountOutExt: parseAmount(order.amountOut, decimalsOut),
+                            maybeTakerExt: taker,
+                        },
+                    };
+                } catch (err: any) {
+                    throw new Error(`${label}: ${err.message}`);
+                }
+            });
+
+            // The escrow pulls each order's amountOut, so it must be an operator on every tokenOut of the batch
+            for (const token of [...new Set(orders.map((order) => order.tokenOut.toLowerCase()))]) {
+                const contract = new ethers.Contract(token, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+                if (!(await contract.isOperator(ethersSigner.address, otcAddress))) {
+                    throw new Error(`Approve the escrow as operator on ${tokenLabel(chainId, token)} first (Tokens view).`);
+                }
+            }
+
+            const enc = await buildOtcBatchInputs(
+                fhevmInstance,
+                "createOrder",
+                otcAddress,
+                ethersSigner.address,
+                orders.map((order) => order.values),
+            );
+
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const calls = orders.map((order, i) =>
+                contract.interface.encodeFunctionData("createOrder", [
+                    order.tokenIn,
+                    order.tokenOut,
+                    enc.handles[i].amountInExt,
+                    enc.handles[i].amountOutExt,
+                    enc.handles[i].maybeTakerExt,
+                    enc.inputProof,
+                    BigInt(deadline),
+                ])
+            );
+            const tx = await contract.multicall(calls);
+            const receipt = await tx.wait();
+
+            const ids = receipt.logs
+                .map((log: ethers.Log) => contract.interface.parseLog(log))
+                .filter((parsed: ethers.LogDescription | null) => parsed?.name === "OrderCreated")
+                .map((parsed: ethers.LogDescription) => parsed.args.id.toString());
+            setCreated({ txHash: receipt.hash, ids });
+            setStaged([{ key: nextKey, tokenIn, tokenOut, amountIn: "", amountOut: "", taker: "" }]);
+            setNextKey(nextKey + 1);
+        } catch (err: any) {
+            console.error("Batch creation failed:", err);
+            setError(err.reason || err.message || "Batch creation failed");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!isConnected) {
+        return <p className="text-sm text-gray-600 text-center p-8">Connect your wallet to create orders in a batch.</p>;
+    }
+
+    return (
+        <form onSubmit={onSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+                Stage up to {MAX_BATCH} orders: their terms are encrypted together and created in one transaction
+                (one wallet prompt). If any order fails, none is created.
+            </p>
+
+            {staged.map((order, i) => (
+                <Card key={order.key}>
+                    <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-semibold text-gray-800">
+                                Order {i + 1}
+                                {ethers.isAddress(order.tokenIn) && ethers.isAddress(order.tokenOut) && (
+                                    <span className="ml-2 font-normal text-gray-500">{pairLabel(chainId, order.tokenIn, order.tokenOut)}</span>
+                                )}
+                            </span>
+                            {staged.length > 1 && (
+                                <Button type="button" variant="outline" size="sm" onClick={() => removeOrder(order.key)}>
+                                    Remove
+                                </Button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                                <Label className="block text-xs text-gray-600 mb-1">Token In (you receive)</Label>
+                                <TokenSelect chainId={chainId} value={order.tokenIn} onChange={(value) => update(order.key, { tokenIn: value })} />
+                            </div>
+                            <div>
+                                <Label className="block text-xs text-gray-600 mb-1">Token Out (you escrow)</Label>
+                                <TokenSelect chainId={chainId} value={order.tokenOut} onChange={(value) => update(order.key, { tokenOut: value })} />
+                            </div>
+                            <div>
+                                <Label className="block text-xs text-gray-600 mb-1">Amount In</Label>
+                                <Input
+                                    value={order.amountIn}
+                                    onChange={(e) => update(order.key, { amountIn: e.target.value })}
+                                    inputMode="decimal"
+                                    placeholder="100.0"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label className="block text-xs text-gray-600 mb-1">Amount Out</Label>
+                                <Input
+                                    value={order.amountOut}
+                                    onChange={(e) => update(order.key, { amountOut: e.target.value })}
+                                    inputMode="decimal"
+                                    placeholder="100.0"
+                                    required
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <Label className="block text-xs text-gray-600 mb-1">Taker (optional, anyone if empty)</Label>
+                                <Input
+                                    value={order.taker}
+                                    onChange={(e) => update(order.key, { taker: e.target.value })}
+                                    placeholder="0x..."
+                                />
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+            ))}
+
+            <Button type="button" variant="outline" onClick={addOrder} disabled={staged.length >= MAX_BATCH}>
+                {staged.length >= MAX_BATCH ? `At most ${MAX_BATCH} orders per batch` : "+ Add Order"}
+            </Button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                    <Label className="block text-xs text-gray-600 mb-1">Deadline for every order (Unix timestamp)</Label>
+                    <Input value={deadline} onChange={(e) => setDeadline(parseInt(e.target.value))} type="number" required />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {Number.isInteger(deadline) ? new Date(deadline * 1000).toLocaleString() : "Invalid deadline"}
+                    </p>
+                </div>
+                <p className="text-xs text-gray-500 self-center">
+                    Each order&apos;s amount out is escrowed when it is created.
+                </p>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+            {created && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+                    Created orders {created.ids.map((id) => `#${id}`).join(", ")} in{" "}
+                    {explorerTxUrl(chainId, created.txHash) ? (
+                        <a href={explorerTxUrl(chainId, created.txHash)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+                            {created.txHash.slice(0, 10)}...
+                        </a>
+                    ) : (
+                        <span className="font-mono">{created.txHash.slice(0, 10)}...</span>
+                    )}
+                </div>
+            )}
+
+            <Button
+                type="submit"
+                className="w-full"
+                disabled={submitting || !fhevmInstance || !ethersSigner || fhevmStatus !== "ready"}
+            >
+                {submitting ? "Creating Orders..." : `Create ${staged.length} Order${staged.length === 1 ? "" : "s"}`}
+            </Button>
+        </form>
+    );
+}
@@ -9,7 +9,7 @@ const BASIC_ABI = [
     "function symbol() external view returns (string)",
     "function decimals() external view returns (uint8)",
     "function owner() external view returns (address)",
-    "function balanceOf(address account) external view returns (uint256)",
+    "function confidentialBalanceOf(address account) external view returns (bytes32)",
     "function totalSupply() external view returns (uint256)"
 ];
 
@@ -40,7 +40,7 @@ export default function ContractDebugger({ otcAddress, gatewayAddress, tokenIn,
         setResult("");
 
         try {
-            const tokenAddress = "0xcde70d205f9D467CFA1fC46b45C45a30E651E172";
+            const tokenAddress = tokenIn;
             const contract = new ethers.Contract(tokenAddress, BASIC_ABI, ethersSigner);
 
             const [name, symbol, decimals, owner, totalSupply] = await Promise.all([
@@ -51,7 +51,8 @@ export default function ContractDebugger({ otcAddress, gatewayAddress, tokenIn,
                 contract.totalSupply().catch(() => "N/A")
             ]);
 
-            const balance = await contract.balanceOf(ethersSigner.address).catch(() => "N/A");
+            // ERC-7984 balances are encrypted: this is the handle, the Portfolio view decrypts it
+            const balance = await contract.confidentialBalanceOf(ethersSigner.address).catch(() => "N/A");
 
             setResult(`
 🪙 Token Contract Test Results:
@@ -61,7 +62,7 @@ Symbol: ${symbol}
 Decimals: ${decimals}
 Owner: ${owner}
 Total Supply: ${totalSupply !== "N/A" ? ethers.formatUnits(totalSupply, decimals) : "N/A"}
-Your Balance: ${balance !== "N/A" ? ethers.formatUnits(balance, decimals) : "N/A"}
+Your Balance (encrypted handle): ${balance}
             `);
 
         } catch (err: any) {
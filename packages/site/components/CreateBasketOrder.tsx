@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { BASKET_ABI } from "@/abi/basket";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildBasketInputs } from "@/lib/otcInputs";
+import { parseAmount } from "@/lib/amounts";
+import { tokenLabel } from "@/lib/tokens";
+import { explorerTxUrl } from "@/lib/explorer";
+import { TokenSelect } from "@/components/TokenSelect";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Props = {
+    basketAddress: `0x${string}`;
+    tokenIn: `0x${string}`;
+    tokenOut: `0x${string}`;
+};
+
+type LegDraft = {
+    key: number;
+    token: string;
+    amount: string;
+};
+
+// ConfidentialBasketEscrow.MAX_LEGS: legs per side of a basket
+export const MAX_BASKET_LEGS = 4;
+
+type LegsEditorProps = {
+    title: string;
+    legs: LegDraft[];
+    chainId: number | undefined;
+    onChange: (key: number, patch: Partial<LegDraft>) => void;
+    onAdd: () => void;
+    onRemove: (key: number) => void;
+};
+
+// One side of a basket: a token and an amount per leg, with legs added and removed in place
+function LegsEditor({ title, legs, chainId, onChange, onAdd, onRemove }: LegsEditorProps) {
+    return (
+        <div className="space-y-2 p-4 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-800">{title}</span>
+                <Button type="button" variant="outline" size="sm" onClick={onAdd} disabled={legs.length >= MAX_BASKET_LEGS}>
+                    {legs.length >= MAX_BASKET_LEGS ? `At most ${MAX_BASKET_LEGS} legs` : "+ Add Leg"}
+                </Button>
+            </div>
+            {legs.map((leg) => (
+                <div key={leg.key} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-start">
+                    <TokenSelect chainId={chainId} value={leg.token} onChange={(value) => onChange(leg.key, { token: value })} />
+                    <Input
+                        value={leg.amount}
+                        onChange={(e) => onChange(leg.key, { amount: e.target.value })}
+                        inputMode="decimal"
+                        placeholder="100.0"
+                        required
+                    />
+                    <Button type="button" variant="outline" onClick={() => onRemove(leg.key)} disabled={legs.length === 1}>
+                        ✕
+                    </Button>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Creates a basket order: several tokens asked for several others, every amount encrypted under one input proof.
+ * The basket escrow takes every tokenOut leg on creation and a fill swaps all legs or none.
+ */
+export function CreateBasketOrder({ basketAddress, tokenIn, tokenOut }: Props) {
+    const { ethersSigner, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({ provider, chainId, enabled: !!provider });
+
+    const [nextKey, setNextKey] = useState(2);
+    const [legsIn, setLegsIn] = useState<LegDraft[]>([{ key: 0, token: tokenIn, amount: "" }]);
+    const [legsOut, setLegsOut] = useState<LegDraft[]>([{ key: 1, token: tokenOut, amount: "" }]);
+    const [takerAddr, setTakerAddr] = useState<string>("");
+    const [deadline, setDeadline] = useState<number>(Math.floor(Date.now() / 1000) + 86400);
+    const [status, setStatus] = useState<string>("");
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string>("");
+    const [created, setCreated] = useState<{ txHash: string; id: string } | null>(null);
+
+    const tokenDecimals = useTokenDecimals([...legsIn, ...legsOut].map((leg) => leg.token));
+
+    const editorProps = (legs: LegDraft[], setLegs: (legs: LegDraft[]) => void) => ({
+        legs,
+        chainId,
+        onChange: (key: number, patch: Partial<LegDraft>) =>
+            setLegs(legs.map((leg) => (leg.key === key ? { ...leg, ...patch } : leg))),
+        onAdd: () => {
+            setLegs([...legs, { key: nextKey, token: "", amount: "" }]);
+            setNextKey(nextKey + 1);
+        },
+        onRemove: (key: number) => setLegs(legs.filter((leg) => leg.key !== key)),
+    });
+
+    const parseLegs = (side: string, legs: LegDraft[]) =>
+        legs.map((leg, i) => {
+            const label = `${side} leg ${i + 1}`;
+            if (!ethers.isAddress(leg.token)) {
+                throw new Error(`${label}: select a token.`);
+            }
+            const decimals = tokenDecimals[leg.token.toLowerCase()];
+            if (decimals === undefined) {
+                throw new Error(`${label}: token decimals are still loading. Please try again.`);
+            }
+            try {
+                return { token: leg.token, amount: parseAmount(leg.amount, decimals) };
+            } catch (err: any) {
+                throw new Error(`${label}: ${err.message}`);
+            }
+        });
+
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fhevmInstance || !ethersSigner) return;
+
+        setSubmitting(true);
+        setError("");
+        setCreated(null);
+        try {
+            if (!Number.isInteger(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+                throw new Error("The deadline must be in the future.");
+            }
+            const taker = takerAddr.trim() || ethers.ZeroAddress;
+            if (!ethers.isAddress(taker)) {
+                throw new Error("Invalid taker address.");
+            }
+            const inLegs = parseLegs("Receive", legsIn);
+            const outLegs = parseLegs("Give", legsOut);
+
+            // The basket escrow pulls every tokenOut leg on creation: approve it where it is not an operator yet
+            for (const token of [...new Set(outLegs.map((leg) => leg.token.toLowerCase()))]) {
+                const contract = new ethers.Contract(token, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+                if (!(await contract.isOperator(ethersSigner.address, basketAddress))) {
+                    setStatus(`Approving the basket escrow on ${tokenLabel(chainId, token)}...`);
+                    await (await contract.setOperator(basketAddress, Math.floor(Date.now() / 1000) + 86400)).wait();
+                }
+            }
+
+            setStatus("Encrypting legs...");
+            const enc = await buildBasketInputs(fhevmInstance, "createBasketOrder", basketAddress, ethersSigner.address, {
+                amountsInExt: inLegs.map((leg) => leg.amount),
+                amountsOutExt: outLegs.map((leg) => leg.amount),
+                takerExt: taker,
+            });
+
+            setStatus("Creating basket...");
+            const contract = new ethers.Contract(basketAddress, BASKET_ABI, ethersSigner);
+            const tx = await contract.createBasketOrder(
+                inLegs.map((leg) => leg.token),
+                enc.handles.amountsInExt,
+                outLegs.map((leg) => leg.token),
+                enc.handles.amountsOutExt,
+                enc.handles.takerExt,
+                enc.inputProof,
+                BigInt(deadline),
+            );
+            const receipt = await tx.wait();
+
+            const event = receipt.logs
+                .map((log: ethers.Log) => contract.interface.parseLog(log))
+                .find((parsed: ethers.LogDescription | null) => parsed?.name === "BasketOrderCreated");
+            setCreated({ txHash: receipt.hash, id: event ? event.args.id.toString() : "?" });
+            setLegsIn(legsIn.map((leg) => ({ ...leg, amount: "" })));
+            setLegsOut(legsOut.map((leg) => ({ ...leg, amount: "" })));
+        } catch (err: any) {
+            console.error("Basket creation failed:", err);
+            setError(err.reason || err.message || "Basket creation failed");
+        } finally {
+            setStatus("");
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={onSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+                Trade several tokens at once, e.g. two tokens for one. Every amount stays encrypted, your side is
+                escrowed when the basket is created, and a taker gets all of it or none of it, less the escrow&apos;s
+                pair fee on each leg.
+            </p>
+
+            <LegsEditor title="You receive (token in legs)" {...editorProps(legsIn, setLegsIn)} />
+            <LegsEditor title="You give (token out legs, escrowed now)" {...editorProps(legsOut, setLegsOut)} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                    <Label className="block text-xs text-gray-600 mb-1">Taker (optional, anyone if empty)</Label>
+                    <Input value={takerAddr} onChange={(e) => setTakerAddr(e.target.value)} placeholder="0x..." />
+                </div>
+                <div>
+                    <Label className="block text-xs text-gray-600 mb-1">Deadline (Unix timestamp)</Label>
+                    <Input value={deadline} onChange={(e) => setDeadline(parseInt(e.target.value))} type="number" required />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {Number.isInteger(deadline) ? new Date(deadline * 1000).toLocaleString() : "Invalid deadline"}
+                    </p>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+            {created && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+                    Created basket #{created.id} in{" "}
+                    {explorerTxUrl(chainId, created.txHash) ? (
+                        <a href={explorerTxUrl(chainId, created.txHash)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+                            {created.txHash.slice(0, 10)}...
+                        </a>
+                    ) : (
+                        <span className="font-mono">{created.txHash.slice(0, 10)}...</span>
+                    )}
+                </div>
+            )}
+
+            <Button
+                type="submit"
+                className="w-full"
+                disabled={submitting || !fhevmInstance || !ethersSigner || fhevmStatus !== "ready"}
+            >
+                {submitting ? status || "Creating Basket..." : `Create Basket (${legsIn.length} for ${legsOut.length})`}
+            </Button>
+        </form>
+    );
+}
@@ -3,106 +3,39 @@ import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigne
 import { useFhevm } from "@/fhevm/useFhevm";
 import { ethers } from "ethers";
 import { OTC_ABI } from "@/abi/otc";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { pairLabel } from "@/lib/tokens";
+import { explorerTxUrl } from "@/lib/explorer";
+import { feeOf, formatAmount, parseAmount } from "@/lib/amounts";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { buildOtcInputs } from "@/lib/otcInputs";
+import { TokenSelect } from "@/components/TokenSelect";
+import { CreateBasketOrder } from "@/components/CreateBasketOrder";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
-// ABI for confidential token operations (setOperator, isOperator)
-const CONFIDENTIAL_TOKEN_ABI = [
-    {
-        "inputs": [
-            {
-                "internalType": "address",
-                "name": "from",
-                "type": "address"
-            },
-            {
-                "internalType": "address",
-                "name": "to",
-                "type": "address"
-            },
-            {
-                "internalType": "externalEuint64",
-                "name": "encryptedAmount",
-                "type": "bytes32"
-            },
-            {
-                "internalType": "bytes",
-                "name": "inputProof",
-                "type": "bytes"
-            }
-        ],
-        "name": "confidentialTransferFrom",
-        "outputs": [
-            {
-                "internalType": "euint64",
-                "name": "transferred",
-                "type": "bytes32"
-            }
-        ],
-        "stateMutability": "nonpayable",
-        "type": "function"
-    },
-    {
-        "inputs": [
-            {
-                "internalType": "address",
-                "name": "operator",
-                "type": "address"
-            },
-            {
-                "internalType": "uint48",
-                "name": "until",
-                "type": "uint48"
-            }
-        ],
-        "name": "setOperator",
-        "outputs": [],
-        "stateMutability": "nonpayable",
-        "type": "function"
-    },
-    {
-        "inputs": [
-            {
-                "internalType": "address",
-                "name": "holder",
-                "type": "address"
-            },
-            {
-                "internalType": "address",
-                "name": "spender",
-                "type": "address"
-            }
-        ],
-        "name": "isOperator",
-        "outputs": [
-            {
-                "internalType": "bool",
-                "name": "",
-                "type": "bool"
-            }
-        ],
-        "stateMutability": "view",
-        "type": "function"
-    },
-];
-
 type Props = {
     otcAddress: `0x${string}`;
     tokenIn: `0x${string}`;
     tokenOut: `0x${string}`;
+    // Basket escrow; empty hides the basket mode
+    basketAddress?: `0x${string}` | "";
     onOrderCreated?: (txHash: string) => void;
 };
 
-export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCreated }: Props) {
-    const { ethersSigner, isConnected, connect, provider, chainId } = useMetaMaskEthersSigner();
+export default function CreateOrder({ otcAddress, tokenIn, tokenOut, basketAddress = "", onOrderCreated }: Props) {
+    const { ethersSigner, ethersReadonlyProvider, isConnected, connect, provider, chainId } = useMetaMaskEthersSigner();
     const { instance: fhevmInstance, status: fhevmStatus, error: fhevmError } = useFhevm({
         provider,
         chainId,
         enabled: !!provider
     });
 
+    // A single pair goes to the escrow, several tokens per side to the basket escrow
+    const [mode, setMode] = useState<"pair" | "basket">("pair");
+
     // Form state
     const [userTokenIn, setUserTokenIn] = useState<string>(tokenIn);
     const [userTokenOut, setUserTokenOut] = useState<string>(tokenOut);
@@ -110,19 +43,23 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
     const [amountOut, setAmountOut] = useState<string>("100");
     const [takerAddr, setTakerAddr] = useState<string>("0x0000000000000000000000000000000000000000");
     const [deadline, setDeadline] = useState<number>(Math.floor(Date.now() / 1000) + 86400);
-    const [doTransferOut, setDoTransferOut] = useState(true);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>("");
     const [success, setSuccess] = useState<string>("");
+    // Order created by the last submit, read from its OrderCreated log
+    const [created, setCreated] = useState<{ txHash: string; id: string } | null>(null);
 
     // Operator approval state
     const [isApproved, setIsApproved] = useState<boolean>(false);
     const [checkingApproval, setCheckingApproval] = useState<boolean>(false);
     const [approving, setApproving] = useState<boolean>(false);
 
-    // Transfer state
-    const [transferring, setTransferring] = useState<boolean>(false);
-    const [transferHash, setTransferHash] = useState<string>("");
+    // Fee the escrow will take from amountOut for this pair (basis points), null while unknown
+    const [feeBps, setFeeBps] = useState<number | null>(null);
+
+    const tokenDecimals = useTokenDecimals([userTokenIn, userTokenOut]);
+    const decimalsIn = tokenDecimals[userTokenIn.toLowerCase()];
+    const decimalsOut = tokenDecimals[userTokenOut.toLowerCase()];
 
     // Helper function to retry FHEVM operations
     const retryFhevmOperation = async (
@@ -166,13 +103,38 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
 
     // Check operator approval status when component mounts or tokens change
     useEffect(() => {
-        if (isConnected && ethersSigner && userTokenOut && doTransferOut) {
+        if (isConnected && ethersSigner && userTokenOut) {
             checkOperatorApproval();
-        } else if (!doTransferOut) {
-            // Reset approval status when doTransferOut is false
-            setIsApproved(false);
         }
-    }, [isConnected, ethersSigner, userTokenOut, doTransferOut]);
+    }, [isConnected, ethersSigner, userTokenOut]);
+
+    // Look up the pair fee so the preview below can be computed from the plaintext amounts
+    useEffect(() => {
+        if (!ethersReadonlyProvider || !ethers.isAddress(userTokenIn) || !ethers.isAddress(userTokenOut)) {
+            setFeeBps(null);
+            return;
+        }
+
+        let cancelled = false;
+        const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersReadonlyProvider);
+        contract.pairFeeBps(userTokenIn, userTokenOut)
+            .then((bps: bigint) => { if (!cancelled) setFeeBps(Number(bps)); })
+            .catch((err: any) => {
+                console.error("Failed to fetch pair fee:", err);
+                if (!cancelled) setFeeBps(null);
+            });
+
+        return () => { cancelled = true; };
+    }, [ethersReadonlyProvider, otcAddress, userTokenIn, userTokenOut]);
+
+    // Fee preview, computed client-side before the amounts are encrypted (same rounding as the contract)
+    let amountOutValue: bigint | null = null;
+    try {
+        amountOutValue = decimalsOut !== undefined ? parseAmount(amountOut, decimalsOut) : null;
+    } catch {
+        // Reported on submit
+    }
+    const feePreview = feeBps !== null && amountOutValue !== null ? feeOf(amountOutValue, feeBps) : null;
 
     // Check if the OTC contract is already approved as an operator for tokenOut
     const checkOperatorApproval = async () => {
@@ -208,7 +170,7 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
             await tx.wait();
 
             setIsApproved(true);
-            setSuccess("Operator approval successful! You can now create orders with doTransferOut=true.");
+            setSuccess("Operator approval successful! You can now create orders.");
 
             // Clear success message after 3 seconds
             setTimeout(() => setSuccess(""), 3000);
@@ -225,8 +187,8 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
         e.preventDefault();
         if (!fhevmInstance || !ethersSigner) return;
 
-        // Check if operator approval is required and not granted
-        if (doTransferOut && !isApproved) {
+        // createOrder pulls amountOut, so the escrow must be an operator on tokenOut
+        if (!isApproved) {
             setError("Operator approval required. Please approve the OTC contract as an operator for tokenOut first.");
             return;
         }
@@ -234,6 +196,7 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
         setLoading(true);
         setError("");
         setSuccess("");
+        setCreated(null);
 
         try {
             if (!ethersSigner.address) {
@@ -245,28 +208,30 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
             }
 
             // Validate input values
-            if (!amountIn || isNaN(parseInt(amountIn)) || parseInt(amountIn) <= 0) {
-                throw new Error("Invalid amount in. Please enter a positive number.");
+            if (!ethers.isAddress(userTokenIn) || !ethers.isAddress(userTokenOut)) {
+                throw new Error("Select a token in and a token out.");
             }
-            if (!amountOut || isNaN(parseInt(amountOut)) || parseInt(amountOut) <= 0) {
-                throw new Error("Invalid amount out. Please enter a positive number.");
+            if (decimalsIn === undefined || decimalsOut === undefined) {
+                throw new Error("Token decimals are still loading. Please try again.");
             }
-            if (!takerAddr || !ethers.isAddress(takerAddr)) {
+            const amountInUnits = parseAmount(amountIn, decimalsIn);
+            const amountOutUnits = parseAmount(amountOut, decimalsOut);
+            // An empty taker means the order is open to anyone (encrypted as the zero address)
+            const taker = takerAddr.trim() || ethers.ZeroAddress;
+            if (!ethers.isAddress(taker)) {
                 throw new Error("Invalid taker address. Please enter a valid Ethereum address.");
             }
 
             // Create a single encrypted input containing all three values for createOrder
             console.log("Creating encrypted input for createOrder...");
 
-            // Create encrypted input for createOrder with all three values
-            const createOrderInput = fhevmInstance.createEncryptedInput(otcAddress, ethersSigner.address);
-            createOrderInput.add64(BigInt(parseInt(amountIn))); // amountIn
-            createOrderInput.add64(BigInt(parseInt(amountOut))); // amountOut
-            createOrderInput.addAddress(takerAddr); // takerAddr
-
             console.log("Encrypting createOrder input...");
             const createOrderEnc = await retryFhevmOperation(
-                () => createOrderInput.encrypt(),
+                () => buildOtcInputs(fhevmInstance, "createOrder", otcAddress, ethersSigner.address, {
+                    amountInExt: amountInUnits,
+                    amountOutExt: amountOutUnits,
+                    maybeTakerExt: taker, // only this address can fill (zero address = anyone)
+                }),
                 "createOrder encryption",
                 3
             );
@@ -274,92 +239,35 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
             console.log("createOrderEnc.handles:", createOrderEnc.handles);
             console.log("createOrderEnc.inputProof:", createOrderEnc.inputProof);
 
-            // Create separate encrypted input for amountOut for confidentialTransferFrom
-            console.log("Creating encrypted input for confidentialTransferFrom...");
-            const amountOutInput = fhevmInstance.createEncryptedInput(userTokenOut, ethersSigner.address);
-            amountOutInput.add64(BigInt(parseInt(amountOut))); // Use add64 for uint64
-
-            const amountOutEnc = await retryFhevmOperation(
-                () => amountOutInput.encrypt(),
-                "amountOut encryption",
-                3
-            );
-            console.log("amountOutEnc created successfully");
-            console.log("amountOutEnc", amountOutEnc);
-
-            // If doTransferOut is true, perform the confidential transfer to the OTC contract first
-            if (doTransferOut) {
-                console.log("Performing confidential transfer to OTC contract...");
-                setTransferring(true);
-                setTransferHash("");
-
-                try {
-                    // Create the tokenOut contract instance
-                    const tokenOutContract = new ethers.Contract(userTokenOut, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
-
-                    // Perform confidentialTransferFrom: msg.sender (user) -> OTC contract
-                    const transferTx = await tokenOutContract.confidentialTransferFrom(
-                        ethersSigner.address,           // from: msg.sender
-                        otcAddress,                     // to: OTC contract address
-                        amountOutEnc.handles[0],        // amountOutExt: encrypted amount
-                        amountOutEnc.inputProof         // attestation: proof for the encrypted amount
-                    );
-
-                    console.log("Confidential transfer transaction:", transferTx.hash);
-                    setTransferHash(transferTx.hash);
-
-                    // Wait for the transfer to complete
-                    await transferTx.wait();
-                    console.log("Confidential transfer completed successfully");
-                } catch (transferErr: any) {
-                    console.error("Confidential transfer failed:", transferErr);
-                    throw new Error(`Confidential transfer failed: ${transferErr.message}`);
-                } finally {
-                    setTransferring(false);
-                }
-            }
-
-            // 2) call createOrder with single encrypted input containing all values
+            // One proof covers the terms and the escrow: the escrow pulls the imported amountOut handle itself,
+            // so the escrowed and declared amounts cannot differ
             console.log("Calling createOrder with single encrypted input...");
             const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
             const tx = await contract.createOrder(
                 userTokenIn,
                 userTokenOut,
-                createOrderEnc.handles[0], // amountInExt (bytes)
-                createOrderEnc.handles[1], // amountOutExt (bytes)
-                createOrderEnc.handles[2], // maybeTakerExt (bytes)
+                createOrderEnc.handles.amountInExt,
+                createOrderEnc.handles.amountOutExt,
+                createOrderEnc.handles.maybeTakerExt,
                 createOrderEnc.inputProof, // attestation
-                BigInt(deadline),
-                doTransferOut
+                BigInt(deadline)
             );
 
             const receipt = await tx.wait();
             console.log("Order created with tx hash:", receipt.hash);
-            onOrderCreated?.(receipt.hash);
-
-            // Keep loading state until user signs
-            // Don't show any success message yet
-
-            const message = `Create OTC Order\n\nToken In: ${userTokenIn}\nToken Out: ${userTokenOut}\nAmount In: ${amountIn}\nAmount Out: ${amountOut}\nDeadline: ${new Date(deadline * 1000).toLocaleString()}\n\nClick "Sign" to create this order.`;
 
-            const signature = await ethersSigner.signMessage(message);
-            console.log("User signed message:", signature);
-
-            // Now show success after user has signed
-            const simulatedOrderId = Math.floor(Math.random() * 1000000);
-            const simulatedTxHash = "0x" + "0".repeat(64) + Math.random().toString(16).slice(2, 10);
-
-            setSuccess(`🎉 Order created successfully! Order ID: #${simulatedOrderId} | Transaction: ${simulatedTxHash}`);
-
-            // Call the callback to update the orders list
-            if (onOrderCreated) {
-                onOrderCreated(simulatedOrderId.toString());
-            }
+            const event = receipt.logs
+                .map((log: ethers.Log) => contract.interface.parseLog(log))
+                .find((parsed: ethers.LogDescription | null) => parsed?.name === "OrderCreated");
+            const id = event ? event.args.id.toString() : "?";
+            setCreated({ txHash: receipt.hash, id });
+            setSuccess(`🎉 Order #${id} created successfully!`);
+            onOrderCreated?.(receipt.hash);
 
             // Reset form
             setAmountIn("100");
             setAmountOut("100");
-            setTakerAddr("0xB60CeC27c4E86dEbaE055dE850E57CDfc94a2D69");
+            setTakerAddr(ethers.ZeroAddress);
             setDeadline(Math.floor(Date.now() / 1000) + 86400);
 
         } catch (err: any) {
@@ -380,7 +288,6 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
             }
         } finally {
             setLoading(false);
-            setTransferring(false);
         }
     }
 
@@ -431,6 +338,38 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
         );
     }
 
+    const modeToggle = basketAddress && (
+        <div className="flex justify-center mb-4">
+            <div className="inline-flex rounded-full border border-gray-300 p-1 bg-gray-50">
+                {(["pair", "basket"] as const).map((value) => (
+                    <button
+                        key={value}
+                        type="button"
+                        onClick={() => setMode(value)}
+                        className={`px-4 py-1 rounded-full text-sm font-medium transition-colors ${
+                            mode === value ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-200"
+                        }`}
+                    >
+                        {value === "pair" ? "Single Pair" : "🧺 Basket"}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
+    if (basketAddress && mode === "basket") {
+        return (
+            <div>
+                <div className="text-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">Create Basket Order</h2>
+                    <p className="text-gray-600">Several confidential tokens on each side, settled all at once</p>
+                </div>
+                {modeToggle}
+                <CreateBasketOrder basketAddress={basketAddress} tokenIn={tokenIn} tokenOut={tokenOut} />
+            </div>
+        );
+    }
+
     if (error) {
         return (
             <div className="p-8">
@@ -456,8 +395,20 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                     <div className="text-green-600 text-2xl mb-2">✅</div>
                     <h3 className="text-lg font-semibold text-green-800 mb-2">Success</h3>
                     <p className="text-green-700 text-sm mb-4">{success}</p>
+                    {created && (
+                        <p className="text-green-700 text-sm mb-4">
+                            Transaction:{" "}
+                            {explorerTxUrl(chainId, created.txHash) ? (
+                                <a href={explorerTxUrl(chainId, created.txHash)} target="_blank" rel="noopener noreferrer" className="font-mono underline">
+                                    {created.txHash.slice(0, 10)}...
+                                </a>
+                            ) : (
+                                <span className="font-mono">{created.txHash.slice(0, 10)}...</span>
+                            )}
+                        </p>
+                    )}
                     <button
-                        onClick={() => setSuccess("")}
+                        onClick={() => { setSuccess(""); setCreated(null); }}
                         className="text-green-600 hover:text-green-800 text-sm underline"
                     >
                         Close
@@ -473,57 +424,41 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                 <h2 className="text-2xl font-bold text-gray-900 mb-2">Create Trading Order</h2>
                 <p className="text-gray-600">Fill in the details and create your confidential trade</p>
             </div>
+            {modeToggle}
 
             <form onSubmit={onSubmit} className="space-y-4">
-                {/* Transfer Option - Enhanced Design */}
-                <div className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-300/70 rounded-full shadow-sm">
-                    <input
-                        id="doTransferOut"
-                        type="checkbox"
-                        checked={doTransferOut}
-                        onChange={e => setDoTransferOut(e.target.checked)}
-                        className="h-5 w-5 text-blue-600 focus:ring-blue-500 border-gray-300/80 rounded-full accent-blue-600"
-                    />
-                    <label htmlFor="doTransferOut" className="text-sm font-semibold text-gray-800 cursor-pointer">
-                        Transfer tokens immediately when creating order
-                    </label>
-                </div>
+                <p className="text-sm text-gray-600">
+                    The escrow pulls the amount out from your balance in the same transaction as the order.
+                </p>
 
                 {/* Main Form Grid */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {/* Token In */}
                     <div>
-                        <Label className="block text-sm font-medium text-gray-700 mb-2">Token In Address</Label>
-                        <Input
-                            value={userTokenIn}
-                            onChange={e => setUserTokenIn(e.target.value)}
-                            placeholder="0x..."
-                            className="h-10"
-                            required
-                        />
+                        <Label className="block text-sm font-medium text-gray-700 mb-2">Token In (you receive)</Label>
+                        <TokenSelect chainId={chainId} value={userTokenIn} onChange={setUserTokenIn} />
                     </div>
 
                     {/* Token Out */}
                     <div>
-                        <Label className="block text-sm font-medium text-gray-700 mb-2">Token Out Address</Label>
-                        <Input
-                            value={userTokenOut}
-                            onChange={e => setUserTokenOut(e.target.value)}
-                            placeholder="0x..."
-                            className="h-10"
-                            required
-                        />
+                        <Label className="block text-sm font-medium text-gray-700 mb-2">Token Out (you give)</Label>
+                        <TokenSelect chainId={chainId} value={userTokenOut} onChange={setUserTokenOut} />
                     </div>
 
+                    {ethers.isAddress(userTokenIn) && ethers.isAddress(userTokenOut) && (
+                        <p className="md:col-span-2 text-sm text-gray-600 -mt-2">
+                            Pair: <span className="font-medium">{pairLabel(chainId, userTokenIn, userTokenOut)}</span>
+                        </p>
+                    )}
+
                     {/* Amount In */}
                     <div>
                         <Label className="block text-sm font-medium text-gray-700 mb-2">Amount In</Label>
                         <Input
                             value={amountIn}
                             onChange={e => setAmountIn(e.target.value)}
-                            type="number"
-                            min="1"
-                            placeholder="100"
+                            inputMode="decimal"
+                            placeholder="100.0"
                             className="h-10"
                             required
                         />
@@ -535,12 +470,17 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                         <Input
                             value={amountOut}
                             onChange={e => setAmountOut(e.target.value)}
-                            type="number"
-                            min="1"
-                            placeholder="100"
+                            inputMode="decimal"
+                            placeholder="100.0"
                             className="h-10"
                             required
                         />
+                        {feePreview !== null && amountOutValue !== null && decimalsOut !== undefined && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                Fee {feeBps} bps: {formatAmount(feePreview, decimalsOut)} of token out. Takers receive{" "}
+                                {formatAmount(amountOutValue - feePreview, decimalsOut)} in total.
+                            </p>
+                        )}
                     </div>
 
                     {/* Taker Address */}
@@ -552,6 +492,10 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                             placeholder="0x0000000000000000000000000000000000000000"
                             className="h-10"
                         />
+                        <p className="text-xs text-gray-500 mt-1">
+                            Encrypted allowlist: fills from any other address are refunded at settlement.
+                            Leave empty or use the zero address to accept any taker.
+                        </p>
                     </div>
 
                     {/* Deadline */}
@@ -568,66 +512,44 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                 </div>
 
                 {/* Operator Approval Status - Enhanced Design */}
-                {doTransferOut && (
-                    <div className="flex items-center justify-between p-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-300/70 rounded-full shadow-sm">
-                        <div className="flex items-center space-x-3">
-                            <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center">
-                                <span className="text-amber-600 text-sm">🔐</span>
-                            </div>
-                            <div>
-                                <span className="text-sm font-semibold text-amber-800">Operator Approval</span>
-                                <div className="flex items-center space-x-2 mt-1">
-                                    <span className="text-xs text-amber-700">
-                                        {checkingApproval ? "Checking..." : isApproved ? "✅ Approved" : "❌ Not Approved"}
-                                    </span>
-                                </div>
+                <div className="flex items-center justify-between p-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-300/70 rounded-full shadow-sm">
+                    <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center">
+                            <span className="text-amber-600 text-sm">🔐</span>
+                        </div>
+                        <div>
+                            <span className="text-sm font-semibold text-amber-800">Operator Approval</span>
+                            <div className="flex items-center space-x-2 mt-1">
+                                <span className="text-xs text-amber-700">
+                                    {checkingApproval ? "Checking..." : isApproved ? "✅ Approved" : "❌ Not Approved"}
+                                </span>
                             </div>
                         </div>
-                        <div className="flex space-x-2">
+                    </div>
+                    <div className="flex space-x-2">
+                        <Button
+                            type="button"
+                            onClick={checkOperatorApproval}
+                            size="sm"
+                            variant="outline"
+                            disabled={checkingApproval}
+                            className="rounded-full border-amber-300/80 text-amber-700 hover:bg-amber-100"
+                        >
+                            Refresh
+                        </Button>
+                        {!isApproved && (
                             <Button
                                 type="button"
-                                onClick={checkOperatorApproval}
+                                onClick={approveOperator}
                                 size="sm"
-                                variant="outline"
-                                disabled={checkingApproval}
-                                className="rounded-full border-amber-300/80 text-amber-700 hover:bg-amber-100"
+                                disabled={approving || checkingApproval}
+                                className="rounded-full bg-amber-600 hover:bg-amber-700 text-white"
                             >
-                                Refresh
+                                {approving ? "Approving..." : "Approve"}
                             </Button>
-                            {!isApproved && (
-                                <Button
-                                    type="button"
-                                    onClick={approveOperator}
-                                    size="sm"
-                                    disabled={approving || checkingApproval}
-                                    className="rounded-full bg-amber-600 hover:bg-amber-700 text-white"
-                                >
-                                    {approving ? "Approving..." : "Approve"}
-                                </Button>
-                            )}
-                        </div>
-                    </div>
-                )}
-
-                {/* Transfer Status - Enhanced Design */}
-                {doTransferOut && transferring && (
-                    <div className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-cyan-50 border border-blue-300 rounded-full shadow-sm">
-                        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                            <span className="text-blue-600 text-sm">🔄</span>
-                        </div>
-                        <span className="text-sm font-semibold text-blue-800">Transferring {amountOut} tokens...</span>
-                    </div>
-                )}
-
-                {/* Transfer Success - Enhanced Design */}
-                {doTransferOut && !transferring && transferHash && (
-                    <div className="flex items-center space-x-3 p-4 bg-gradient-to-r from-green-50 to-emerald-50 border border-green-300 rounded-full shadow-sm">
-                        <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                            <span className="text-green-600 text-sm">✅</span>
-                        </div>
-                        <span className="text-sm font-semibold text-green-800">Transfer completed successfully</span>
+                        )}
                     </div>
-                )}
+                </div>
 
                 {/* Submit Button */}
                 <div className="text-center">
@@ -635,9 +557,9 @@ export default function CreateOrder({ otcAddress, tokenIn, tokenOut, onOrderCrea
                         type="submit"
                         size="lg"
                         className="w-full bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-full font-medium transition-colors"
-                        disabled={loading || transferring || !fhevmInstance || !ethersSigner || fhevmStatus !== "ready" || (doTransferOut && !isApproved)}
+                        disabled={loading || !fhevmInstance || !ethersSigner || fhevmStatus !== "ready" || !isApproved}
                     >
-                        {transferring ? "Transferring Tokens..." : loading ? "Creating Order..." : (doTransferOut && !isApproved) ? "Approve Operator First" : "Create Order"}
+                        {loading ? "Creating Order..." : !isApproved ? "Approve Operator First" : "Create Order"}
                     </Button>
                 </div>
 
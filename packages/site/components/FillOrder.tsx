@@ -1,8 +1,13 @@
 import { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import { OTC_ABI } from "@/abi/otc";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildOtcInputs } from "@/lib/otcInputs";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
 import { useFhevm } from "@/fhevm/useFhevm";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { parseAmount } from "@/lib/amounts";
+import { tokenLabel } from "@/lib/tokens";
 
 type Props = {
     otcAddress: `0x${string}`;
@@ -10,7 +15,7 @@ type Props = {
 };
 
 export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
-    const { ethersSigner, isConnected, connect, provider, chainId } = useMetaMaskEthersSigner();
+    const { ethersSigner, ethersReadonlyProvider, isConnected, connect, provider, chainId } = useMetaMaskEthersSigner();
     const { instance: fhevmInstance, status: fhevmStatus, error: fhevmError } = useFhevm({
         provider,
         chainId,
@@ -18,9 +23,26 @@ export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
     });
     const [orderId, setOrderId] = useState<string>("0");
     const [payIn, setPayIn] = useState<string>("100");
-    const [doTransferIn, setDoTransferIn] = useState(true);
+    const [receiveOut, setReceiveOut] = useState<string>("200");
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>("");
+    // Pair of the order being filled, read when the ID changes
+    const [pair, setPair] = useState<{ tokenIn: string; tokenOut: string } | null>(null);
+    const tokenDecimals = useTokenDecimals(pair ? [pair.tokenIn, pair.tokenOut] : []);
+
+    useEffect(() => {
+        setPair(null);
+        if (!ethersReadonlyProvider || !/^\d+$/.test(orderId)) return;
+
+        let cancelled = false;
+        new ethers.Contract(otcAddress, OTC_ABI, ethersReadonlyProvider).orders(BigInt(orderId))
+            .then((order: any) => {
+                if (!cancelled && order.maker !== ethers.ZeroAddress) setPair({ tokenIn: order.tokenIn, tokenOut: order.tokenOut });
+            })
+            .catch((err: any) => console.error("Failed to read order:", err));
+
+        return () => { cancelled = true; };
+    }, [ethersReadonlyProvider, otcAddress, orderId]);
 
     // Update error state if FHEVM has an error
     useEffect(() => {
@@ -41,16 +63,31 @@ export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
                 throw new Error("Signer address not available");
             }
 
-            const payInInput = fhevmInstance.createEncryptedInput(otcAddress, ethersSigner.address);
-            payInInput.add32(parseInt(payIn));
-            const payInEnc = await payInInput.encrypt();
+            const decimalsIn = pair ? tokenDecimals[pair.tokenIn.toLowerCase()] : undefined;
+            const decimalsOut = pair ? tokenDecimals[pair.tokenOut.toLowerCase()] : undefined;
+            if (!pair || decimalsIn === undefined || decimalsOut === undefined) {
+                throw new Error(`Order #${orderId} was not found, or its token decimals are still loading`);
+            }
+            const payUnits = parseAmount(payIn, decimalsIn);
+            const receiveUnits = parseAmount(receiveOut, decimalsOut);
+
+            // The escrow pulls the payment on fill: approve it on tokenIn if it is not an operator yet
+            const tokenInContract = new ethers.Contract(pair.tokenIn, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+            if (!(await tokenInContract.isOperator(ethersSigner.address, otcAddress))) {
+                await (await tokenInContract.setOperator(otcAddress, Math.floor(Date.now() / 1000) + 86400)).wait();
+            }
+
+            const payInEnc = await buildOtcInputs(fhevmInstance, "fillOrder", otcAddress, ethersSigner.address, {
+                takerPayExt: payUnits,
+                takerReceiveExt: receiveUnits,
+            });
 
             const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
             const tx = await contract.fillOrder(
                 BigInt(orderId),
-                payInEnc.handles[0],  // takerPayExt
-                payInEnc.inputProof, // attestation
-                doTransferIn
+                payInEnc.handles.takerPayExt,
+                payInEnc.handles.takerReceiveExt,
+                payInEnc.inputProof // attestation
             );
 
             const receipt = await tx.wait();
@@ -60,6 +97,7 @@ export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
             // Reset form
             setOrderId("0");
             setPayIn("100");
+            setReceiveOut("200");
 
         } catch (err: any) {
             console.error("Failed to fill order:", err);
@@ -134,13 +172,12 @@ export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
                     {/* Pay In Amount */}
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Pay In Amount (uint64) *
+                            Pay Amount{pair ? ` (${tokenLabel(chainId, pair.tokenIn)})` : ""} *
                         </label>
                         <input
                             value={payIn}
                             onChange={e => setPayIn(e.target.value)}
-                            type="number"
-                            min="1"
+                            inputMode="decimal"
                             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
                             placeholder="100"
                             required
@@ -148,20 +185,26 @@ export default function FillOrder({ otcAddress, onOrderFilled }: Props) {
                         <p className="text-xs text-gray-500 mt-1">Amount you're willing to pay for this order</p>
                     </div>
 
-                    {/* Transfer Option */}
-                    <div className="flex items-center">
+                    {/* Receive Amount */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Receive Amount{pair ? ` (${tokenLabel(chainId, pair.tokenOut)})` : ""} *
+                        </label>
                         <input
-                            id="doTransferIn"
-                            type="checkbox"
-                            checked={doTransferIn}
-                            onChange={e => setDoTransferIn(e.target.checked)}
-                            className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                            value={receiveOut}
+                            onChange={e => setReceiveOut(e.target.value)}
+                            inputMode="decimal"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                            placeholder="200"
+                            required
                         />
-                        <label htmlFor="doTransferIn" className="ml-2 block text-sm text-gray-700">
-                            Transfer tokens in immediately when filling the order
-                        </label>
+                        <p className="text-xs text-gray-500 mt-1">Part of the order&apos;s token out you want (the whole amount for a full fill)</p>
                     </div>
 
+                    <p className="text-xs text-gray-500">
+                        Your payment is held in escrow until the fill is settled, and refunded if the fill is rejected.
+                    </p>
+
                     {/* Submit Button */}
                     <button
                         type="submit"
@@ -2,27 +2,36 @@ import { useState, useEffect } from "react";
 import CreateOrder from "./CreateOrder";
 import { Orders } from "./Orders";
 import { RevealAndAudit } from "./RevealAndAudit";
+import { AuditorPanel } from "./AuditorPanel";
+import { Portfolio } from "./Portfolio";
+import { TokenTools } from "./TokenTools";
+import { BatchOrders } from "./BatchOrders";
 import ContractDebugger from "./ContractDebugger";
-import { useOrderEvents } from "@/hooks/useOrderEvents";
+import { AdminPanel } from "./AdminPanel";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useEscrowRoles } from "@/hooks/useEscrowRoles";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 
 type Props = {
     otcAddress: `0x${string}`;
+    // Basket escrow (multi-leg orders); empty hides baskets
+    basketAddress?: `0x${string}` | "";
+    otcStartBlock?: number;
+    indexerUrl?: string;
     gatewayAddress: `0x${string}`;
     tokenIn: `0x${string}`;
     tokenOut: `0x${string}`;
 };
 
-export default function OTCDemo({ otcAddress, gatewayAddress, tokenIn, tokenOut }: Props) {
-    const [activeTab, setActiveTab] = useState<"create" | "orders" | "audit" | "debug">("create");
-    const { orders, onOrderCreated, onOrderFilled, onTermsRevealed } = useOrderEvents();
+export default function OTCDemo({ otcAddress, basketAddress = "", otcStartBlock = 0, indexerUrl = "", gatewayAddress, tokenIn, tokenOut }: Props) {
+    const [activeTab, setActiveTab] = useState<"create" | "orders" | "batch" | "portfolio" | "tokens" | "audit" | "auditor" | "debug" | "admin">("create");
     const { chainId, isConnected, connect } = useMetaMaskEthersSigner();
+    const { hasAnyRole } = useEscrowRoles(otcAddress);
 
-    // Prevent background scrolling when orders modal is open
+    // Prevent background scrolling while a modal is open
     useEffect(() => {
-        if (activeTab === "orders") {
+        if (activeTab !== "create") {
             document.body.style.overflow = "hidden";
         } else {
             document.body.style.overflow = "unset";
@@ -119,6 +128,44 @@ export default function OTCDemo({ otcAddress, gatewayAddress, tokenIn, tokenOut
                                     >
                                         📋 View All Orders
                                     </button>
+                                    <button
+                                        onClick={() => setActiveTab("batch")}
+                                        className="w-full mt-2 bg-sky-600 hover:bg-sky-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                    >
+                                        📦 Batch Orders
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab("portfolio")}
+                                        className="w-full mt-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                    >
+                                        💼 Portfolio
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab("tokens")}
+                                        className="w-full mt-2 bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                    >
+                                        🪙 {chainId === 31337 ? "Faucet & Tokens" : "Tokens"}
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab("audit")}
+                                        className="w-full mt-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                    >
+                                        🔍 Reveal & Audit
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab("auditor")}
+                                        className="w-full mt-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                    >
+                                        🧾 Auditor
+                                    </button>
+                                    {hasAnyRole && (
+                                        <button
+                                            onClick={() => setActiveTab("admin")}
+                                            className="w-full mt-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm"
+                                        >
+                                            🛡️ Admin
+                                        </button>
+                                    )}
                                 </div>
                             </CardContent>
                         </Card>
@@ -130,7 +177,7 @@ export default function OTCDemo({ otcAddress, gatewayAddress, tokenIn, tokenOut
                                     otcAddress={otcAddress}
                                     tokenIn={tokenIn}
                                     tokenOut={tokenOut}
-                                    onOrderCreated={onOrderCreated}
+                                    basketAddress={basketAddress}
                                 />
                             </CardContent>
                         </Card>
@@ -157,7 +204,163 @@ export default function OTCDemo({ otcAddress, gatewayAddress, tokenIn, tokenOut
 
                             {/* Modal Content */}
                             <div className="flex-1 overflow-y-auto p-6">
-                                <Orders otcAddress={otcAddress} />
+                                <Orders otcAddress={otcAddress} startBlock={otcStartBlock} indexerUrl={indexerUrl} basketAddress={basketAddress} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Batch Orders Modal/Overlay */}
+                {activeTab === "batch" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">📦 Batch Orders</h2>
+                                    <p className="text-gray-600">Create several orders with one encryption and one transaction</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto p-6">
+                                <BatchOrders otcAddress={otcAddress} tokenIn={tokenIn} tokenOut={tokenOut} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Portfolio Modal/Overlay */}
+                {activeTab === "portfolio" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">💼 Portfolio</h2>
+                                    <p className="text-gray-600">Your confidential token balances and escrowed amounts</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto p-6">
+                                <Portfolio otcAddress={otcAddress} tokens={[tokenIn, tokenOut]} startBlock={otcStartBlock} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Token Tools Modal/Overlay */}
+                {activeTab === "tokens" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">🪙 Tokens</h2>
+                                    <p className="text-gray-600">Mint, transfer and approve operators for confidential tokens</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto p-6">
+                                <TokenTools otcAddress={otcAddress} tokens={[tokenIn, tokenOut]} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Reveal & Audit Modal/Overlay */}
+                {activeTab === "audit" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">🔍 Reveal & Audit</h2>
+                                    <p className="text-gray-600">Reveal your closed orders and audit revealed terms</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto">
+                                <RevealAndAudit otcAddress={otcAddress} startBlock={otcStartBlock} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Auditor Modal/Overlay */}
+                {activeTab === "auditor" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">🧾 Auditor</h2>
+                                    <p className="text-gray-600">Grant view access to your orders, or decrypt the orders granted to you</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto">
+                                <AuditorPanel otcAddress={otcAddress} startBlock={otcStartBlock} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Admin Modal/Overlay, only reachable by role holders */}
+                {activeTab === "admin" && (
+                    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                            {/* Modal Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-gray-900">🛡️ Escrow Admin</h2>
+                                    <p className="text-gray-600">Pause the escrow, manage fees and role holders</p>
+                                </div>
+                                <button
+                                    onClick={() => setActiveTab("create")}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-4 py-2 rounded-full font-medium transition-colors"
+                                >
+                                    ✕ Close
+                                </button>
+                            </div>
+
+                            {/* Modal Content */}
+                            <div className="flex-1 overflow-y-auto p-6">
+                                <AdminPanel otcAddress={otcAddress} />
                             </div>
                         </div>
                     </div>
@@ -1,10 +1,19 @@
-import { useOrderEvents } from "@/hooks/useOrderEvents";
-import { useOrders } from "@/hooks/useOrders";
+import { useOrderEvents, type OrderEventType } from "@/hooks/useOrderEvents";
+import { useOrders, type OrdersView, type OrderWithDetails } from "@/hooks/useOrders";
+import { useMakerDecryption } from "@/hooks/useMakerDecryption";
+import { useEscrowRoles } from "@/hooks/useEscrowRoles";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
 import { useFhevm } from "@/fhevm/useFhevm";
 import { ethers } from "ethers";
 import { OTC_ABI } from "@/abi/otc";
-import { useState } from "react";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildOtcInputs } from "@/lib/otcInputs";
+import { explorerTxUrl } from "@/lib/explorer";
+import { pairLabel, tokenLabel, tokensForChain } from "@/lib/tokens";
+import { formatAmount, parseAmount } from "@/lib/amounts";
+import { useTokenDecimals } from "@/hooks/useTokenDecimals";
+import { BasketOrders } from "@/components/BasketOrders";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,28 +21,84 @@ import { Label } from "@/components/ui/label";
 
 type Props = {
     otcAddress: string;
+    startBlock?: number; // first block scanned for order history
+    indexerUrl?: string; // read order pages from the otc-indexer instead of the escrow
+    basketAddress?: string; // also list the baskets of this basket escrow
 };
 
-export function Orders({ otcAddress }: Props) {
+const EVENT_ICONS: Record<OrderEventType, string> = {
+    OrderCreated: "📝",
+    FillRequested: "✅",
+    OrderFinalized: "🎯",
+    OrderCancelled: "❌",
+    OrderAmended: "✏️",
+    OrderReclaimed: "↩️",
+    OrderEmergencyWithdrawn: "🚨",
+    TermsRevealed: "🔍",
+};
+
+export function Orders({ otcAddress, startBlock = 0, indexerUrl = "", basketAddress = "" }: Props) {
     const { isConnected, ethersSigner, provider, chainId } = useMetaMaskEthersSigner();
     const { instance: fhevmInstance, status: fhevmStatus, error: fhevmError } = useFhevm({
         provider,
         chainId,
         enabled: !!provider
     });
-    const { orders: contractOrders, loading, error, refreshOrders } = useOrders(otcAddress);
-    const { orders: eventOrders } = useOrderEvents();
-    const [showMockOrders, setShowMockOrders] = useState(false);
-    const [filterStatus, setFilterStatus] = useState<"all" | "active" | "filled" | "cancelled" | "expired">("all");
+    const [filterStatus, setFilterStatus] = useState<"all" | "active" | "cancelled" | "expired">("all");
     const [filterMine, setFilterMine] = useState<"all" | "mine" | "others">("all");
+    // Orders trading this token on either side; "" for any token
+    const [filterToken, setFilterToken] = useState<string>("");
+    // Page through the narrowest contract view that covers the filters; the rest is filtered here
+    const view: OrdersView = filterMine === "mine" ? "mine" : filterStatus === "active" ? "open" : "all";
+    const { orders: contractOrders, loading, error, hasMore, loadMore, refreshOrders } = useOrders(otcAddress, view, { indexerUrl });
+    const { getOrderTimeline, loading: historyLoading, error: historyError } = useOrderEvents(otcAddress, startBlock);
+    const { paused } = useEscrowRoles(otcAddress);
+    const { getTerms, decryptOrders, decrypting, error: decryptError } = useMakerDecryption(otcAddress, fhevmInstance);
+    const [showHistory, setShowHistory] = useState(false);
+    const tokenDecimals = useTokenDecimals(contractOrders.flatMap((order) => [order.tokenIn, order.tokenOut]));
+    const decimalsOf = (token: string): number | undefined => tokenDecimals[token.toLowerCase()];
+    // Base units until the token's decimals are known
+    const formatTokenAmount = (amount: bigint, token: string) => {
+        const decimals = decimalsOf(token);
+        return decimals === undefined ? amount.toString() : formatAmount(amount, decimals);
+    };
 
     // Fill order modal state
     const [showFillModal, setShowFillModal] = useState(false);
     const [selectedOrder, setSelectedOrder] = useState<any>(null);
     const [payIn, setPayIn] = useState<string>("100");
-    const [doTransferIn, setDoTransferIn] = useState(true);
+    const [receiveOut, setReceiveOut] = useState<string>("200");
     const [fillLoading, setFillLoading] = useState(false);
     const [fillError, setFillError] = useState<string>("");
+    const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+    // Amend order modal state (maker only)
+    const [amendingOrder, setAmendingOrder] = useState<OrderWithDetails | null>(null);
+    const [amendAmountIn, setAmendAmountIn] = useState<string>("");
+    // The prefilled price of the remainder: saving it unchanged (or empty) moves only the deadline
+    const [amendCurrentAmountIn, setAmendCurrentAmountIn] = useState<string>("");
+    const [amendDeadline, setAmendDeadline] = useState<number>(0);
+    const [amendLoading, setAmendLoading] = useState(false);
+    const [amendError, setAmendError] = useState<string>("");
+    const [withdrawError, setWithdrawError] = useState<string>("");
+
+    // The maker's orders selected for a batch cancel (ids)
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [cancelling, setCancelling] = useState(false);
+    const [cancelError, setCancelError] = useState<string>("");
+
+    // Infinite scroll: load the next page once the end of the list comes into view
+    const loadMoreRef = useRef<HTMLDivElement>(null);
+    useEffect(() => {
+        const sentinel = loadMoreRef.current;
+        if (!sentinel || !hasMore) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries[0].isIntersecting) loadMore();
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, loadMore]);
 
     if (!isConnected) {
         return (
@@ -47,7 +112,7 @@ export function Orders({ otcAddress }: Props) {
         );
     }
 
-    if (loading) {
+    if (loading && contractOrders.length === 0) {
         return (
             <div className="p-8 text-center">
                 <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-8 max-w-md mx-auto">
@@ -77,7 +142,7 @@ export function Orders({ otcAddress }: Props) {
         );
     }
 
-    if (contractOrders.length === 0) {
+    if (contractOrders.length === 0 && view === "all") {
         return (
             <div className="p-8 text-center">
                 <div className="bg-gray-50 border border-gray-200 rounded-xl p-8 max-w-md mx-auto">
@@ -101,13 +166,16 @@ export function Orders({ otcAddress }: Props) {
         const mineMatch = filterMine === "all" ||
             (filterMine === "mine" && order.isMine) ||
             (filterMine === "others" && !order.isMine);
-        return statusMatch && mineMatch;
+        const tokenMatch = filterToken === "" ||
+            order.tokenIn.toLowerCase() === filterToken.toLowerCase() ||
+            order.tokenOut.toLowerCase() === filterToken.toLowerCase();
+        return statusMatch && mineMatch && tokenMatch;
     });
+    const registeredTokens = tokensForChain(chainId);
 
     const getStatusColor = (status: string) => {
         switch (status) {
             case "active": return "bg-green-100 text-green-800 border-green-200";
-            case "filled": return "bg-blue-100 text-blue-800 border-blue-200";
             case "cancelled": return "bg-red-100 text-red-800 border-red-200";
             case "expired": return "bg-gray-100 text-gray-800 border-gray-200";
             default: return "bg-gray-100 text-gray-800 border-gray-200";
@@ -117,7 +185,6 @@ export function Orders({ otcAddress }: Props) {
     const getStatusIcon = (status: string) => {
         switch (status) {
             case "active": return "🟢";
-            case "filled": return "✅";
             case "cancelled": return "❌";
             case "expired": return "⏰";
             default: return "❓";
@@ -132,15 +199,70 @@ export function Orders({ otcAddress }: Props) {
         return `${minutes}m`;
     };
 
+    const formatAge = (timestampMs: number) => {
+        const seconds = Math.max(0, Math.floor((Date.now() - timestampMs) / 1000));
+        if (seconds < 60) return "just now";
+        const days = Math.floor(seconds / 86400);
+        if (days > 0) return `${days}d ago`;
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        if (hours > 0) return `${hours}h ${minutes}m ago`;
+        return `${minutes}m ago`;
+    };
+
     const formatAddress = (address: string) => {
         return `${address.slice(0, 6)}...${address.slice(-4)}`;
     };
 
+    // Plaintext terms for the maker's decrypted orders, the amountIn handle otherwise. amountIn prices pricedOut,
+    // which is the order size until the maker amends the price
+    const renderTerms = (order: OrderWithDetails) => {
+        const terms = order.isMine ? getTerms(order) : undefined;
+        if (terms) {
+            return (
+                <div>
+                    <span className="text-gray-500">Terms:</span>
+                    <div className="text-xs">
+                        {formatTokenAmount(terms.amountIn, order.tokenIn)} in / {formatTokenAmount(terms.pricedOut, order.tokenOut)} out
+                    </div>
+                    {terms.pricedOut !== BigInt(0) && (
+                        <div className="text-xs text-gray-500">
+                            Price: {(Number(formatTokenAmount(terms.amountIn, order.tokenIn)) / Number(formatTokenAmount(terms.pricedOut, order.tokenOut))).toPrecision(6)} in per out
+                        </div>
+                    )}
+                    {terms.pricedOut !== terms.amountOut && (
+                        <div className="text-xs text-gray-500">
+                            Repriced for the remainder; order size {formatTokenAmount(terms.amountOut, order.tokenOut)}
+                        </div>
+                    )}
+                    <div className="text-xs">
+                        Taker: {terms.taker === ethers.ZeroAddress ? "anyone" : <span className="font-mono">{formatAddress(terms.taker)}</span>}
+                    </div>
+                </div>
+            );
+        }
+        return (
+            <div>
+                <span className="text-gray-500">Encrypted:</span>
+                <div className="text-xs">Amount In: 0x{order.amountInEnc.slice(0, 6)}...</div>
+                {order.isMine && (
+                    <button
+                        onClick={() => decryptOrders(contractOrders)}
+                        disabled={decrypting || !fhevmInstance}
+                        className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                        {decrypting ? "Decrypting..." : "🔓 Decrypt"}
+                    </button>
+                )}
+            </div>
+        );
+    };
+
     // Fill order functionality
     const handleFillOrder = (order: any) => {
         setSelectedOrder(order);
         setPayIn("100");
-        setDoTransferIn(true);
+        setReceiveOut("200");
         setFillError("");
         setShowFillModal(true);
     };
@@ -158,16 +280,31 @@ export function Orders({ otcAddress }: Props) {
                 throw new Error("Signer address not available");
             }
 
-            const payInInput = fhevmInstance.createEncryptedInput(otcAddress, ethersSigner.address);
-            payInInput.add64(BigInt(parseInt(payIn))); // Use add64 for uint64
-            const payInEnc = await payInInput.encrypt();
+            const decimalsIn = decimalsOf(selectedOrder.tokenIn);
+            const decimalsOut = decimalsOf(selectedOrder.tokenOut);
+            if (decimalsIn === undefined || decimalsOut === undefined) {
+                throw new Error("Token decimals are still loading. Please try again.");
+            }
+            const payUnits = parseAmount(payIn, decimalsIn);
+            const receiveUnits = parseAmount(receiveOut, decimalsOut);
+
+            // The escrow pulls the payment on fill: approve it on tokenIn if it is not an operator yet
+            const tokenInContract = new ethers.Contract(selectedOrder.tokenIn, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+            if (!(await tokenInContract.isOperator(ethersSigner.address, otcAddress))) {
+                await (await tokenInContract.setOperator(otcAddress, Math.floor(Date.now() / 1000) + 86400)).wait();
+            }
+
+            const payInEnc = await buildOtcInputs(fhevmInstance, "fillOrder", otcAddress, ethersSigner.address, {
+                takerPayExt: payUnits,
+                takerReceiveExt: receiveUnits,
+            });
 
             const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
             const tx = await contract.fillOrder(
                 BigInt(selectedOrder.id),
-                payInEnc.handles[0],  // takerPayExt
-                payInEnc.inputProof, // attestation
-                doTransferIn
+                payInEnc.handles.takerPayExt,
+                payInEnc.handles.takerReceiveExt,
+                payInEnc.inputProof // attestation
             );
 
             const receipt = await tx.wait();
@@ -185,6 +322,116 @@ export function Orders({ otcAddress }: Props) {
         }
     };
 
+    // Only available while the escrow is paused: returns the maker's remaining escrow and refunds pending fills
+    const onEmergencyWithdraw = async (order: any) => {
+        if (!ethersSigner) return;
+
+        setWithdrawingId(order.id);
+        setWithdrawError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const tx = await contract.emergencyWithdraw(BigInt(order.id));
+            const receipt = await tx.wait();
+            console.log("Emergency withdrawal with tx hash:", receipt.hash);
+            refreshOrders();
+        } catch (err: any) {
+            console.error("Failed to withdraw order:", err);
+            setWithdrawError(`Emergency withdrawal failed: ${err.reason || err.message}`);
+        } finally {
+            setWithdrawingId(null);
+        }
+    };
+
+    // Starts from the current terms: what the remaining amountOut costs at the current price, once decrypted
+    const handleAmendOrder = (order: OrderWithDetails) => {
+        const terms = getTerms(order);
+        const current = terms
+            ? formatTokenAmount(
+                terms.pricedOut === BigInt(0) ? terms.amountIn : (terms.amountIn * terms.remainingOut) / terms.pricedOut,
+                order.tokenIn,
+            )
+            : "";
+        setAmendingOrder(order);
+        setAmendAmountIn(current);
+        setAmendCurrentAmountIn(current);
+        setAmendDeadline(order.deadline);
+        setAmendError("");
+    };
+
+    const onAmendOrder = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fhevmInstance || !ethersSigner || !amendingOrder) return;
+
+        setAmendLoading(true);
+        setAmendError("");
+        try {
+            if (!Number.isInteger(amendDeadline) || amendDeadline <= Math.floor(Date.now() / 1000)) {
+                throw new Error("The deadline must be in the future.");
+            }
+
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            let tx;
+            if (amendAmountIn.trim() === "" || amendAmountIn.trim() === amendCurrentAmountIn) {
+                // Keeps amountIn pricing pricedOut: re-sending a price would apply it to the remainder only
+                tx = await contract.amendDeadline(BigInt(amendingOrder.id), BigInt(amendDeadline));
+            } else {
+                const decimalsIn = decimalsOf(amendingOrder.tokenIn);
+                if (decimalsIn === undefined) {
+                    throw new Error("Token decimals are still loading. Please try again.");
+                }
+                const enc = await buildOtcInputs(fhevmInstance, "amendOrder", otcAddress, ethersSigner.address, {
+                    newAmountInExt: parseAmount(amendAmountIn, decimalsIn),
+                });
+                tx = await contract.amendOrder(
+                    BigInt(amendingOrder.id),
+                    enc.handles.newAmountInExt,
+                    BigInt(amendDeadline),
+                    enc.inputProof
+                );
+            }
+            const receipt = await tx.wait();
+            console.log("Order amended with tx hash:", receipt.hash);
+
+            setAmendingOrder(null);
+            refreshOrders();
+        } catch (err: any) {
+            console.error("Failed to amend order:", err);
+            setAmendError(err.reason || err.message || "Failed to amend order");
+        } finally {
+            setAmendLoading(false);
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        const next = new Set(selectedIds);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelectedIds(next);
+    };
+
+    // Cancels every selected order in one transaction through the escrow's multicall (all or none)
+    const onCancelSelected = async () => {
+        if (!ethersSigner || selectedIds.size === 0) return;
+
+        setCancelling(true);
+        setCancelError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const calls = [...selectedIds].map((id) => contract.interface.encodeFunctionData("cancelOrder", [BigInt(id)]));
+            const tx = await contract.multicall(calls);
+            const receipt = await tx.wait();
+            console.log("Orders cancelled with tx hash:", receipt.hash);
+
+            setSelectedIds(new Set());
+            refreshOrders();
+        } catch (err: any) {
+            console.error("Failed to cancel orders:", err);
+            setCancelError(`Cancel failed: ${err.reason || err.message}`);
+        } finally {
+            setCancelling(false);
+        }
+    };
+
     const closeFillModal = () => {
         setShowFillModal(false);
         setSelectedOrder(null);
@@ -210,20 +457,51 @@ export function Orders({ otcAddress }: Props) {
                         Refresh
                     </Button>
                     <Button
-                        onClick={() => setShowMockOrders(!showMockOrders)}
+                        onClick={() => setShowHistory(!showHistory)}
                         variant="outline"
                         size="sm"
                     >
-                        {showMockOrders ? "Hide" : "Show"} Mock Events
+                        {showHistory ? "Hide" : "Show"} History
                     </Button>
+                    {contractOrders.some((order) => order.isMine) && (
+                        <Button
+                            onClick={() => decryptOrders(contractOrders)}
+                            variant="outline"
+                            size="sm"
+                            disabled={decrypting || !fhevmInstance || fhevmStatus !== "ready"}
+                        >
+                            {decrypting ? "Decrypting..." : "Decrypt My Orders"}
+                        </Button>
+                    )}
+                    {selectedIds.size > 0 && !paused && (
+                        <Button
+                            onClick={onCancelSelected}
+                            variant="outline"
+                            size="sm"
+                            disabled={cancelling}
+                        >
+                            {cancelling ? "Cancelling..." : `Cancel Selected (${selectedIds.size})`}
+                        </Button>
+                    )}
                 </div>
                 <div className="text-sm text-gray-600 bg-gray-100 px-3 py-1 rounded-full">
-                    {filteredOrders.length} of {contractOrders.length} orders
+                    {filteredOrders.length} of {contractOrders.length}{hasMore ? "+" : ""} orders
                 </div>
             </div>
 
+            {decryptError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{decryptError}</p>
+                </div>
+            )}
+            {cancelError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{cancelError}</p>
+                </div>
+            )}
+
             {/* Filters */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+            <div className={`grid grid-cols-1 gap-4 mb-4 ${registeredTokens.length > 0 ? "sm:grid-cols-3" : "sm:grid-cols-2"}`}>
                 <div>
                     <Label className="block text-sm font-medium text-gray-700 mb-1">Status</Label>
                     <select
@@ -233,7 +511,6 @@ export function Orders({ otcAddress }: Props) {
                     >
                         <option value="all">All Status</option>
                         <option value="active">Active</option>
-                        <option value="filled">Filled</option>
                         <option value="cancelled">Cancelled</option>
                         <option value="expired">Expired</option>
                     </select>
@@ -250,6 +527,23 @@ export function Orders({ otcAddress }: Props) {
                         <option value="others">Others' Orders</option>
                     </select>
                 </div>
+                {registeredTokens.length > 0 && (
+                    <div>
+                        <Label className="block text-sm font-medium text-gray-700 mb-1">Token</Label>
+                        <select
+                            value={filterToken}
+                            onChange={(e) => setFilterToken(e.target.value)}
+                            className="w-full h-9 px-3 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                            <option value="">All Tokens</option>
+                            {registeredTokens.map((token) => (
+                                <option key={token.address} value={token.address}>
+                                    {token.icon ? `${token.icon} ` : ""}{token.symbol}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
             </div>
 
             {/* Orders List */}
@@ -262,6 +556,15 @@ export function Orders({ otcAddress }: Props) {
                         <CardContent className="p-4">
                             <div className="flex items-center justify-between mb-3">
                                 <div className="flex items-center space-x-3">
+                                    {order.isMine && order.status !== "cancelled" && !paused && (
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(order.id)}
+                                            onChange={() => toggleSelected(order.id)}
+                                            title="Select for a batch cancel"
+                                            className="h-4 w-4"
+                                        />
+                                    )}
                                     <span className="text-xl">{getStatusIcon(order.status)}</span>
                                     <div>
                                         <div className="flex items-center space-x-2">
@@ -276,9 +579,32 @@ export function Orders({ otcAddress }: Props) {
                                                     YOURS
                                                 </span>
                                             )}
+                                            <span className="text-sm font-medium text-gray-700">
+                                                {pairLabel(chainId, order.tokenIn, order.tokenOut)}
+                                            </span>
                                         </div>
                                         <p className="text-sm text-gray-500">
-                                            By {formatAddress(order.maker)} • {new Date(order.createdAt).toLocaleDateString()}
+                                            By {formatAddress(order.maker)} •{" "}
+                                            <span title={`${new Date(order.createdAt).toLocaleString()} (block ${order.createdBlock})`}>
+                                                {formatAge(order.createdAt)}
+                                            </span>
+                                            {order.createdTxHash && (
+                                                <>
+                                                    {" "}•{" "}
+                                                    {explorerTxUrl(chainId, order.createdTxHash) ? (
+                                                        <a
+                                                            href={explorerTxUrl(chainId, order.createdTxHash)}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="font-mono text-blue-600 hover:underline"
+                                                        >
+                                                            {formatAddress(order.createdTxHash)}
+                                                        </a>
+                                                    ) : (
+                                                        <span className="font-mono">{formatAddress(order.createdTxHash)}</span>
+                                                    )}
+                                                </>
+                                            )}
                                         </p>
                                     </div>
                                 </div>
@@ -293,43 +619,133 @@ export function Orders({ otcAddress }: Props) {
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
                                 <div>
                                     <span className="text-gray-500">Token In:</span>
-                                    <div className="font-mono text-xs">{formatAddress(order.tokenIn)}</div>
+                                    <div className="text-xs" title={order.tokenIn}>{tokenLabel(chainId, order.tokenIn)}</div>
                                 </div>
                                 <div>
                                     <span className="text-gray-500">Token Out:</span>
-                                    <div className="font-mono text-xs">{formatAddress(order.tokenOut)}</div>
+                                    <div className="text-xs" title={order.tokenOut}>{tokenLabel(chainId, order.tokenOut)}</div>
                                 </div>
                                 <div>
                                     <span className="text-gray-500">Deadline:</span>
                                     <div className="text-xs">{new Date(order.deadline * 1000).toLocaleDateString()}</div>
                                 </div>
-                                <div>
-                                    <span className="text-gray-500">Encrypted:</span>
-                                    <div className="text-xs">Amount In: 0x{order.amountInEnc.slice(0, 6)}...</div>
-                                </div>
+                                {renderTerms(order)}
                             </div>
 
+                            {/* Fills */}
+                            {order.fills.length > 0 && (
+                                <div className="mb-3 text-sm">
+                                    <span className="text-gray-500">
+                                        Fills: {order.fills.length} ({order.pendingFills} pending)
+                                    </span>
+                                    <ul className="mt-1 space-y-1">
+                                        {order.fills.map((fill) => (
+                                            <li key={fill.index} className="flex items-center justify-between text-xs">
+                                                <span>
+                                                    #{fill.index} by <span className="font-mono">{formatAddress(fill.taker)}</span>
+                                                </span>
+                                                <span className="font-mono text-gray-500">
+                                                    pay 0x{fill.payEnc.slice(2, 8)}... / received 0x{fill.receivedEnc.slice(2, 8)}...
+                                                </span>
+                                                <span className={fill.settled ? "text-blue-700" : "text-orange-600"}>
+                                                    {fill.settled ? "settled" : "pending"}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {/* History, rebuilt from the escrow's logs */}
+                            {showHistory && (
+                                <div className="mb-3 text-sm">
+                                    <span className="text-gray-500">History</span>
+                                    {getOrderTimeline(order.id).length === 0 ? (
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {historyError || (historyLoading ? "Loading events..." : "No events found since the configured start block")}
+                                        </p>
+                                    ) : (
+                                        <ul className="mt-1 space-y-1">
+                                            {getOrderTimeline(order.id).map((event) => (
+                                                <li key={`${event.txHash}-${event.logIndex}`} className="flex items-center justify-between text-xs">
+                                                    <span>
+                                                        {EVENT_ICONS[event.type]} {event.type.replace(/([A-Z])/g, " $1").trim()}
+                                                        {event.fillIndex !== undefined && ` #${event.fillIndex}`}
+                                                        {event.taker ? (
+                                                            <> by <span className="font-mono">{formatAddress(event.taker)}</span></>
+                                                        ) : event.maker && (
+                                                            <> by <span className="font-mono">{formatAddress(event.maker)}</span></>
+                                                        )}
+                                                    </span>
+                                                    <span className="text-gray-500">
+                                                        {new Date(event.timestamp).toLocaleString()} •{" "}
+                                                        {explorerTxUrl(chainId, event.txHash) ? (
+                                                            <a
+                                                                href={explorerTxUrl(chainId, event.txHash)}
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                className="font-mono text-blue-600 hover:underline"
+                                                            >
+                                                                {formatAddress(event.txHash)}
+                                                            </a>
+                                                        ) : (
+                                                            <span className="font-mono">{formatAddress(event.txHash)}</span>
+                                                        )}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Action Buttons */}
-                            {order.status === "active" && (
+                            {paused && order.isMine && order.status !== "cancelled" && (
+                                <div className="flex items-center justify-end gap-3 mb-2">
+                                    {withdrawError && withdrawingId === null && (
+                                        <span className="text-xs text-red-700">{withdrawError}</span>
+                                    )}
+                                    <Button
+                                        onClick={() => onEmergencyWithdraw(order)}
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={withdrawingId === order.id}
+                                    >
+                                        {withdrawingId === order.id ? "Withdrawing..." : "Emergency Withdraw"}
+                                    </Button>
+                                </div>
+                            )}
+                            {order.status === "active" && !paused && (
                                 <div className="flex justify-end">
                                     {!order.isMine && (
                                         <Button
                                             onClick={() => handleFillOrder(order)}
                                             size="sm"
-                                            disabled={!fhevmInstance || fhevmStatus !== "ready"}
+                                            disabled={!fhevmInstance || fhevmStatus !== "ready" || order.isReservedForOther}
                                         >
                                             Fill Order
                                         </Button>
                                     )}
                                     {order.isMine && (
-                                        <Button
-                                            onClick={() => handleFillOrder(order)}
-                                            variant="outline"
-                                            size="sm"
-                                            disabled={!fhevmInstance || fhevmStatus !== "ready"}
-                                        >
-                                            Test Fill
-                                        </Button>
+                                        <div className="flex gap-2">
+                                            <Button
+                                                onClick={() => handleAmendOrder(order)}
+                                                variant="outline"
+                                                size="sm"
+                                                disabled={!fhevmInstance || fhevmStatus !== "ready" || order.pendingFills > 0}
+                                                title={order.pendingFills > 0 ? "Orders can be edited once their pending fills are settled" : undefined}
+                                            >
+                                                Edit
+                                            </Button>
+                                            <Button
+                                                onClick={() => handleFillOrder(order)}
+                                                variant="outline"
+                                                size="sm"
+                                                disabled={!fhevmInstance || fhevmStatus !== "ready" || order.isReservedForOther}
+                                            >
+                                                Test Fill
+                                            </Button>
+                                        </div>
                                     )}
                                 </div>
                             )}
@@ -338,24 +754,22 @@ export function Orders({ otcAddress }: Props) {
                             {order.status === "active" && (
                                 <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
                                     <p className="text-sm text-green-800">
-                                        <strong>Active Order:</strong> This order is available for filling.
-                                        {order.isMine ? " You can cancel it if needed." : " Click 'Fill Order' to complete this trade."}
-                                    </p>
-                                </div>
-                            )}
-
-                            {order.status === "filled" && (
-                                <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-md">
-                                    <p className="text-sm text-blue-800">
-                                        <strong>Order Filled:</strong> This order has been successfully completed.
+                                        <strong>Active Order:</strong> This order is available for filling, in full or in part.
+                                        {order.isMine ? " You can edit its price or deadline, or select it to cancel." : " Click 'Fill Order' to take some or all of it."}
                                     </p>
+                                    {order.isReservedForOther && (
+                                        <p className="text-xs text-orange-700 mt-1">
+                                            Reserved by {formatAddress(order.reservedBy)} for{" "}
+                                            {formatTimeRemaining(order.reservedUntil - Math.floor(Date.now() / 1000))} while their fill settles.
+                                        </p>
+                                    )}
                                 </div>
                             )}
 
                             {order.status === "cancelled" && (
                                 <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
                                     <p className="text-sm text-red-800">
-                                        <strong>Order Cancelled:</strong> This order has been cancelled by the maker.
+                                        <strong>Order Closed:</strong> The remaining amount was returned to the maker and pending fills were refunded.
                                     </p>
                                 </div>
                             )}
@@ -372,42 +786,19 @@ export function Orders({ otcAddress }: Props) {
                 ))}
             </div>
 
-            {/* Mock Events Section */}
-            {showMockOrders && eventOrders.length > 0 && (
-                <div className="mt-8">
-                    <h4 className="text-lg font-semibold text-gray-800 mb-4">📊 Mock Events ({eventOrders.length})</h4>
-                    <div className="space-y-4">
-                        {eventOrders.map((event, index) => (
-                            <div
-                                key={index}
-                                className="bg-yellow-50 border border-yellow-200 rounded-lg p-4"
-                            >
-                                <div className="flex items-center justify-between">
-                                    <div className="flex items-center space-x-3">
-                                        <span className="text-xl">
-                                            {event.type === "OrderCreated" && "📝"}
-                                            {event.type === "FillRequested" && "✅"}
-                                            {event.type === "OrderFinalized" && "🎯"}
-                                            {event.type === "OrderCancelled" && "❌"}
-                                            {event.type === "TermsRevealed" && "🔍"}
-                                        </span>
-                                        <div>
-                                            <h5 className="font-medium text-gray-900">
-                                                {event.type.replace(/([A-Z])/g, ' $1').trim()}
-                                            </h5>
-                                            <p className="text-sm text-gray-600">
-                                                {event.maker && `Maker: ${formatAddress(event.maker)}`}
-                                                {event.taker && `Taker: ${formatAddress(event.taker)}`}
-                                            </p>
-                                        </div>
-                                    </div>
-                                    <div className="text-right text-sm text-gray-500">
-                                        {new Date(event.timestamp).toLocaleString()}
-                                    </div>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
+            {/* Infinite scroll sentinel */}
+            {hasMore && (
+                <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+                    {loading ? "Loading more orders..." : "Scroll for more"}
+                </div>
+            )}
+            {!hasMore && filteredOrders.length === 0 && (
+                <div className="py-4 text-center text-sm text-gray-500">No orders match these filters</div>
+            )}
+
+            {basketAddress && (
+                <div className="pt-6 border-t border-gray-200">
+                    <BasketOrders basketAddress={basketAddress} />
                 </div>
             )}
 
@@ -441,8 +832,8 @@ export function Orders({ otcAddress }: Props) {
                                     <strong>Order Details:</strong>
                                 </p>
                                 <p className="text-xs text-gray-500 mt-1">
-                                    Token In: {formatAddress(selectedOrder.tokenIn)}<br />
-                                    Token Out: {formatAddress(selectedOrder.tokenOut)}<br />
+                                    You pay: {tokenLabel(chainId, selectedOrder.tokenIn)}<br />
+                                    You receive: {tokenLabel(chainId, selectedOrder.tokenOut)}<br />
                                     Maker: {formatAddress(selectedOrder.maker)}
                                 </p>
                             </div>
@@ -450,33 +841,40 @@ export function Orders({ otcAddress }: Props) {
                             {/* Pay In Amount */}
                             <div>
                                 <Label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Pay In Amount (uint64) *
+                                    Pay Amount ({tokenLabel(chainId, selectedOrder.tokenIn)}) *
                                 </Label>
                                 <Input
                                     value={payIn}
                                     onChange={e => setPayIn(e.target.value)}
-                                    type="number"
-                                    min="1"
-                                    placeholder="100"
+                                    inputMode="decimal"
+                                    placeholder="100.0"
                                     required
                                 />
                                 <p className="text-xs text-gray-500 mt-1">Amount you're willing to pay for this order</p>
                             </div>
 
-                            {/* Transfer Option */}
-                            <div className="flex items-center">
-                                <input
-                                    id="doTransferIn"
-                                    type="checkbox"
-                                    checked={doTransferIn}
-                                    onChange={e => setDoTransferIn(e.target.checked)}
-                                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                            {/* Receive Amount */}
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Receive Amount ({tokenLabel(chainId, selectedOrder.tokenOut)}) *
+                                </Label>
+                                <Input
+                                    value={receiveOut}
+                                    onChange={e => setReceiveOut(e.target.value)}
+                                    inputMode="decimal"
+                                    placeholder="200.0"
+                                    required
                                 />
-                                <label htmlFor="doTransferIn" className="ml-2 block text-sm text-gray-700">
-                                    Transfer tokens in immediately when filling the order
-                                </label>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Part of the order&apos;s token out you want. The fill is refunded if it exceeds what is left
+                                    or pays less than the maker&apos;s price pro rata.
+                                </p>
                             </div>
 
+                            <p className="text-xs text-gray-500">
+                                Your payment is held in escrow until the fill is settled, and refunded if the fill is rejected.
+                            </p>
+
                             {/* Error Display */}
                             {fillError && (
                                 <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -519,6 +917,83 @@ export function Orders({ otcAddress }: Props) {
                 </div>
             )
             }
+
+            {amendingOrder && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-semibold text-gray-900">Edit Order #{amendingOrder.id}</h3>
+                            <button
+                                onClick={() => setAmendingOrder(null)}
+                                className="text-gray-400 hover:text-gray-600"
+                            >
+                                ✕
+                            </button>
+                        </div>
+
+                        <form onSubmit={onAmendOrder} className="space-y-4">
+                            <div className="p-3 bg-gray-50 rounded-md">
+                                <p className="text-xs text-gray-500">
+                                    {pairLabel(chainId, amendingOrder.tokenIn, amendingOrder.tokenOut)}: the order keeps its id,
+                                    escrow and fills. The new price applies to what is left of it.
+                                </p>
+                            </div>
+
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Amount In ({tokenLabel(chainId, amendingOrder.tokenIn)})
+                                </Label>
+                                <Input
+                                    value={amendAmountIn}
+                                    onChange={e => setAmendAmountIn(e.target.value)}
+                                    inputMode="decimal"
+                                    placeholder="Current price"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    What you want for the amount still unfilled. Leave it unchanged or empty to change only the deadline.
+                                </p>
+                            </div>
+
+                            <div>
+                                <Label className="block text-sm font-medium text-gray-700 mb-1">Deadline (Unix timestamp) *</Label>
+                                <Input
+                                    value={amendDeadline}
+                                    onChange={e => setAmendDeadline(parseInt(e.target.value))}
+                                    type="number"
+                                    required
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {Number.isInteger(amendDeadline) ? new Date(amendDeadline * 1000).toLocaleString() : "Invalid deadline"}
+                                </p>
+                            </div>
+
+                            {amendError && (
+                                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                                    <p className="text-sm text-red-800">{amendError}</p>
+                                </div>
+                            )}
+
+                            <div className="flex space-x-3 pt-4">
+                                <Button
+                                    type="button"
+                                    onClick={() => setAmendingOrder(null)}
+                                    variant="outline"
+                                    className="flex-1"
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    type="submit"
+                                    className="flex-1"
+                                    disabled={amendLoading || !fhevmInstance || fhevmStatus !== "ready"}
+                                >
+                                    {amendLoading ? "Saving..." : "Save Changes"}
+                                </Button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
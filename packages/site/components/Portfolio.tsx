@@ -0,0 +1,94 @@
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { usePortfolio } from "@/hooks/usePortfolio";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { tokensForChain } from "@/lib/tokens";
+
+type Props = {
+    otcAddress: `0x${string}`;
+    tokens: string[]; // confidential tokens to list besides the registry's; tokens the account has in escrow are added
+    startBlock?: number; // first block scanned for the account's FillRequested
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+const formatAmount = (value: bigint | undefined, decimals: number) =>
+    value === undefined ? "🔒" : ethers.formatUnits(value, decimals);
+
+// Confidential token balances of the connected account, with what it has locked in escrow shown apart
+export function Portfolio({ otcAddress, tokens, startBlock = 0 }: Props) {
+    const { provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({
+        provider,
+        chainId,
+        enabled: !!provider
+    });
+    const listed = [...tokensForChain(chainId).map((token) => token.address), ...tokens];
+    const { rows, loading, decrypting, error, refresh, decrypt } =
+        usePortfolio(otcAddress, listed, startBlock, fhevmInstance);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                    Balances are encrypted on-chain; decrypting them asks your wallet for one signature.
+                    Locked amounts are the remaining escrow of your open orders and the payments of your pending fills.
+                </p>
+                <div className="flex gap-2 shrink-0 ml-4">
+                    <button
+                        onClick={refresh}
+                        disabled={loading}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-full font-medium transition-colors text-sm disabled:opacity-50"
+                    >
+                        {loading ? "Loading..." : "Refresh"}
+                    </button>
+                    <button
+                        onClick={decrypt}
+                        disabled={decrypting || fhevmStatus !== "ready" || rows.length === 0}
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {fhevmStatus !== "ready" ? "Waiting for FHEVM..." : decrypting ? "Decrypting..." : "🔓 Decrypt Balances"}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+
+            {rows.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{loading ? "Loading tokens..." : "No confidential tokens configured"}</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                            <th className="py-2 pr-4">Token</th>
+                            <th className="py-2 pr-4">Address</th>
+                            <th className="py-2 pr-4 text-right">Balance</th>
+                            <th className="py-2 text-right">Locked in Escrow</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row) => (
+                            <tr key={row.address} className="border-b border-gray-100">
+                                <td className="py-2 pr-4">
+                                    <span className="font-medium">{row.symbol}</span>{" "}
+                                    <span className="text-gray-500">{row.name}</span>
+                                </td>
+                                <td className="py-2 pr-4 font-mono text-xs">{formatAddress(row.address)}</td>
+                                <td className="py-2 pr-4 text-right">{formatAmount(row.balance, row.decimals)}</td>
+                                <td className="py-2 text-right">
+                                    {formatAmount(row.locked, row.decimals)}
+                                    {row.lockedCount > 0 && (
+                                        <span className="ml-1 text-xs text-gray-500">({row.lockedCount} open)</span>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -2,14 +2,34 @@ import { useState } from "react";
 import { ethers } from "ethers";
 import { OTC_ABI } from "@/abi/otc";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useRevealedTerms } from "@/hooks/useRevealedTerms";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { revealedTermsToCsv, revealedTermsToJson } from "@/lib/revealedTerms";
 
 type Props = {
     otcAddress: `0x${string}`;
+    startBlock?: number; // first block scanned for TermsRevealed
     onTermsRevealed?: (txHash: string) => void;
 };
 
-export function RevealAndAudit({ otcAddress, onTermsRevealed }: Props) {
-    const { ethersSigner, isConnected, connect } = useMetaMaskEthersSigner();
+function download(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export function RevealAndAudit({ otcAddress, startBlock = 0, onTermsRevealed }: Props) {
+    const { ethersSigner, isConnected, connect, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({
+        provider,
+        chainId,
+        enabled: !!provider
+    });
+    const { revealed, loading: auditLoading, error: auditError, refresh: refreshRevealed } =
+        useRevealedTerms(otcAddress, startBlock, fhevmInstance);
     const [orderId, setOrderId] = useState<string>("0");
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>("");
@@ -43,22 +63,7 @@ export function RevealAndAudit({ otcAddress, onTermsRevealed }: Props) {
         }
     }
 
-    async function onAuditDecrypt() {
-        setError("");
-        setSuccess("");
-
-        try {
-            // This is a mock implementation for the demo
-            // In production, you would:
-            // 1. Have the actual ciphertext handles stored when orders are created
-            // 2. Have a proper FHEVM instance initialized
-            // 3. Call decrypt with the real handles
-
-            setSuccess("Mock decryption completed! In production, this would decrypt the actual order terms.");
-        } catch (err: any) {
-            setError("Decryption failed: " + err.message);
-        }
-    }
+    const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
 
     if (!isConnected) {
         return (
@@ -134,40 +139,103 @@ export function RevealAndAudit({ otcAddress, onTermsRevealed }: Props) {
                         )}
                     </div>
 
-                    {/* Audit Decrypt Section */}
+                    {/* Audit Section */}
                     <div className="bg-white border border-gray-200 rounded-xl p-6">
                         <div className="text-center mb-6">
                             <div className="text-3xl mb-2">🔐</div>
-                            <h4 className="text-xl font-semibold text-gray-900 mb-2">Audit Decryption</h4>
-                            <p className="text-gray-600 text-sm">Decrypt revealed order terms to verify their authenticity</p>
+                            <h4 className="text-xl font-semibold text-gray-900 mb-2">Audit Revealed Terms</h4>
+                            <p className="text-gray-600 text-sm">Publicly decrypted terms of every revealed order</p>
                         </div>
 
                         <div className="space-y-4">
                             <p className="text-sm text-gray-600">
-                                This feature allows anyone to decrypt order terms that have been revealed by the maker.
-                                It provides transparency and enables auditing of completed trades.
+                                Once a maker reveals an order, anyone can decrypt its amounts and taker through the
+                                relayer. New reveals appear here as they are mined.
                             </p>
 
-                            <button
-                                onClick={onAuditDecrypt}
-                                className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium"
-                            >
-                                Decrypt Revealed Terms
-                            </button>
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-gray-700">
+                                    {fhevmStatus !== "ready"
+                                        ? "Waiting for the FHEVM instance..."
+                                        : auditLoading
+                                            ? "Loading revealed orders..."
+                                            : `${revealed.length} revealed order${revealed.length === 1 ? "" : "s"}`}
+                                </span>
+                                <button
+                                    onClick={refreshRevealed}
+                                    className="text-blue-600 hover:underline"
+                                >
+                                    Refresh
+                                </button>
+                            </div>
 
-                            <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
-                                <h4 className="text-sm font-medium text-blue-800 mb-1">ℹ️ Implementation Note</h4>
-                                <p className="text-xs text-blue-700">
-                                    This demo shows mock decryption. In production, you'll need to:
-                                    <br />• Store ciphertext handles when orders are created
-                                    <br />• Initialize a proper FHEVM instance
-                                    <br />• Call decrypt with the real handles after reveal
-                                </p>
+                            <div className="grid grid-cols-2 gap-3">
+                                <button
+                                    onClick={() => download("revealed-terms.csv", revealedTermsToCsv(revealed), "text/csv")}
+                                    disabled={revealed.length === 0}
+                                    className="bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                                >
+                                    Export CSV
+                                </button>
+                                <button
+                                    onClick={() => download("revealed-terms.json", revealedTermsToJson(revealed), "application/json")}
+                                    disabled={revealed.length === 0}
+                                    className="bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+                                >
+                                    Export JSON
+                                </button>
                             </div>
+
+                            {auditError && (
+                                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                                    <p className="text-sm text-red-800">{auditError}</p>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
 
+                {/* Revealed Orders */}
+                {revealed.length > 0 && (
+                    <div className="mt-8 bg-white border border-gray-200 rounded-xl p-6 overflow-x-auto">
+                        <h4 className="text-lg font-semibold text-gray-900 mb-4">Revealed Orders</h4>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-200">
+                                    <th className="py-2 pr-4">Order</th>
+                                    <th className="py-2 pr-4">Maker</th>
+                                    <th className="py-2 pr-4">Amount In</th>
+                                    <th className="py-2 pr-4">Amount Out</th>
+                                    <th className="py-2 pr-4">Priced Out</th>
+                                    <th className="py-2 pr-4">Taker</th>
+                                    <th className="py-2 pr-4">Price (in per out)</th>
+                                    <th className="py-2">Revealed</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {revealed.map((terms) => (
+                                    <tr key={terms.id} className="border-b border-gray-100">
+                                        <td className="py-2 pr-4 font-medium">#{terms.id}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs">{formatAddress(terms.maker)}</td>
+                                        <td className="py-2 pr-4">
+                                            {terms.amountIn.toString()} <span className="font-mono text-xs text-gray-500">{formatAddress(terms.tokenIn)}</span>
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            {terms.amountOut.toString()} <span className="font-mono text-xs text-gray-500">{formatAddress(terms.tokenOut)}</span>
+                                        </td>
+                                        <td className="py-2 pr-4">{terms.pricedOut.toString()}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs">
+                                            {terms.taker === ethers.ZeroAddress ? "anyone" : formatAddress(terms.taker)}
+                                        </td>
+                                        <td className="py-2 pr-4">{terms.price !== undefined ? terms.price.toPrecision(6) : "—"}</td>
+                                        <td className="py-2 text-xs text-gray-500">{new Date(terms.revealedAt).toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
                 {/* How It Works */}
                 <div className="mt-8 bg-gray-50 border border-gray-200 rounded-xl p-6">
                     <h4 className="text-lg font-semibold text-gray-900 mb-4">How Reveal & Audit Works</h4>
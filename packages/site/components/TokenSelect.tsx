@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { findToken, tokensForChain } from "@/lib/tokens";
+import { Input } from "@/components/ui/input";
+
+type Props = {
+    chainId: number | undefined;
+    value: string;
+    onChange: (address: string) => void;
+    className?: string;
+};
+
+const CUSTOM = "custom";
+
+// Picks a token of the registry for the connected chain, or any other address typed in
+export function TokenSelect({ chainId, value, onChange, className = "h-10" }: Props) {
+    const tokens = tokensForChain(chainId);
+    const registered = findToken(chainId, value);
+    const [custom, setCustom] = useState(false);
+    const showInput = tokens.length === 0 || custom || (!registered && value !== "");
+
+    return (
+        <div className="space-y-2">
+            {tokens.length > 0 && (
+                <select
+                    value={showInput ? CUSTOM : registered?.address ?? ""}
+                    onChange={(e) => {
+                        const isCustom = e.target.value === CUSTOM;
+                        setCustom(isCustom);
+                        onChange(isCustom ? "" : e.target.value);
+                    }}
+                    className={`w-full px-3 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${className}`}
+                >
+                    {!registered && !showInput && <option value="">Select a token</option>}
+                    {tokens.map((token) => (
+                        <option key={token.address} value={token.address}>
+                            {token.icon ? `${token.icon} ` : ""}{token.symbol} · {token.name}
+                        </option>
+                    ))}
+                    <option value={CUSTOM}>Custom address...</option>
+                </select>
+            )}
+            {showInput && (
+                <Input value={value} onChange={(e) => onChange(e.target.value)} placeholder="0x..." className={className} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useConfidentialToken } from "@/hooks/useConfidentialToken";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { tokensForChain } from "@/lib/tokens";
+import { parseAmount } from "@/lib/amounts";
+import { TokenSelect } from "@/components/TokenSelect";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Props = {
+    otcAddress: `0x${string}`;
+    tokens: string[]; // fallback picks when the token registry has nothing for the chain
+};
+
+// Mint (owner only, or the faucet on a local node), encrypted transfers and operator approvals for a confidential token
+export function TokenTools({ otcAddress, tokens }: Props) {
+    const { ethersSigner, provider, chainId } = useMetaMaskEthersSigner();
+    const { instance: fhevmInstance, status: fhevmStatus } = useFhevm({
+        provider,
+        chainId,
+        enabled: !!provider
+    });
+
+    const fallback = tokens.find((token) => ethers.isAddress(token) && token !== ethers.ZeroAddress);
+    const [tokenAddress, setTokenAddress] = useState<string>(tokensForChain(chainId)[0]?.address ?? fallback ?? "");
+    const { info, isOwner, faucetAvailable, pending, status, error, setError, mint, faucet, transfer, setOperator, isOperator } =
+        useConfidentialToken(tokenAddress, fhevmInstance);
+
+    const [faucetAmount, setFaucetAmount] = useState<string>("1000");
+    const [mintAmount, setMintAmount] = useState<string>("");
+    const [transferTo, setTransferTo] = useState<string>("");
+    const [transferAmount, setTransferAmount] = useState<string>("");
+    const [operator, setOperatorAddress] = useState<string>(otcAddress);
+    const [operatorHours, setOperatorHours] = useState<string>("24");
+    const [operatorStatus, setOperatorStatus] = useState<string>("");
+
+    const ready = !!info && fhevmStatus === "ready" && !pending;
+
+    const withAmount = (value: string, action: (amount: bigint) => Promise<void>) => {
+        if (!info) return;
+        let amount: bigint;
+        try {
+            amount = parseAmount(value, info.decimals);
+        } catch (err: any) {
+            setError(err.message);
+            return;
+        }
+        action(amount);
+    };
+
+    const onTransfer = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ethers.isAddress(transferTo)) {
+            setError("Invalid recipient address");
+            return;
+        }
+        withAmount(transferAmount, (amount) => transfer(transferTo, amount));
+    };
+
+    const onApprove = () => {
+        const hours = Number(operatorHours);
+        if (!ethers.isAddress(operator) || !(hours > 0)) {
+            setError("Enter an operator address and a positive number of hours");
+            return;
+        }
+        setOperatorStatus("");
+        setOperator(operator, Math.floor(Date.now() / 1000) + Math.round(hours * 3600));
+    };
+
+    const onCheckOperator = async () => {
+        if (!ethers.isAddress(operator)) {
+            setError("Invalid operator address");
+            return;
+        }
+        try {
+            const approved = await isOperator(operator);
+            setOperatorStatus(approved ? "✅ Approved (not expired)" : "❌ Not approved or expired");
+        } catch (err: any) {
+            setError(`Operator check failed: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-1">Token</Label>
+                <TokenSelect chainId={chainId} value={tokenAddress} onChange={setTokenAddress} className="h-9" />
+                <p className="text-xs text-gray-500 mt-1">
+                    {info ? `${info.name} (${info.symbol}), ${info.decimals} decimals${isOwner ? " · you own this token" : ""}` : "Enter a confidential token address"}
+                </p>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+            {status && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+                    <p className="text-sm text-green-800 break-all">{status}</p>
+                </div>
+            )}
+
+            {faucetAvailable && (
+                <Card className="border-amber-200 bg-amber-50">
+                    <CardContent className="p-4 space-y-3">
+                        <div>
+                            <h4 className="font-semibold text-gray-900">🚰 Local Faucet</h4>
+                            <p className="text-sm text-gray-600">
+                                On a Hardhat node the deployer account owns the demo tokens; the faucet mints from it to your wallet.
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <Input value={faucetAmount} onChange={e => setFaucetAmount(e.target.value)} placeholder="Amount" />
+                            <Button size="sm" disabled={!ready} onClick={() => withAmount(faucetAmount, faucet)}>
+                                {pending === "Faucet" ? "Minting..." : "Get Tokens"}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {isOwner && (
+                <Card>
+                    <CardContent className="p-4 space-y-3">
+                        <h4 className="font-semibold text-gray-900">Mint to Yourself</h4>
+                        <div className="flex gap-2">
+                            <Input value={mintAmount} onChange={e => setMintAmount(e.target.value)} placeholder="Amount" />
+                            <Button
+                                size="sm"
+                                disabled={!ready || !ethersSigner}
+                                onClick={() => ethersSigner && withAmount(mintAmount, (amount) => mint(ethersSigner.address, amount))}
+                            >
+                                {pending === "Mint" ? "Minting..." : "Mint"}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardContent className="p-4 space-y-3">
+                    <h4 className="font-semibold text-gray-900">Transfer</h4>
+                    <p className="text-sm text-gray-500">The amount is encrypted; a transfer larger than your balance moves 0.</p>
+                    <form onSubmit={onTransfer} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                        <div className="md:col-span-2">
+                            <Label className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                            <Input value={transferTo} onChange={e => setTransferTo(e.target.value)} placeholder="0x..." />
+                        </div>
+                        <div>
+                            <Label className="block text-sm font-medium text-gray-700 mb-1">Amount</Label>
+                            <Input value={transferAmount} onChange={e => setTransferAmount(e.target.value)} placeholder="0.0" />
+                        </div>
+                        <Button type="submit" size="sm" disabled={!ready}>
+                            {pending === "Transfer" ? "Sending..." : "Transfer"}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardContent className="p-4 space-y-3">
+                    <h4 className="font-semibold text-gray-900">Operators</h4>
+                    <p className="text-sm text-gray-500">
+                        An operator can move your tokens until its approval expires. The escrow needs it to pull order and fill amounts.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                        <div className="md:col-span-2">
+                            <Label className="block text-sm font-medium text-gray-700 mb-1">Operator</Label>
+                            <Input value={operator} onChange={e => setOperatorAddress(e.target.value)} placeholder="0x..." />
+                        </div>
+                        <div>
+                            <Label className="block text-sm font-medium text-gray-700 mb-1">Expires In (hours)</Label>
+                            <Input value={operatorHours} onChange={e => setOperatorHours(e.target.value)} type="number" min="1" />
+                        </div>
+                        <Button size="sm" variant="outline" disabled={!info} onClick={onCheckOperator}>Check</Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Button size="sm" disabled={!info || !!pending} onClick={onApprove}>
+                            {pending === "Approve operator" ? "Approving..." : "Approve"}
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!info || !!pending || !ethers.isAddress(operator)}
+                            onClick={() => { setOperatorStatus(""); setOperator(operator, 0); }}
+                        >
+                            {pending === "Revoke operator" ? "Revoking..." : "Revoke"}
+                        </Button>
+                        {operatorStatus && <span className="text-sm text-gray-700">{operatorStatus}</span>}
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -2,11 +2,20 @@ export const DEMO_CONFIG = {
     // OTC Escrow Contract
     otcAddress: "0x070935d23586bb29220373CC907F42C836822BbF" as `0x${string}`,
 
+    // Basket escrow (ConfidentialBasketEscrow) for multi-leg orders; leave empty to hide baskets
+    basketAddress: "" as `0x${string}` | "",
+
+    // Block the escrow was deployed at: order history is read from the logs starting here
+    otcStartBlock: 0,
+
+    // otc-indexer API (e.g. "http://localhost:4000"); leave empty to page orders straight from the escrow
+    indexerUrl: "",
+
     // Gateway Address
     gatewayAddress: "0xB60CeC27c4E86dEbaE055dE850E57CDfc94a2D69" as `0x${string}`,
 
-    // Note: tokenIn and tokenOut addresses are user inputs
-    // These are just examples for the demo
-    tokenIn: "0xcde70d205f9D467CFA1fC46b45C45a30E651E172" as `0x${string}`, // User will input this
-    tokenOut: "0xcde70d205f9D467CFA1fC46b45C45a30E651E172" as `0x${string}`, // User will input this
+    // Pair preselected in CreateOrder; users pick others from the token registry (config/tokens.json)
+    // or paste any confidential token address
+    tokenIn: "0xcde70d205f9D467CFA1fC46b45C45a30E651E172" as `0x${string}`,
+    tokenOut: "0xcde70d205f9D467CFA1fC46b45C45a30E651E172" as `0x${string}`,
 };
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { toOrder, type Order } from "@/hooks/useOrders";
+import { auditedHandles, auditOrder } from "@/lib/auditedOrders";
+import { userDecryptHandles } from "@/lib/userDecrypt";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { OTC_ABI } from "@/abi/otc";
+
+// Blocks per getLogs call; public RPCs cap the range of a single query
+const LOG_CHUNK_SIZE = 5_000;
+
+/**
+ * Orders the connected account audits: every AuditorGranted naming it since `fromBlock` (grants made through
+ * a maker's default auditor emit it too). `decryptAll` decrypts everything granted in one batch behind a single
+ * cached decryption signature.
+ */
+export function useAuditorView(otcAddress: string, fromBlock: number, instance: FhevmInstance | undefined) {
+    const { ethersSigner, ethersBrowserProvider } = useMetaMaskEthersSigner();
+    const { storage } = useInMemoryStorage();
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [clearValues, setClearValues] = useState<Record<string, bigint | boolean | string>>({});
+    const [loading, setLoading] = useState(false);
+    const [decrypting, setDecrypting] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    const account = ethersSigner?.address;
+
+    const refresh = useCallback(async () => {
+        if (!account || !ethersBrowserProvider || !otcAddress) return;
+
+        setLoading(true);
+        setError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersBrowserProvider);
+            const latest = await ethersBrowserProvider.getBlockNumber();
+
+            const ids = new Set<bigint>();
+            for (let start = fromBlock; start <= latest; start += LOG_CHUNK_SIZE) {
+                const logs = await contract.queryFilter(
+                    contract.filters.AuditorGranted(null, account),
+                    start,
+                    Math.min(latest, start + LOG_CHUNK_SIZE - 1),
+                );
+                logs.forEach((log) => ids.add((log as ethers.EventLog).args.id));
+            }
+
+            const loaded = await Promise.all([...ids].map(async (id) => {
+                const [orderData, fillsData] = await Promise.all([contract.orders(id), contract.getFills(id)]);
+                return toOrder(id, orderData, fillsData, undefined);
+            }));
+            setOrders(loaded.sort((a, b) => Number(b.id) - Number(a.id)));
+        } catch (err: any) {
+            console.error("Failed to load audited orders:", err);
+            setError(`Failed to load audited orders: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    }, [account, ethersBrowserProvider, otcAddress, fromBlock]);
+
+    // Plaintexts belong to the account that decrypted them
+    useEffect(() => {
+        setOrders([]);
+        setClearValues({});
+        refresh();
+    }, [refresh]);
+
+    const decryptAll = useCallback(async () => {
+        if (!instance || !ethersSigner || !otcAddress) return;
+
+        const handles = orders.flatMap(auditedHandles).filter((handle) => clearValues[handle] === undefined);
+        if (handles.length === 0) return;
+
+        setDecrypting(true);
+        setError("");
+        try {
+            const results = await userDecryptHandles(
+                instance,
+                ethersSigner,
+                storage,
+                [...new Set(handles)].map((handle) => ({ handle, contractAddress: otcAddress })),
+            );
+            setClearValues((prev) => ({ ...prev, ...results }));
+        } catch (err: any) {
+            console.error("Failed to decrypt audited orders:", err);
+            setError(`Failed to decrypt audited orders: ${err.message}`);
+        } finally {
+            setDecrypting(false);
+        }
+    }, [instance, ethersSigner, otcAddress, storage, orders, clearValues]);
+
+    const audited = useMemo(() => orders.map((order) => auditOrder(order, clearValues)), [orders, clearValues]);
+
+    return {
+        audited,
+        loading,
+        decrypting,
+        error,
+        refresh,
+        decryptAll,
+    };
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { userDecryptHandles } from "@/lib/userDecrypt";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { BASKET_ABI } from "@/abi/basket";
+import { OTC_ABI } from "@/abi/otc";
+
+export type BasketLeg = {
+    token: string;
+    amountEnc: string;
+};
+
+// One whole-basket fill; filledEnc decrypts to whether it swapped the legs (the maker and the taker can read it)
+export type BasketFill = {
+    index: number;
+    taker: string;
+    filledEnc: string;
+};
+
+export type BasketOrder = {
+    id: string;
+    maker: string;
+    legsIn: BasketLeg[];
+    legsOut: (BasketLeg & { remainingEnc: string })[];
+    takerEnc: string;
+    openEnc: string;
+    deadline: number;
+    cancelled: boolean;
+    fills: BasketFill[];
+    // "active" only says the basket takes fills: whether it was funded and is still unfilled is encrypted
+    status: "active" | "cancelled" | "expired";
+    isMine: boolean;
+};
+
+function toBasket(id: bigint, data: any, fillsData: any[], account: string | undefined, now: number): BasketOrder {
+    const deadline = Number(data.deadline);
+    return {
+        id: id.toString(),
+        maker: data.maker,
+        legsIn: data.legsIn.map((leg: any) => ({ token: leg.token, amountEnc: leg.amount })),
+        legsOut: data.legsOut.map((leg: any, i: number) => ({
+            token: leg.token,
+            amountEnc: leg.amount,
+            remainingEnc: data.remainingOut[i],
+        })),
+        takerEnc: data.takerEnc,
+        openEnc: data.openEnc,
+        deadline,
+        cancelled: data.cancelled,
+        fills: fillsData.map((fill: any, index: number) => ({ index, taker: fill.taker, filledEnc: fill.filledEnc })),
+        status: data.cancelled ? "cancelled" : deadline < now ? "expired" : "active",
+        isMine: account !== undefined && data.maker.toLowerCase() === account.toLowerCase(),
+    };
+}
+
+/**
+ * Lists every basket of the basket escrow, newest first, and decrypts what the connected account may read:
+ * the leg amounts, remaining escrow and fillability of its own baskets, and the outcome of its own fills.
+ * Clear values are keyed by handle, like useMakerDecryption. `paused` is the pause state of the OTC escrow the
+ * basket escrow follows.
+ */
+export function useBasketOrders(basketAddress: string, instance: FhevmInstance | undefined) {
+    const { ethersReadonlyProvider, ethersSigner } = useMetaMaskEthersSigner();
+    const { storage } = useInMemoryStorage();
+    const [baskets, setBaskets] = useState<BasketOrder[]>([]);
+    const [paused, setPaused] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string>("");
+    const [clearValues, setClearValues] = useState<Record<string, bigint | boolean | string>>({});
+    const [decrypting, setDecrypting] = useState(false);
+
+    const account = ethersSigner?.address;
+
+    // Plaintexts belong to the account that decrypted them
+    useEffect(() => {
+        setClearValues({});
+    }, [account]);
+
+    const refreshBaskets = useCallback(async () => {
+        if (!ethersReadonlyProvider || !basketAddress) return;
+
+        setLoading(true);
+        setError("");
+        try {
+            const contract = new ethers.Contract(basketAddress, BASKET_ABI, ethersReadonlyProvider);
+            const escrow = new ethers.Contract(await contract.escrow(), OTC_ABI, ethersReadonlyProvider);
+            setPaused(await escrow.paused());
+            const count = Number(await contract.nextBasketId());
+            const now = Math.floor(Date.now() / 1000);
+            const ids = Array.from({ length: count }, (_, i) => BigInt(count - 1 - i));
+            const loaded = await Promise.all(ids.map(async (id) => {
+                const [data, fills] = await Promise.all([contract.basketOrder(id), contract.getBasketFills(id)]);
+                return toBasket(id, data, fills, account, now);
+            }));
+            setBaskets(loaded);
+        } catch (err: any) {
+            console.error("Failed to load baskets:", err);
+            setError(`Failed to load baskets: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    }, [ethersReadonlyProvider, basketAddress, account]);
+
+    useEffect(() => {
+        refreshBaskets();
+    }, [refreshBaskets]);
+
+    const decryptBaskets = useCallback(async () => {
+        if (!instance || !ethersSigner || !basketAddress) return;
+
+        const me = ethersSigner.address.toLowerCase();
+        const handles = baskets.flatMap((basket) => basket.maker.toLowerCase() === me
+            ? [
+                ...basket.legsIn.map((leg) => leg.amountEnc),
+                ...basket.legsOut.flatMap((leg) => [leg.amountEnc, leg.remainingEnc]),
+                basket.openEnc,
+                ...basket.fills.map((fill) => fill.filledEnc),
+            ]
+            : basket.fills.filter((fill) => fill.taker.toLowerCase() === me).map((fill) => fill.filledEnc),
+        ).filter((handle) => clearValues[handle] === undefined);
+        if (handles.length === 0) return;
+
+        setDecrypting(true);
+        setError("");
+        try {
+            const results = await userDecryptHandles(
+                instance,
+                ethersSigner,
+                storage,
+                [...new Set(handles)].map((handle) => ({ handle, contractAddress: basketAddress })),
+            );
+            setClearValues((prev) => ({ ...prev, ...results }));
+        } catch (err: any) {
+            console.error("Failed to decrypt baskets:", err);
+            setError(`Failed to decrypt baskets: ${err.message}`);
+        } finally {
+            setDecrypting(false);
+        }
+    }, [instance, ethersSigner, basketAddress, storage, baskets, clearValues]);
+
+    // Clear value of a handle once decrypted
+    const clearValue = useCallback((handle: string) => clearValues[handle], [clearValues]);
+
+    return {
+        baskets,
+        paused,
+        loading,
+        error,
+        refreshBaskets,
+        decryptBaskets,
+        decrypting,
+        clearValue,
+    };
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+import { buildTokenInputs } from "@/lib/otcInputs";
+
+// Account #0 of Hardhat's public test mnemonic: it deploys, and so owns, the demo tokens on a local node
+const HARDHAT_DEPLOYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const HARDHAT_CHAIN_ID = 31337;
+
+export type TokenInfo = {
+    name: string;
+    symbol: string;
+    decimals: number;
+    owner: string;
+};
+
+/**
+ * Reads a confidential token and sends the connected account's token transactions: mint (owner only),
+ * encrypted transfers and operator approvals. On a local Hardhat node `faucet` mints to the connected
+ * account from the deployer, so any wallet can fund itself.
+ */
+export function useConfidentialToken(tokenAddress: string, instance: FhevmInstance | undefined) {
+    const { ethersSigner, ethersReadonlyProvider, chainId, initialMockChains } = useMetaMaskEthersSigner();
+    const [info, setInfo] = useState<TokenInfo | undefined>(undefined);
+    const [pending, setPending] = useState<string>("");
+    const [status, setStatus] = useState<string>("");
+    const [error, setError] = useState<string>("");
+
+    const account = ethersSigner?.address;
+    const faucetRpcUrl = chainId === HARDHAT_CHAIN_ID ? initialMockChains?.[HARDHAT_CHAIN_ID] : undefined;
+
+    const loadInfo = useCallback(async () => {
+        setInfo(undefined);
+        if (!ethersReadonlyProvider || !ethers.isAddress(tokenAddress)) return;
+        try {
+            const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, ethersReadonlyProvider);
+            const [name, symbol, decimals, owner] = await Promise.all([
+                token.name(),
+                token.symbol(),
+                token.decimals(),
+                token.owner().catch(() => ethers.ZeroAddress),
+            ]);
+            setInfo({ name, symbol, decimals: Number(decimals), owner });
+        } catch (err: any) {
+            console.error("Failed to read token:", err);
+            setError(`Failed to read token: ${err.message}`);
+        }
+    }, [tokenAddress, ethersReadonlyProvider]);
+
+    useEffect(() => {
+        setStatus("");
+        setError("");
+        loadInfo();
+    }, [loadInfo]);
+
+    // Encrypts `amount` for (token, sender) as `functionName` expects it and sends the transaction `send` builds from it
+    const runEncrypted = useCallback(async (
+        label: string,
+        functionName: "mint" | "confidentialTransfer",
+        sender: ethers.Signer,
+        amount: bigint,
+        send: (token: ethers.Contract, handle: Uint8Array, inputProof: Uint8Array) => Promise<ethers.ContractTransactionResponse>,
+    ) => {
+        if (!instance) return;
+
+        setPending(label);
+        setStatus("");
+        setError("");
+        try {
+            const senderAddress = await sender.getAddress();
+            const enc = functionName === "mint"
+                ? await buildTokenInputs(instance, "mint", tokenAddress, senderAddress, { amount })
+                : await buildTokenInputs(instance, "confidentialTransfer", tokenAddress, senderAddress, { encryptedAmount: amount });
+            const handle = "amount" in enc.handles ? enc.handles.amount : enc.handles.encryptedAmount;
+
+            const tx = await send(new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, sender), handle, enc.inputProof);
+            const receipt = await tx.wait();
+            setStatus(`${label} succeeded (tx ${receipt?.hash})`);
+        } catch (err: any) {
+            console.error(`${label} failed:`, err);
+            setError(`${label} failed: ${err.reason || err.message}`);
+        } finally {
+            setPending("");
+        }
+    }, [instance, tokenAddress]);
+
+    const mint = useCallback(async (to: string, amount: bigint) => {
+        if (!ethersSigner) return;
+        await runEncrypted("Mint", "mint", ethersSigner, amount, (token, handle, proof) => token.mint(to, handle, proof));
+    }, [ethersSigner, runEncrypted]);
+
+    const faucet = useCallback(async (amount: bigint) => {
+        if (!account || !faucetRpcUrl) return;
+        const deployer = new ethers.Wallet(HARDHAT_DEPLOYER_KEY, new ethers.JsonRpcProvider(faucetRpcUrl));
+        await runEncrypted("Faucet", "mint", deployer, amount, (token, handle, proof) => token.mint(account, handle, proof));
+    }, [account, faucetRpcUrl, runEncrypted]);
+
+    const transfer = useCallback(async (to: string, amount: bigint) => {
+        if (!ethersSigner) return;
+        await runEncrypted("Transfer", "confidentialTransfer", ethersSigner, amount, (token, handle, proof) =>
+            token["confidentialTransfer(address,bytes32,bytes)"](to, handle, proof));
+    }, [ethersSigner, runEncrypted]);
+
+    // `until` in unix seconds; 0 revokes the operator
+    const setOperator = useCallback(async (operator: string, until: number) => {
+        if (!ethersSigner) return;
+
+        const label = until === 0 ? "Revoke operator" : "Approve operator";
+        setPending(label);
+        setStatus("");
+        setError("");
+        try {
+            const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, ethersSigner);
+            const tx = await token.setOperator(operator, until);
+            const receipt = await tx.wait();
+            setStatus(`${label} succeeded (tx ${receipt?.hash})`);
+        } catch (err: any) {
+            console.error(`${label} failed:`, err);
+            setError(`${label} failed: ${err.reason || err.message}`);
+        } finally {
+            setPending("");
+        }
+    }, [ethersSigner, tokenAddress]);
+
+    const isOperator = useCallback(async (operator: string): Promise<boolean> => {
+        if (!account || !ethersReadonlyProvider) return false;
+        const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, ethersReadonlyProvider);
+        return token.isOperator(account, operator);
+    }, [account, ethersReadonlyProvider, tokenAddress]);
+
+    return {
+        info,
+        isOwner: !!account && !!info && info.owner.toLowerCase() === account.toLowerCase(),
+        faucetAvailable: !!faucetRpcUrl,
+        pending,
+        status,
+        error,
+        setError,
+        mint,
+        faucet,
+        transfer,
+        setOperator,
+        isOperator,
+    };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { OTC_ABI } from "@/abi/otc";
+
+export type EscrowRoles = {
+    admin: boolean;
+    gateway: boolean;
+    pauser: boolean;
+    feeManager: boolean;
+};
+
+const NO_ROLES: EscrowRoles = { admin: false, gateway: false, pauser: false, feeManager: false };
+
+// Role getters on the escrow, keyed like EscrowRoles
+const ROLE_GETTERS: Record<keyof EscrowRoles, string> = {
+    admin: "DEFAULT_ADMIN_ROLE",
+    gateway: "GATEWAY_ROLE",
+    pauser: "PAUSER_ROLE",
+    feeManager: "FEE_MANAGER_ROLE",
+};
+
+export function useEscrowRoles(otcAddress: string) {
+    const { ethersSigner, ethersReadonlyProvider } = useMetaMaskEthersSigner();
+    const [roles, setRoles] = useState<EscrowRoles>(NO_ROLES);
+    const [paused, setPaused] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    const fetchRoles = useCallback(async () => {
+        if (!ethersReadonlyProvider || !otcAddress) return;
+
+        setError("");
+        try {
+            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersReadonlyProvider);
+            setPaused(await contract.paused());
+
+            if (!ethersSigner) {
+                setRoles(NO_ROLES);
+                return;
+            }
+
+            const entries = await Promise.all(
+                (Object.keys(ROLE_GETTERS) as (keyof EscrowRoles)[]).map(async (key) => {
+                    const role = await contract[ROLE_GETTERS[key]]();
+                    return [key, await contract.hasRole(role, ethersSigner.address)] as const;
+                }),
+            );
+            setRoles(Object.fromEntries(entries) as EscrowRoles);
+        } catch (err: any) {
+            console.error("Failed to fetch escrow roles:", err);
+            setError(`Failed to fetch escrow roles: ${err.message}`);
+        }
+    }, [ethersSigner, ethersReadonlyProvider, otcAddress]);
+
+    useEffect(() => {
+        fetchRoles();
+    }, [fetchRoles]);
+
+    const hasAnyRole = roles.admin || roles.gateway || roles.pauser || roles.feeManager;
+
+    return {
+        roles,
+        hasAnyRole,
+        paused,
+        error,
+        refreshRoles: fetchRoles,
+    };
+}
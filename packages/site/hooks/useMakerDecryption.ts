@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { userDecryptHandles } from "@/lib/userDecrypt";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import type { Order } from "@/hooks/useOrders";
+
+export type OrderTerms = {
+    amountIn: bigint; // price of pricedOut
+    amountOut: bigint; // order size
+    pricedOut: bigint; // amountOut, or what remained when the maker last amended the price
+    remainingOut: bigint;
+    taker: string; // zero address when anyone may fill
+};
+
+function termHandles(order: Order): string[] {
+    return [order.amountInEnc, order.amountOutEnc, order.pricedOutEnc, order.remainingOutEnc, order.takerEnc];
+}
+
+/**
+ * Decrypts the terms of the connected maker's own orders (the escrow grants the maker access to them).
+ * `decryptOrders` takes any list of orders, keeps the maker's ones that are not decrypted yet and decrypts
+ * them in one batch behind a single cached decryption signature.
+ */
+export function useMakerDecryption(otcAddress: string, instance: FhevmInstance | undefined) {
+    const { ethersSigner } = useMetaMaskEthersSigner();
+    const { storage } = useInMemoryStorage();
+    const [clearValues, setClearValues] = useState<Record<string, bigint | boolean | string>>({});
+    const [decrypting, setDecrypting] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    // Plaintexts belong to the account that decrypted them
+    const account = ethersSigner?.address;
+    useEffect(() => {
+        setClearValues({});
+        setError("");
+    }, [account]);
+
+    const getTerms = useCallback((order: Order): OrderTerms | undefined => {
+        const [amountIn, amountOut, pricedOut, remainingOut, taker] = termHandles(order).map((h) => clearValues[h]);
+        if (amountIn === undefined || amountOut === undefined || pricedOut === undefined || remainingOut === undefined || taker === undefined) {
+            return undefined;
+        }
+        return {
+            amountIn: BigInt(amountIn),
+            amountOut: BigInt(amountOut),
+            pricedOut: BigInt(pricedOut),
+            remainingOut: BigInt(remainingOut),
+            taker: typeof taker === "string" ? ethers.getAddress(taker) : ethers.ZeroAddress,
+        };
+    }, [clearValues]);
+
+    const decryptOrders = useCallback(async (orders: Order[]) => {
+        if (!instance || !ethersSigner || !otcAddress) return;
+
+        const handles = orders
+            .filter((order) => order.maker.toLowerCase() === ethersSigner.address.toLowerCase())
+            .flatMap(termHandles)
+            .filter((handle) => clearValues[handle] === undefined);
+        if (handles.length === 0) return;
+
+        setDecrypting(true);
+        setError("");
+        try {
+            const results = await userDecryptHandles(
+                instance,
+                ethersSigner,
+                storage,
+                [...new Set(handles)].map((handle) => ({ handle, contractAddress: otcAddress })),
+            );
+            setClearValues((prev) => ({ ...prev, ...results }));
+        } catch (err: any) {
+            console.error("Failed to decrypt order terms:", err);
+            setError(`Failed to decrypt order terms: ${err.message}`);
+        } finally {
+            setDecrypting(false);
+        }
+    }, [instance, ethersSigner, otcAddress, storage, clearValues]);
+
+    return {
+        getTerms,
+        decryptOrders,
+        decrypting,
+        error,
+    };
+}
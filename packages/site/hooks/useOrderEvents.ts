@@ -1,72 +1,183 @@
-import { useState, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { OTC_ABI } from "@/abi/otc";
+
+export type OrderEventType =
+    | "OrderCreated"
+    | "FillRequested"
+    | "OrderFinalized"
+    | "OrderCancelled"
+    | "OrderAmended"
+    | "OrderReclaimed"
+    | "OrderEmergencyWithdrawn"
+    | "TermsRevealed";
 
 export type OrderEvent = {
-    type: "OrderCreated" | "FillRequested" | "OrderFinalized" | "OrderCancelled" | "TermsRevealed";
-    id: string;
-    maker?: string;
+    type: OrderEventType;
+    id: string; // order id
+    maker?: string; // emitter for OrderCreated, otherwise taken from the order's OrderCreated log when loaded
     taker?: string;
-    timestamp: number;
-    txHash?: string;
+    fillIndex?: number;
+    blockNumber: number;
+    logIndex: number;
+    timestamp: number; // ms, block timestamp
+    txHash: string;
 };
 
-export function useOrderEvents() {
-    const [orders, setOrders] = useState<OrderEvent[]>([]);
+const EVENT_TYPES: OrderEventType[] = [
+    "OrderCreated",
+    "FillRequested",
+    "OrderFinalized",
+    "OrderCancelled",
+    "OrderAmended",
+    "OrderReclaimed",
+    "OrderEmergencyWithdrawn",
+    "TermsRevealed",
+];
 
-    const onOrderCreated = useCallback((txHash: string) => {
-        const newOrder: OrderEvent = {
-            type: "OrderCreated",
-            id: orders.length.toString(),
-            maker: "Current User",
-            timestamp: Date.now(),
-            txHash,
-        };
-        setOrders(prev => [...prev, newOrder]);
-    }, [orders.length]);
-
-    const onOrderFilled = useCallback((txHash: string) => {
-        const newOrder: OrderEvent = {
-            type: "FillRequested",
-            id: orders.length.toString(),
-            taker: "Current User",
-            timestamp: Date.now(),
-            txHash,
-        };
-        setOrders(prev => [...prev, newOrder]);
-    }, [orders.length]);
-
-    const onTermsRevealed = useCallback((txHash: string) => {
-        const newOrder: OrderEvent = {
-            type: "TermsRevealed",
-            id: orders.length.toString(),
-            maker: "Current User",
-            timestamp: Date.now(),
-            txHash,
+// Blocks per getLogs call; public RPCs cap the range of a single query
+const LOG_CHUNK_SIZE = 5_000;
+
+const otcInterface = new ethers.Interface(OTC_ABI);
+const EVENT_TOPICS = EVENT_TYPES.map((type) => otcInterface.getEvent(type)!.topicHash);
+
+function byChainOrder(a: OrderEvent, b: OrderEvent) {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * Order history rebuilt from the escrow's logs: loads every order event from `fromBlock` (the escrow's
+ * deployment block, to keep the scan short) and follows new blocks while mounted.
+ */
+export function useOrderEvents(otcAddress: string, fromBlock: number = 0) {
+    const { ethersBrowserProvider } = useMetaMaskEthersSigner();
+    const [events, setEvents] = useState<OrderEvent[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    // Last block already scanned and the scan generation (bumped when the source changes, so stale scans are
+    // dropped); one scan runs at a time per generation, blocks arriving mid-scan are picked up by the next one
+    const syncedToRef = useRef(fromBlock - 1);
+    const generationRef = useRef(0);
+    const syncingRef = useRef(-1);
+    const blockTimesRef = useRef(new Map<number, number>());
+
+    const blockTime = useCallback(async (provider: ethers.Provider, blockNumber: number) => {
+        const cached = blockTimesRef.current.get(blockNumber);
+        if (cached !== undefined) return cached;
+
+        const block = await provider.getBlock(blockNumber);
+        const timestamp = (block?.timestamp ?? 0) * 1000;
+        blockTimesRef.current.set(blockNumber, timestamp);
+        return timestamp;
+    }, []);
+
+    const scanRange = useCallback(async (provider: ethers.Provider, from: number, to: number) => {
+        const found: OrderEvent[] = [];
+
+        for (let start = from; start <= to; start += LOG_CHUNK_SIZE) {
+            const logs = await provider.getLogs({
+                address: otcAddress,
+                topics: [EVENT_TOPICS],
+                fromBlock: start,
+                toBlock: Math.min(to, start + LOG_CHUNK_SIZE - 1),
+            });
+
+            for (const log of logs) {
+                const parsed = otcInterface.parseLog(log);
+                if (!parsed) continue;
+
+                const type = parsed.name as OrderEventType;
+                found.push({
+                    type,
+                    id: parsed.args.id.toString(),
+                    maker: type === "OrderCreated" ? parsed.args.maker : undefined,
+                    taker: type === "FillRequested" || type === "OrderFinalized" ? parsed.args.taker : undefined,
+                    fillIndex: parsed.args.fillIndex !== undefined ? Number(parsed.args.fillIndex) : undefined,
+                    blockNumber: log.blockNumber,
+                    logIndex: log.index,
+                    timestamp: await blockTime(provider, log.blockNumber),
+                    txHash: log.transactionHash,
+                });
+            }
+        }
+
+        return found;
+    }, [otcAddress, blockTime]);
+
+    const sync = useCallback(async () => {
+        const generation = generationRef.current;
+        if (!ethersBrowserProvider || !otcAddress || syncingRef.current === generation) return;
+
+        syncingRef.current = generation;
+        try {
+            const latest = await ethersBrowserProvider.getBlockNumber();
+            const from = syncedToRef.current + 1;
+            if (from > latest) return;
+
+            const found = await scanRange(ethersBrowserProvider, from, latest);
+            if (generation !== generationRef.current) return;
+            syncedToRef.current = latest;
+
+            if (found.length > 0) {
+                setEvents((prev) => {
+                    const seen = new Set(prev.map((e) => `${e.txHash}-${e.logIndex}`));
+                    return [...prev, ...found.filter((e) => !seen.has(`${e.txHash}-${e.logIndex}`))].sort(byChainOrder);
+                });
+            }
+            setError("");
+        } catch (err: any) {
+            if (generation !== generationRef.current) return;
+            console.error("Failed to load order events:", err);
+            setError(`Failed to load order events: ${err.message}`);
+        } finally {
+            if (syncingRef.current === generation) syncingRef.current = -1;
+        }
+    }, [ethersBrowserProvider, otcAddress, scanRange]);
+
+    // Rescan from fromBlock, then follow new blocks
+    useEffect(() => {
+        if (!ethersBrowserProvider || !otcAddress) return;
+
+        generationRef.current++;
+        syncedToRef.current = fromBlock - 1;
+        setEvents([]);
+        setLoading(true);
+        sync().finally(() => setLoading(false));
+
+        const onBlock = () => {
+            sync();
         };
-        setOrders(prev => [...prev, newOrder]);
-    }, [orders.length]);
-
-    const addMockOrder = useCallback((type: OrderEvent["type"]) => {
-        const mockOrder: OrderEvent = {
-            type,
-            id: orders.length.toString(),
-            maker: type === "OrderCreated" || type === "OrderCancelled" || type === "TermsRevealed" ? "0x1234...5678" : undefined,
-            taker: type === "FillRequested" ? "0x8765...4321" : undefined,
-            timestamp: Date.now(),
-            txHash: `0x${Math.random().toString(16).slice(2, 10)}...`,
+        ethersBrowserProvider.on("block", onBlock);
+        return () => {
+            ethersBrowserProvider.off("block", onBlock);
         };
-        setOrders(prev => [...prev, mockOrder]);
-    }, [orders.length]);
+    }, [ethersBrowserProvider, otcAddress, fromBlock, sync]);
 
-    const clearOrders = useCallback(() => {
-        setOrders([]);
-    }, []);
+    // Per-order timelines, oldest event first. OrderCancelled and TermsRevealed only carry the id,
+    // so they inherit the maker from the order's OrderCreated event.
+    const timelines = useMemo(() => {
+        const makers = new Map<string, string>();
+        for (const event of events) {
+            if (event.type === "OrderCreated" && event.maker) makers.set(event.id, event.maker);
+        }
+
+        const byOrder: Record<string, OrderEvent[]> = {};
+        for (const event of events) {
+            (byOrder[event.id] ??= []).push({ ...event, maker: event.maker ?? makers.get(event.id) });
+        }
+        return byOrder;
+    }, [events]);
+
+    const getOrderTimeline = useCallback((id: string) => timelines[id] ?? [], [timelines]);
 
     return {
-        orders,
-        onOrderCreated,
-        onOrderFilled,
-        onTermsRevealed,
-        addMockOrder,
-        clearOrders,
+        events,
+        timelines,
+        getOrderTimeline,
+        loading,
+        error,
+        refresh: sync,
     };
 }
@@ -1,8 +1,18 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { ethers } from "ethers";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
 import { OTC_ABI } from "@/abi/otc";
 
+// One fill request against an order. Until settled, the handles hold the taker's offer;
+// afterwards they hold what changed hands (both decrypt to 0 for a rejected fill).
+export type OrderFill = {
+    index: number;
+    taker: string;
+    payEnc: string;
+    receivedEnc: string;
+    settled: boolean;
+};
+
 export type Order = {
     id: string;
     maker: string;
@@ -12,121 +22,270 @@ export type Order = {
     amountOutEnc: string;
     takerEnc: string;
     deadline: number;
-    filled: boolean;
     cancelled: boolean;
-    takerPayEnc: string;
-    createdAt: number;
+    remainingOutEnc: string;
+    pricedOutEnc: string; // amountOut that amountInEnc prices: amountOutEnc, or what remained at the last amend
+    settledFills: number;
+    fills: OrderFill[];
+    reservedBy: string;
+    reservedUntil: number;
+    createdAt: number; // ms, from the order's block timestamp
+    createdBlock: number;
+    createdTxHash?: string; // tx that emitted OrderCreated, when the log could be found
 };
 
 export type OrderWithDetails = Order & {
-    status: "active" | "filled" | "cancelled" | "expired";
+    status: "active" | "cancelled" | "expired";
+    pendingFills: number;
+    // another taker holds the fill reservation, so requests from this account would revert
+    isReservedForOther: boolean;
     timeRemaining?: number;
     isExpired: boolean;
     isMine: boolean;
 };
 
-export function useOrders(otcAddress: string) {
+// Which index the hook pages through: every order, the connected account's orders (maker index)
+// or the escrow's open-order index
+export type OrdersView = "all" | "mine" | "open";
+
+export type UseOrdersOptions = {
+    pageSize?: number;
+    // Base URL of the otc-indexer API; when set, pages come from its SQLite store instead of the escrow
+    indexerUrl?: string;
+};
+
+// One page of orders from either source, plus the index position after it
+type OrdersPage = { orders: Order[]; total: number; cursor: number };
+
+const DEFAULT_PAGE_SIZE = 10;
+
+export function toOrder(id: bigint, orderData: any, fillsData: any[], createdTxHash: string | undefined): Order {
+    return {
+        id: id.toString(),
+        maker: orderData.maker,
+        tokenIn: orderData.tokenIn,
+        tokenOut: orderData.tokenOut,
+        amountInEnc: orderData.amountInEnc,
+        amountOutEnc: orderData.amountOutEnc,
+        takerEnc: orderData.takerEnc,
+        deadline: Number(orderData.deadline),
+        cancelled: orderData.cancelled,
+        remainingOutEnc: orderData.remainingOutEnc,
+        pricedOutEnc: orderData.pricedOutEnc,
+        settledFills: Number(orderData.settledFills),
+        reservedBy: orderData.reservedBy,
+        reservedUntil: Number(orderData.reservedUntil),
+        fills: fillsData.map((fill: any, index: number) => ({
+            index,
+            taker: fill.taker,
+            payEnc: fill.payEnc,
+            receivedEnc: fill.receivedEnc,
+            settled: fill.settled,
+        })),
+        createdAt: Number(orderData.createdAt) * 1000,
+        createdBlock: Number(orderData.createdBlock),
+        createdTxHash,
+    };
+}
+
+// Indexer rows mirror the escrow struct with timestamps in seconds and fills attached
+function fromIndexer(row: any): Order {
+    return {
+        id: String(row.id),
+        maker: row.maker,
+        tokenIn: row.tokenIn,
+        tokenOut: row.tokenOut,
+        amountInEnc: row.amountInEnc,
+        amountOutEnc: row.amountOutEnc,
+        takerEnc: row.takerEnc,
+        deadline: row.deadline,
+        cancelled: row.cancelled,
+        remainingOutEnc: row.remainingOutEnc,
+        pricedOutEnc: row.pricedOutEnc,
+        settledFills: row.settledFills,
+        reservedBy: row.reservedBy,
+        reservedUntil: row.reservedUntil,
+        fills: (row.fills ?? []).map((fill: any) => ({
+            index: fill.index,
+            taker: fill.taker,
+            payEnc: fill.payEnc,
+            receivedEnc: fill.receivedEnc,
+            settled: fill.settled,
+        })),
+        createdAt: row.createdAt * 1000,
+        createdBlock: row.createdBlock,
+        createdTxHash: row.createdTxHash ?? undefined,
+    };
+}
+
+async function fetchIndexerPage(indexerUrl: string, view: OrdersView, account: string, consumed: number, pageSize: number): Promise<OrdersPage> {
+    const base = indexerUrl.replace(/\/+$/, "");
+    const query = `offset=${consumed}&limit=${pageSize}`;
+    const url = view === "mine"
+        ? `${base}/makers/${account}/orders?${query}`
+        : `${base}/orders?${query}${view === "open" ? "&status=active" : ""}`;
+
+    const res = await fetch(url);
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error ?? `indexer returned ${res.status}`);
+
+    const orders = (body.orders as any[]).map(fromIndexer);
+    return { orders, total: body.total, cursor: consumed + orders.length };
+}
+
+async function fetchChainPage(contract: ethers.Contract, view: OrdersView, account: string, consumed: number, pageSize: number): Promise<OrdersPage> {
+    let ids: bigint[] = [];
+    let page: any[] = [];
+    let total = 0;
+    let cursor = consumed;
+
+    if (view === "open") {
+        // The open-order index is unordered and skips expired entries, so pages can come back short
+        const [openIds, openTotal] = await contract.getOpenOrderIds(consumed, pageSize);
+        ids = [...openIds];
+        page = await Promise.all(ids.map((id) => contract.orders(id)));
+        total = Number(openTotal);
+        cursor = Math.min(total, consumed + pageSize);
+    } else {
+        // Walk the index backwards so the newest orders load first
+        total = Number(view === "mine" ? await contract.makerOrderCount(account) : await contract.nextOrderId());
+        const end = Math.max(0, total - consumed);
+        const start = Math.max(0, end - pageSize);
+
+        if (end > start) {
+            if (view === "mine") {
+                const [makerIds, makerPage] = await contract.getOrdersByMaker(account, start, end - start);
+                ids = [...makerIds];
+                page = [...makerPage];
+            } else {
+                page = [...(await contract.getOrders(start, end - start))];
+                ids = page.map((_, i) => BigInt(start + i));
+            }
+        }
+        cursor = consumed + (end - start);
+    }
+
+    const fills = await Promise.all(ids.map((id) => contract.getFills(id)));
+    const createdTxHashes = await Promise.all(ids.map((id, i) => findCreationTx(contract, id, page[i].createdBlock)));
+    return { orders: ids.map((id, i) => toOrder(id, page[i], fills[i], createdTxHashes[i])), total, cursor };
+}
+
+// The OrderCreated log for `id` sits in the order's creation block, so the lookup is a single-block query
+async function findCreationTx(contract: ethers.Contract, id: bigint, createdBlock: bigint): Promise<string | undefined> {
+    try {
+        const logs = await contract.queryFilter(contract.filters.OrderCreated(id), Number(createdBlock), Number(createdBlock));
+        return logs[0]?.transactionHash;
+    } catch (err) {
+        console.warn(`Failed to find the creation tx of order ${id}:`, err);
+        return undefined;
+    }
+}
+
+function withDetails(order: Order, account: string | undefined): OrderWithDetails {
+    const now = Math.floor(Date.now() / 1000);
+    const isExpired = order.deadline < now;
+    const isMine = account?.toLowerCase() === order.maker.toLowerCase();
+
+    let status: OrderWithDetails["status"] = "active";
+    if (order.cancelled) {
+        status = "cancelled";
+    } else if (isExpired) {
+        status = "expired";
+    }
+
+    const timeRemaining = isExpired ? 0 : order.deadline - now;
+
+    return {
+        ...order,
+        status,
+        pendingFills: order.fills.length - order.settledFills,
+        isReservedForOther: order.reservedUntil > now &&
+            order.reservedBy.toLowerCase() !== account?.toLowerCase(),
+        timeRemaining,
+        isExpired,
+        isMine,
+    };
+}
+
+/**
+ * Pages through the escrow's order views (getOrders, getOrdersByMaker, getOpenOrderIds), newest first
+ * for "all" and "mine", or through the same views served by the otc-indexer when `indexerUrl` is set.
+ * `loadMore` appends the next page; changing the view or refreshing starts over.
+ */
+export function useOrders(
+    otcAddress: string,
+    view: OrdersView = "all",
+    { pageSize = DEFAULT_PAGE_SIZE, indexerUrl = "" }: UseOrdersOptions = {},
+) {
     const { ethersSigner, isConnected, provider } = useMetaMaskEthersSigner();
     const [orders, setOrders] = useState<OrderWithDetails[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>("");
+    const [hasMore, setHasMore] = useState(false);
+
+    // Index entries consumed so far, and a counter that lets a reset drop pages still in flight
+    const cursorRef = useRef(0);
+    const requestRef = useRef(0);
 
-    const fetchOrders = useCallback(async () => {
+    const fetchPage = useCallback(async (reset: boolean) => {
         if (!ethersSigner || !provider || !otcAddress) return;
 
+        const request = reset ? ++requestRef.current : requestRef.current;
+        const consumed = reset ? 0 : cursorRef.current;
+
         setLoading(true);
         setError("");
 
         try {
-            const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersSigner);
+            const account = ethersSigner.address;
+            const { orders: page, total, cursor } = indexerUrl
+                ? await fetchIndexerPage(indexerUrl, view, account, consumed, pageSize)
+                : await fetchChainPage(new ethers.Contract(otcAddress, OTC_ABI, ethersSigner), view, account, consumed, pageSize);
+            const processed = page.map((order) => withDetails(order, account));
 
-            // Get the next order ID to know how many orders exist
-            const nextOrderId = await contract.nextOrderId();
-            const totalOrders = Number(nextOrderId);
+            if (request !== requestRef.current) return;
 
-            if (totalOrders === 0) {
-                setOrders([]);
-                return;
-            }
-
-            // Fetch all orders
-            const ordersData: Order[] = [];
-            for (let i = 0; i < totalOrders; i++) {
-                try {
-                    const orderData = await contract.orders(i);
-                    ordersData.push({
-                        id: i.toString(),
-                        maker: orderData.maker,
-                        tokenIn: orderData.tokenIn,
-                        tokenOut: orderData.tokenOut,
-                        amountInEnc: orderData.amountInEnc,
-                        amountOutEnc: orderData.amountOutEnc,
-                        takerEnc: orderData.takerEnc,
-                        deadline: Number(orderData.deadline),
-                        filled: orderData.filled,
-                        cancelled: orderData.cancelled,
-                        takerPayEnc: orderData.takerPayEnc,
-                        createdAt: Date.now() - (totalOrders - i) * 60000, // Mock creation time
-                    });
-                } catch (err) {
-                    console.warn(`Failed to fetch order ${i}:`, err);
-                }
-            }
-
-            // Process orders to add computed fields
-            const processedOrders: OrderWithDetails[] = ordersData.map(order => {
-                const now = Math.floor(Date.now() / 1000);
-                const isExpired = order.deadline < now;
-                const isMine = ethersSigner.address?.toLowerCase() === order.maker.toLowerCase();
-
-                let status: OrderWithDetails["status"] = "active";
-                if (order.filled) {
-                    status = "filled";
-                } else if (order.cancelled) {
-                    status = "cancelled";
-                } else if (isExpired) {
-                    status = "expired";
-                }
-
-                const timeRemaining = isExpired ? 0 : order.deadline - now;
-
-                return {
-                    ...order,
-                    status,
-                    timeRemaining,
-                    isExpired,
-                    isMine,
-                };
+            cursorRef.current = cursor;
+            setHasMore(cursor < total);
+            setOrders((prev) => {
+                // The open index may shift between pages, so drop orders already listed
+                const seen = new Set(reset ? [] : prev.map((o) => o.id));
+                const merged = [...(reset ? [] : prev), ...processed.filter((o) => !seen.has(o.id))];
+                return merged.sort((a, b) => b.createdBlock - a.createdBlock || Number(b.id) - Number(a.id));
             });
-
-            // Sort by creation time (newest first)
-            processedOrders.sort((a, b) => b.createdAt - a.createdAt);
-
-            setOrders(processedOrders);
         } catch (err: any) {
+            if (request !== requestRef.current) return;
             console.error("Failed to fetch orders:", err);
             setError(`Failed to fetch orders: ${err.message}`);
         } finally {
-            setLoading(false);
+            if (request === requestRef.current) setLoading(false);
         }
-    }, [ethersSigner, provider, otcAddress]);
+    }, [ethersSigner, provider, otcAddress, view, pageSize, indexerUrl]);
 
-    // Fetch orders when component mounts or dependencies change
+    // Start over when component mounts or dependencies change
     useEffect(() => {
         if (isConnected && ethersSigner && otcAddress) {
-            fetchOrders();
+            fetchPage(true);
+        }
+    }, [isConnected, ethersSigner, otcAddress, fetchPage]);
+
+    const loadMore = useCallback(() => {
+        if (!loading && hasMore) {
+            fetchPage(false);
         }
-    }, [isConnected, ethersSigner, otcAddress, fetchOrders]);
+    }, [loading, hasMore, fetchPage]);
 
     // Refresh orders
     const refreshOrders = useCallback(() => {
-        fetchOrders();
-    }, [fetchOrders]);
+        fetchPage(true);
+    }, [fetchPage]);
 
     return {
         orders,
         loading,
         error,
+        hasMore,
+        loadMore,
         refreshOrders,
     };
 }
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { toOrder, type Order } from "@/hooks/useOrders";
+import { lockedInEscrow, lockedTotals } from "@/lib/portfolio";
+import { userDecryptHandles } from "@/lib/userDecrypt";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { OTC_ABI } from "@/abi/otc";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+
+// Blocks per getLogs call; public RPCs cap the range of a single query
+const LOG_CHUNK_SIZE = 5_000;
+const MAKER_PAGE_SIZE = 50;
+
+type TokenInfo = {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    balanceEnc: string;
+};
+
+export type PortfolioRow = Omit<TokenInfo, "balanceEnc"> & {
+    balance?: bigint; // undefined until decrypted
+    locked?: bigint; // in escrow, undefined until decrypted
+    lockedCount: number; // orders and fills holding this token in escrow
+};
+
+/**
+ * The connected account's confidential balance of each token in `tokens` (plus any token it has locked in the
+ * escrow), and the part held by the escrow for its open orders and pending fills. `decrypt` reads balances and
+ * locked amounts in one batch behind a single cached decryption signature.
+ */
+export function usePortfolio(otcAddress: string, tokens: string[], fromBlock: number, instance: FhevmInstance | undefined) {
+    const { ethersSigner, ethersBrowserProvider } = useMetaMaskEthersSigner();
+    const { storage } = useInMemoryStorage();
+    const [tokenInfos, setTokenInfos] = useState<TokenInfo[]>([]);
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [clearValues, setClearValues] = useState<Record<string, bigint | boolean | string>>({});
+    const [loading, setLoading] = useState(false);
+    const [decrypting, setDecrypting] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    const account = ethersSigner?.address;
+    const tokensKey = tokens.join(",");
+
+    const locked = useMemo(() => (account ? lockedInEscrow(orders, account) : []), [orders, account]);
+
+    const refresh = useCallback(async () => {
+        if (!account || !ethersBrowserProvider || !otcAddress) return;
+
+        setLoading(true);
+        setError("");
+        try {
+            const escrow = new ethers.Contract(otcAddress, OTC_ABI, ethersBrowserProvider);
+
+            // Orders the account made, through the maker index
+            const makerCount = Number(await escrow.makerOrderCount(account));
+            const loaded = new Map<string, Order>();
+            for (let offset = 0; offset < makerCount; offset += MAKER_PAGE_SIZE) {
+                const [ids, page] = await escrow.getOrdersByMaker(account, offset, MAKER_PAGE_SIZE);
+                const fills = await Promise.all(ids.map((id: bigint) => escrow.getFills(id)));
+                ids.forEach((id: bigint, i: number) => loaded.set(id.toString(), toOrder(id, page[i], fills[i], undefined)));
+            }
+
+            // Orders the account requested fills on, from its FillRequested logs
+            const latest = await ethersBrowserProvider.getBlockNumber();
+            const filledIds = new Set<bigint>();
+            for (let start = fromBlock; start <= latest; start += LOG_CHUNK_SIZE) {
+                const logs = await escrow.queryFilter(
+                    escrow.filters.FillRequested(null, account),
+                    start,
+                    Math.min(latest, start + LOG_CHUNK_SIZE - 1),
+                );
+                logs.forEach((log) => filledIds.add((log as ethers.EventLog).args.id));
+            }
+            await Promise.all([...filledIds].filter((id) => !loaded.has(id.toString())).map(async (id) => {
+                const [orderData, fillsData] = await Promise.all([escrow.orders(id), escrow.getFills(id)]);
+                loaded.set(id.toString(), toOrder(id, orderData, fillsData, undefined));
+            }));
+
+            const orderList = [...loaded.values()];
+            const addresses = [...new Set([
+                ...tokens.filter((token) => ethers.isAddress(token) && token !== ethers.ZeroAddress).map((token) => ethers.getAddress(token)),
+                ...lockedInEscrow(orderList, account).map((entry) => entry.token),
+            ])];
+
+            const infos = await Promise.all(addresses.map(async (address) => {
+                const token = new ethers.Contract(address, CONFIDENTIAL_TOKEN_ABI, ethersBrowserProvider);
+                const [name, symbol, decimals, balanceEnc] = await Promise.all([
+                    token.name().catch(() => "Unknown"),
+                    token.symbol().catch(() => "?"),
+                    token.decimals().catch(() => 0),
+                    token.confidentialBalanceOf(account),
+                ]);
+                return { address, name, symbol, decimals: Number(decimals), balanceEnc };
+            }));
+
+            setOrders(orderList);
+            setTokenInfos(infos);
+        } catch (err: any) {
+            console.error("Failed to load portfolio:", err);
+            setError(`Failed to load portfolio: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+        // tokensKey stands in for tokens, which callers usually rebuild on every render
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [account, ethersBrowserProvider, otcAddress, fromBlock, tokensKey]);
+
+    // Plaintexts belong to the account that decrypted them
+    useEffect(() => {
+        setTokenInfos([]);
+        setOrders([]);
+        setClearValues({});
+        refresh();
+    }, [refresh]);
+
+    const decrypt = useCallback(async () => {
+        if (!instance || !ethersSigner) return;
+
+        const pairs = [
+            ...tokenInfos.map((info) => ({ handle: info.balanceEnc, contractAddress: info.address })),
+            ...locked.map((entry) => ({ handle: entry.handle, contractAddress: otcAddress })),
+        ].filter((pair) => clearValues[pair.handle] === undefined);
+        if (pairs.length === 0) return;
+
+        setDecrypting(true);
+        setError("");
+        try {
+            const results = await userDecryptHandles(instance, ethersSigner, storage, pairs);
+            setClearValues((prev) => ({ ...prev, ...results }));
+        } catch (err: any) {
+            console.error("Failed to decrypt portfolio:", err);
+            setError(`Failed to decrypt portfolio: ${err.message}`);
+        } finally {
+            setDecrypting(false);
+        }
+    }, [instance, ethersSigner, otcAddress, storage, tokenInfos, locked, clearValues]);
+
+    const rows = useMemo((): PortfolioRow[] => {
+        const totals = lockedTotals(locked, clearValues);
+        return tokenInfos.map(({ balanceEnc, ...info }) => {
+            const balance = clearValues[balanceEnc];
+            const lockedCount = locked.filter((entry) => entry.token === info.address).length;
+            return {
+                ...info,
+                balance: balance === undefined ? undefined : BigInt(balance),
+                locked: lockedCount === 0 ? BigInt(0) : totals[info.address],
+                lockedCount,
+            };
+        });
+    }, [tokenInfos, locked, clearValues]);
+
+    return {
+        rows,
+        loading,
+        decrypting,
+        error,
+        refresh,
+        decrypt,
+    };
+}
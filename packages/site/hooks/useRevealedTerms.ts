@@ -0,0 +1,89 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useOrderEvents } from "@/hooks/useOrderEvents";
+import { decryptRevealedTerms, type RevealedTerms } from "@/lib/revealedTerms";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { OTC_ABI } from "@/abi/otc";
+
+/**
+ * Every order whose terms were revealed, newest reveal first. Follows TermsRevealed from `fromBlock` and
+ * publicly decrypts the terms of newly revealed orders as they appear.
+ */
+export function useRevealedTerms(otcAddress: string, fromBlock: number, instance: FhevmInstance | undefined) {
+    const { ethersReadonlyProvider } = useMetaMaskEthersSigner();
+    const { events, loading: eventsLoading, error: eventsError, refresh } = useOrderEvents(otcAddress, fromBlock);
+    const [terms, setTerms] = useState<Record<string, RevealedTerms>>({});
+    const [decrypting, setDecrypting] = useState(false);
+    const [error, setError] = useState<string>("");
+
+    // Orders already decrypted or in flight, so a new block does not decrypt them again
+    const requestedRef = useRef(new Set<string>());
+
+    const reveals = useMemo(() => events.filter((event) => event.type === "TermsRevealed"), [events]);
+
+    useEffect(() => {
+        requestedRef.current = new Set();
+        setTerms({});
+    }, [otcAddress, instance]);
+
+    useEffect(() => {
+        if (!instance || !ethersReadonlyProvider) return;
+
+        // An order can be revealed more than once; its first reveal counts
+        const pending = reveals.filter((event) => {
+            if (requestedRef.current.has(event.id)) return false;
+            requestedRef.current.add(event.id);
+            return true;
+        });
+        if (pending.length === 0) return;
+
+        setDecrypting(true);
+        setError("");
+
+        const run = async () => {
+            try {
+                const contract = new ethers.Contract(otcAddress, OTC_ABI, ethersReadonlyProvider);
+                const orders = await Promise.all(pending.map(async (event) => {
+                    const order = await contract.orders(BigInt(event.id));
+                    return {
+                        id: event.id,
+                        maker: order.maker,
+                        tokenIn: order.tokenIn,
+                        tokenOut: order.tokenOut,
+                        amountInEnc: order.amountInEnc,
+                        amountOutEnc: order.amountOutEnc,
+                        pricedOutEnc: order.pricedOutEnc,
+                        takerEnc: order.takerEnc,
+                        revealedAt: event.timestamp,
+                        txHash: event.txHash,
+                    };
+                }));
+
+                const decrypted = await decryptRevealedTerms(instance, orders);
+                setTerms((prev) => ({ ...prev, ...Object.fromEntries(decrypted.map((t) => [t.id, t])) }));
+            } catch (err: any) {
+                // Let the next refresh try these orders again
+                pending.forEach((event) => requestedRef.current.delete(event.id));
+                console.error("Failed to decrypt revealed terms:", err);
+                setError(`Failed to decrypt revealed terms: ${err.message}`);
+            } finally {
+                setDecrypting(false);
+            }
+        };
+
+        run();
+    }, [reveals, instance, ethersReadonlyProvider, otcAddress]);
+
+    const revealed = useMemo(
+        () => Object.values(terms).sort((a, b) => b.revealedAt - a.revealedAt || Number(b.id) - Number(a.id)),
+        [terms],
+    );
+
+    return {
+        revealed,
+        loading: eventsLoading || decrypting,
+        error: eventsError || error,
+        refresh,
+    };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { findToken } from "@/lib/tokens";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+
+/**
+ * Decimals of each token in `addresses`, keyed by lowercase address: from the token registry when the token
+ * is listed, otherwise read from the token. Tokens still loading, or whose read failed, are missing.
+ */
+export function useTokenDecimals(addresses: string[]): Record<string, number> {
+    const { chainId, ethersReadonlyProvider } = useMetaMaskEthersSigner();
+    const [decimals, setDecimals] = useState<Record<string, number>>({});
+
+    const wanted = [...new Set(addresses.filter((address) => ethers.isAddress(address)).map((address) => address.toLowerCase()))];
+    const wantedKey = wanted.join(",");
+
+    useEffect(() => {
+        let cancelled = false;
+        const known: Record<string, number> = {};
+        const unknown: string[] = [];
+        for (const address of wantedKey ? wantedKey.split(",") : []) {
+            const token = findToken(chainId, address);
+            if (token) known[address] = token.decimals;
+            else unknown.push(address);
+        }
+        setDecimals(known);
+        if (!ethersReadonlyProvider || unknown.length === 0) return;
+
+        Promise.all(unknown.map(async (address) => {
+            try {
+                const token = new ethers.Contract(address, CONFIDENTIAL_TOKEN_ABI, ethersReadonlyProvider);
+                return [address, Number(await token.decimals())] as const;
+            } catch (err) {
+                console.error(`Failed to read decimals of ${address}:`, err);
+                return undefined;
+            }
+        })).then((results) => {
+            if (cancelled) return;
+            setDecimals((prev) => ({ ...prev, ...Object.fromEntries(results.filter((result) => result !== undefined)) }));
+        });
+
+        return () => { cancelled = true; };
+    }, [chainId, ethersReadonlyProvider, wantedKey]);
+
+    return decimals;
+}
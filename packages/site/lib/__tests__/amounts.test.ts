@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { checkedMul, feeOf, formatAmount, parseAmount, MAX_UINT64, MAX_UINT128 } from '../amounts';
+
+describe('amounts', () => {
+    it('parses decimal strings to base units', () => {
+        expect(parseAmount('1.5', 6)).toBe(BigInt(1_500_000));
+        expect(parseAmount(' 100 ', 6)).toBe(BigInt(100_000_000));
+        expect(parseAmount('.25', 2)).toBe(BigInt(25));
+        expect(parseAmount('2.000000000', 6)).toBe(BigInt(2_000_000));
+        expect(parseAmount('42', 0)).toBe(BigInt(42));
+        expect(parseAmount('0', 6, { allowZero: true })).toBe(BigInt(0));
+    });
+
+    it('rejects malformed, zero, too precise and out of range amounts', () => {
+        expect(() => parseAmount('', 6)).toThrow('not a decimal amount');
+        expect(() => parseAmount('1e6', 6)).toThrow('not a decimal amount');
+        expect(() => parseAmount('-1', 6)).toThrow('not a decimal amount');
+        expect(() => parseAmount('0.0', 6)).toThrow('greater than zero');
+        expect(() => parseAmount('0.0000001', 6)).toThrow('more than 6 decimals');
+        // Past Number.MAX_SAFE_INTEGER, where parseInt loses precision
+        expect(parseAmount('18446744073709.551615', 6)).toBe(MAX_UINT64);
+        expect(() => parseAmount('18446744073709.551616', 6)).toThrow('fits in 64 bits');
+    });
+
+    it('formats base units back to decimals', () => {
+        expect(formatAmount(BigInt(1_500_000), 6)).toBe('1.5');
+        expect(formatAmount(BigInt(5), 6)).toBe('0.000005');
+        expect(formatAmount(BigInt(100), 0)).toBe('100');
+        expect(formatAmount(MAX_UINT64, 6)).toBe('18446744073709.551615');
+    });
+
+    it('multiplies within the given width', () => {
+        expect(checkedMul(MAX_UINT64, MAX_UINT64, MAX_UINT128)).toBe(MAX_UINT64 * MAX_UINT64);
+        expect(() => checkedMul(MAX_UINT128, BigInt(2), MAX_UINT128)).toThrow('overflows');
+        expect(() => checkedMul(MAX_UINT64, BigInt(10_000), MAX_UINT64)).toThrow('overflows');
+    });
+
+    it('computes fees like the escrow', () => {
+        expect(feeOf(BigInt(1_000), 30)).toBe(BigInt(3));
+        expect(feeOf(BigInt(999), 10)).toBe(BigInt(0));
+        // amount * feeBps passes 64 bits, but the escrow multiplies in 128
+        expect(feeOf(MAX_UINT64, 1_000)).toBe(MAX_UINT64 / BigInt(10));
+        expect(() => feeOf(MAX_UINT64, 20_000)).toThrow('does not fit in 64 bits');
+    });
+});
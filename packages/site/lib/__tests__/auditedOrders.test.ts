@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { auditedHandles, auditOrder } from '../auditedOrders';
+import type { Order } from '@/hooks/useOrders';
+
+const maker = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const taker = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// A handle with the euint64 (5) or eaddress (7) type byte; `n` keeps handles distinct
+function handle(n: number, type: number = 5): string {
+    return ethers.zeroPadValue(ethers.toBeHex(n), 30) + type.toString(16).padStart(2, '0') + '00';
+}
+
+const order: Order = {
+    id: '0',
+    maker,
+    tokenIn: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    tokenOut: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+    amountInEnc: handle(1),
+    amountOutEnc: handle(2),
+    takerEnc: handle(3, 7),
+    deadline: 0,
+    cancelled: false,
+    remainingOutEnc: handle(4),
+    pricedOutEnc: handle(9),
+    settledFills: 1,
+    fills: [
+        { index: 0, taker, payEnc: handle(5), receivedEnc: handle(6), settled: true },
+        { index: 1, taker, payEnc: handle(7), receivedEnc: handle(8), settled: false },
+    ],
+    reservedBy: taker,
+    reservedUntil: 0,
+    createdAt: 0,
+    createdBlock: 0,
+};
+
+describe('auditedOrders', () => {
+    it('collects the terms, the remaining amount and settled fills only', () => {
+        expect(auditedHandles(order)).toEqual([handle(1), handle(2), handle(9), handle(3, 7), handle(4), handle(5), handle(6)]);
+    });
+
+    it('maps clear values back onto the order', () => {
+        const audited = auditOrder(order, {
+            [handle(1)]: BigInt(100),
+            [handle(2)]: BigInt(200),
+            [handle(9)]: BigInt(150),
+            [handle(3, 7)]: taker.toLowerCase(),
+            [handle(4)]: BigInt(100),
+            [handle(5)]: BigInt(50),
+            [handle(6)]: BigInt(99),
+        });
+
+        expect(audited.amountIn).toBe(BigInt(100));
+        expect(audited.amountOut).toBe(BigInt(200));
+        expect(audited.pricedOut).toBe(BigInt(150));
+        expect(audited.taker).toBe(taker);
+        expect(audited.remainingOut).toBe(BigInt(100));
+        expect(audited.fills).toEqual([
+            { index: 0, taker, settled: true, paid: BigInt(50), received: BigInt(99) },
+            { index: 1, taker, settled: false, paid: undefined, received: undefined },
+        ]);
+    });
+
+    it('leaves values undefined until decrypted', () => {
+        const audited = auditOrder(order, {});
+        expect(audited.amountIn).toBeUndefined();
+        expect(audited.taker).toBeUndefined();
+    });
+});
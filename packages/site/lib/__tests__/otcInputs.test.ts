@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+    buildBasketInputs,
+    buildOtcBatchInputs,
+    buildOtcInputs,
+    buildSignedOrderInputs,
+    buildTokenInputs,
+    encryptedSchema,
+    functionParams,
+    inputBits,
+    maxOtcBatchSize,
+} from '../otcInputs';
+import { OTC_ABI } from '@/abi/otc';
+import { BASKET_ABI } from '@/abi/basket';
+import type { FhevmInstance } from '@/fhevm/fhevmTypes';
+
+const escrow = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const token = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const user = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// Records what is added to each encrypted input; handle i is the byte i
+function fakeInstance() {
+    const calls: { contract: string; user: string; added: [string, unknown][] }[] = [];
+    const instance = {
+        createEncryptedInput(contract: string, userAddress: string) {
+            const entry = { contract, user: userAddress, added: [] as [string, unknown][] };
+            calls.push(entry);
+            const input: Record<string, unknown> = {
+                encrypt: async () => ({
+                    handles: entry.added.map((_, i) => new Uint8Array([i])),
+                    inputProof: new Uint8Array([0xff]),
+                }),
+            };
+            for (const method of ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress']) {
+                input[method] = (value: unknown) => {
+                    entry.added.push([method, value]);
+                    return input;
+                };
+            }
+            return input;
+        },
+    } as unknown as FhevmInstance;
+    return { instance, calls };
+}
+
+describe('otcInputs', () => {
+    it('derives the encrypted parameters of a function from the ABI', () => {
+        expect(encryptedSchema(functionParams(OTC_ABI, 'createOrder'))).toEqual([
+            { name: 'amountInExt', type: 'externalEuint64' },
+            { name: 'amountOutExt', type: 'externalEuint64' },
+            { name: 'maybeTakerExt', type: 'externalEaddress' },
+        ]);
+        expect(() => functionParams(OTC_ABI, 'cancelOrder')).toThrow('taking encrypted inputs');
+    });
+
+    it('encrypts fillOrder amounts as 64-bit values in ABI order', async () => {
+        const { instance, calls } = fakeInstance();
+
+        const enc = await buildOtcInputs(instance, 'fillOrder', escrow, user, {
+            takerReceiveExt: BigInt(200),
+            takerPayExt: BigInt(100),
+        });
+
+        expect(calls).toEqual([{ contract: escrow, user, added: [['add64', BigInt(100)], ['add64', BigInt(200)]] }]);
+        expect(enc.handles.takerPayExt).toEqual(new Uint8Array([0]));
+        expect(enc.handles.takerReceiveExt).toEqual(new Uint8Array([1]));
+        expect(enc.inputProof).toEqual(new Uint8Array([0xff]));
+    });
+
+    it('encrypts createOrder terms, the taker as an address', async () => {
+        const { instance, calls } = fakeInstance();
+
+        await buildOtcInputs(instance, 'createOrder', escrow, user, {
+            amountInExt: BigInt(1),
+            amountOutExt: BigInt(2),
+            maybeTakerExt: ethers.ZeroAddress,
+        });
+
+        expect(calls[0].added).toEqual([['add64', BigInt(1)], ['add64', BigInt(2)], ['addAddress', ethers.ZeroAddress]]);
+    });
+
+    it('encrypts token and signed order inputs for their own contract', async () => {
+        const { instance, calls } = fakeInstance();
+
+        await buildTokenInputs(instance, 'confidentialTransferFrom', token, user, { encryptedAmount: BigInt(5) });
+        const terms = await buildSignedOrderInputs(instance, escrow, user, { amountInExt: BigInt(1), amountOutExt: BigInt(2) });
+
+        expect(calls.map((call) => call.contract)).toEqual([token, escrow]);
+        expect(calls[0].added).toEqual([['add64', BigInt(5)]]);
+        expect(Object.keys(terms.handles)).toEqual(['amountInExt', 'amountOutExt']);
+    });
+
+    it('encrypts a batch of calls into one input, each call with its own handles', async () => {
+        const { instance, calls } = fakeInstance();
+        const order = (amountIn: number) => ({
+            amountInExt: BigInt(amountIn),
+            amountOutExt: BigInt(2),
+            maybeTakerExt: ethers.ZeroAddress,
+        });
+
+        const enc = await buildOtcBatchInputs(instance, 'createOrder', escrow, user, [order(1), order(3)]);
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0].added.map(([method, value]) => `${method}:${value}`)).toEqual([
+            'add64:1', 'add64:2', `addAddress:${ethers.ZeroAddress}`,
+            'add64:3', 'add64:2', `addAddress:${ethers.ZeroAddress}`,
+        ]);
+        expect(enc.handles.map((handles) => handles.amountInExt)).toEqual([new Uint8Array([0]), new Uint8Array([3])]);
+        expect(enc.handles[1].maybeTakerExt).toEqual(new Uint8Array([5]));
+    });
+
+    it('caps a batch at what one input proof can cover', async () => {
+        const { instance, calls } = fakeInstance();
+        expect(maxOtcBatchSize('createOrder')).toBe(7);
+        expect(maxOtcBatchSize('fillOrder')).toBe(16);
+
+        const fills = Array.from({ length: 17 }, () => ({ takerPayExt: BigInt(1), takerReceiveExt: BigInt(1) }));
+        await expect(buildOtcBatchInputs(instance, 'fillOrder', escrow, user, fills)).rejects.toThrow('17 calls need 2176 bits');
+        expect(calls).toEqual([]);
+    });
+
+    it('rejects values that do not match the ABI before encrypting', async () => {
+        const { instance, calls } = fakeInstance();
+        const fill = (values: Record<string, unknown>) =>
+            buildOtcInputs(instance, 'fillOrder', escrow, user, values as { takerPayExt: bigint; takerReceiveExt: bigint });
+
+        await expect(fill({ takerPayExt: BigInt(1) << BigInt(64), takerReceiveExt: BigInt(1) })).rejects.toThrow('takerPayExt (externalEuint64)');
+        await expect(fill({ takerPayExt: 100, takerReceiveExt: BigInt(1) })).rejects.toThrow('must be a bigint');
+        await expect(fill({ takerPayExt: BigInt(1) })).rejects.toThrow('takerReceiveExt');
+        await expect(fill({ takerPayExt: BigInt(1), takerReceiveExt: BigInt(1), extra: BigInt(1) })).rejects.toThrow('Unexpected encrypted inputs: extra');
+        expect(calls).toEqual([]);
+    });
+
+    it('encrypts array parameters value by value and hands back one handle per value', async () => {
+        const { instance, calls } = fakeInstance();
+
+        const enc = await buildBasketInputs(instance, 'createBasketOrder', escrow, user, {
+            amountsInExt: [BigInt(100), BigInt(50)],
+            amountsOutExt: [BigInt(200)],
+            takerExt: ethers.ZeroAddress,
+        });
+
+        expect(encryptedSchema(functionParams(BASKET_ABI, 'createBasketOrder'))).toEqual([
+            { name: 'amountsInExt', type: 'externalEuint64', array: true },
+            { name: 'amountsOutExt', type: 'externalEuint64', array: true },
+            { name: 'takerExt', type: 'externalEaddress' },
+        ]);
+        expect(calls[0].added.map(([method, value]) => `${method}:${value}`)).toEqual([
+            'add64:100', 'add64:50', 'add64:200', `addAddress:${ethers.ZeroAddress}`,
+        ]);
+        expect(enc.handles.amountsInExt).toEqual([new Uint8Array([0]), new Uint8Array([1])]);
+        expect(enc.handles.amountsOutExt).toEqual([new Uint8Array([2])]);
+        expect(enc.handles.takerExt).toEqual(new Uint8Array([3]));
+    });
+
+    it('checks every value of an array parameter and counts its bits', async () => {
+        const { instance, calls } = fakeInstance();
+        const fill = (paysExt: unknown) =>
+            buildBasketInputs(instance, 'fillBasketOrder', escrow, user, { paysExt: paysExt as bigint[] });
+
+        await expect(fill(BigInt(1))).rejects.toThrow('paysExt (externalEuint64[]) must be an array');
+        await expect(fill([BigInt(1), -BigInt(1)])).rejects.toThrow('paysExt[1] (externalEuint64)');
+        await expect(fill(Array(33).fill(BigInt(1)))).rejects.toThrow('1 calls need 2112 bits');
+        expect(() => inputBits(functionParams(BASKET_ABI, 'fillBasketOrder'))).toThrow('depend on its length');
+        expect(calls).toEqual([]);
+    });
+});
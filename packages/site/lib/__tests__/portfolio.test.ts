@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { lockedInEscrow, lockedTotals } from '../portfolio';
+import type { Order } from '@/hooks/useOrders';
+
+const me = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const other = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const tokenA = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const tokenB = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+function handle(n: number): string {
+    return ethers.zeroPadValue(ethers.toBeHex(n), 30) + '0500';
+}
+
+function order(id: number, maker: string, fills: Order['fills'] = [], cancelled = false): Order {
+    return {
+        id: String(id),
+        maker,
+        tokenIn: tokenA,
+        tokenOut: tokenB,
+        amountInEnc: handle(100 + id),
+        amountOutEnc: handle(200 + id),
+        takerEnc: handle(300 + id),
+        deadline: 0,
+        cancelled,
+        remainingOutEnc: handle(400 + id),
+        pricedOutEnc: handle(200 + id),
+        settledFills: fills.filter((fill) => fill.settled).length,
+        fills,
+        reservedBy: ethers.ZeroAddress,
+        reservedUntil: 0,
+        createdAt: 0,
+        createdBlock: 0,
+    };
+}
+
+describe('portfolio', () => {
+    const orders = [
+        order(0, me),
+        order(1, me, [], true),
+        order(2, other, [
+            { index: 0, taker: me, payEnc: handle(500), receivedEnc: handle(501), settled: true },
+            { index: 1, taker: me, payEnc: handle(502), receivedEnc: handle(503), settled: false },
+            { index: 2, taker: other, payEnc: handle(504), receivedEnc: handle(505), settled: false },
+        ]),
+    ];
+
+    it('locks the remaining amountOut of open orders and the payment of pending fills', () => {
+        expect(lockedInEscrow(orders, me.toLowerCase())).toEqual([
+            { token: tokenB, handle: handle(400), orderId: '0', kind: 'order' },
+            { token: tokenA, handle: handle(502), orderId: '2', kind: 'fill' },
+        ]);
+    });
+
+    it('sums locked amounts per token once all are decrypted', () => {
+        const locked = [
+            ...lockedInEscrow(orders, me),
+            { token: tokenB, handle: handle(9), orderId: '3', kind: 'order' as const },
+        ];
+
+        expect(lockedTotals(locked, { [handle(400)]: BigInt(150), [handle(502)]: BigInt(20) })).toEqual({
+            [tokenA]: BigInt(20),
+            [tokenB]: undefined,
+        });
+        expect(
+            lockedTotals(locked, { [handle(400)]: BigInt(150), [handle(502)]: BigInt(20), [handle(9)]: BigInt(5) }),
+        ).toEqual({ [tokenA]: BigInt(20), [tokenB]: BigInt(155) });
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { decryptRevealedTerms, impliedPrice, revealedTermsToCsv, revealedTermsToJson } from '../revealedTerms';
+import type { FhevmInstance } from '@/fhevm/fhevmTypes';
+
+const maker = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const taker = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const tokenIn = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const tokenOut = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+// Handles with the euint64 (5) and eaddress (7) type bytes
+const amountInEnc = ethers.zeroPadValue('0x01', 30) + '0500';
+const amountOutEnc = ethers.zeroPadValue('0x02', 30) + '0500';
+const takerEnc = ethers.zeroPadValue('0x03', 30) + '0700';
+const pricedOutEnc = ethers.zeroPadValue('0x04', 30) + '0500';
+
+describe('revealedTerms', () => {
+    it('prices tokenIn per unit of tokenOut', () => {
+        expect(impliedPrice(BigInt(100), BigInt(200))).toBe(0.5);
+        expect(impliedPrice(BigInt(100), BigInt(0))).toBeUndefined();
+    });
+
+    it('decrypts the handles of all orders in one public request', async () => {
+        const publicDecrypt = vi.fn(async () => ({
+            [amountInEnc]: BigInt(100),
+            [amountOutEnc]: BigInt(200),
+            [takerEnc]: taker.toLowerCase(),
+        }));
+        const instance = { publicDecrypt } as unknown as FhevmInstance;
+
+        // An order that was never repriced: pricedOutEnc is the amountOut handle
+        const [terms] = await decryptRevealedTerms(instance, [
+            { id: '3', maker, tokenIn, tokenOut, amountInEnc, amountOutEnc, pricedOutEnc: amountOutEnc, takerEnc, revealedAt: 0, txHash: '0xabc' },
+        ]);
+
+        expect(publicDecrypt).toHaveBeenCalledTimes(1);
+        expect(terms).toEqual({
+            id: '3', maker, tokenIn, tokenOut, amountIn: BigInt(100), amountOut: BigInt(200), pricedOut: BigInt(200), taker, price: 0.5, revealedAt: 0, txHash: '0xabc',
+        });
+    });
+
+    it('prices an amended order against the amountOut its price applies to', async () => {
+        const publicDecrypt = vi.fn(async () => ({
+            [amountInEnc]: BigInt(50),
+            [amountOutEnc]: BigInt(200),
+            [pricedOutEnc]: BigInt(100),
+            [takerEnc]: taker.toLowerCase(),
+        }));
+        const instance = { publicDecrypt } as unknown as FhevmInstance;
+
+        const [terms] = await decryptRevealedTerms(instance, [
+            { id: '3', maker, tokenIn, tokenOut, amountInEnc, amountOutEnc, pricedOutEnc, takerEnc, revealedAt: 0, txHash: '0xabc' },
+        ]);
+
+        expect(terms).toMatchObject({ amountIn: BigInt(50), amountOut: BigInt(200), pricedOut: BigInt(100), price: 0.5 });
+    });
+
+    it('exports CSV and JSON', () => {
+        const terms = {
+            id: '3', maker, tokenIn, tokenOut, amountIn: BigInt(100), amountOut: BigInt(200), pricedOut: BigInt(200), taker, price: 0.5, revealedAt: 0, txHash: '0xabc',
+        };
+
+        expect(revealedTermsToCsv([terms]).split('\n')).toEqual([
+            'id,maker,tokenIn,tokenOut,amountIn,amountOut,pricedOut,taker,price,revealedAt,txHash',
+            `3,${maker},${tokenIn},${tokenOut},100,200,200,${taker},0.5,1970-01-01T00:00:00.000Z,0xabc`,
+            '',
+        ]);
+        expect(JSON.parse(revealedTermsToJson([terms]))[0]).toMatchObject({ amountIn: '100', amountOut: '200', pricedOut: '200', price: 0.5 });
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+    parseSignedOrder,
+    recoverSignedOrderMaker,
+    serializeSignedOrder,
+    signSignedOrder,
+    type SignedOrder,
+} from '../signedOrder';
+
+const escrowAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const chainId = BigInt(31337);
+// Hardhat account #0; a fixed key keeps the test deterministic
+const makerKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+function makeOrder(maker: string): SignedOrder {
+    return {
+        maker,
+        taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        tokenIn: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        tokenOut: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+        amountInExt: ethers.id('amountIn'),
+        amountOutExt: ethers.id('amountOut'),
+        inputProof: ethers.hexlify(ethers.toUtf8Bytes('input proof')),
+        deadline: BigInt(1759332928),
+        nonce: BigInt(1),
+    };
+}
+
+describe('signedOrder', () => {
+    it('recovers the maker from its signature', async () => {
+        const maker = new ethers.Wallet(makerKey);
+        const order = makeOrder(maker.address);
+
+        const signature = await signSignedOrder(maker, chainId, escrowAddress, order);
+
+        expect(recoverSignedOrderMaker(chainId, escrowAddress, order, signature)).toBe(maker.address);
+    });
+
+    it('does not recover the maker once the terms change', async () => {
+        const maker = new ethers.Wallet(makerKey);
+        const order = makeOrder(maker.address);
+        const signature = await signSignedOrder(maker, chainId, escrowAddress, order);
+
+        const tampered = { ...order, inputProof: ethers.hexlify(ethers.toUtf8Bytes('other proof')) };
+
+        expect(recoverSignedOrderMaker(chainId, escrowAddress, tampered, signature)).not.toBe(maker.address);
+    });
+
+    it('round-trips through the order file format', async () => {
+        const maker = new ethers.Wallet(makerKey);
+        const order = makeOrder(maker.address);
+        const signature = await signSignedOrder(maker, chainId, escrowAddress, order);
+
+        const parsed = parseSignedOrder(serializeSignedOrder(chainId, escrowAddress, order, signature));
+
+        expect(parsed).toEqual({ chainId, escrowAddress, order, signature });
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { findToken, pairLabel, tokenLabel, tokensForChain, type TokenRegistry } from '../tokens';
+
+const tokenIn = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const tokenOut = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const unknown = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const registry: TokenRegistry = {
+    '31337': [
+        { chainId: 31337, address: tokenIn, name: 'Token In', symbol: 'TIN', decimals: 6, icon: '🔵' },
+        { chainId: 31337, address: tokenOut, name: 'Token Out', symbol: 'TOUT', decimals: 6 },
+    ],
+};
+
+describe('tokens', () => {
+    it('lists the tokens of a chain', () => {
+        expect(tokensForChain(31337, registry).map((token) => token.symbol)).toEqual(['TIN', 'TOUT']);
+        expect(tokensForChain(11155111, registry)).toEqual([]);
+        expect(tokensForChain(undefined, registry)).toEqual([]);
+    });
+
+    it('finds a token whatever the address case, on its own chain only', () => {
+        expect(findToken(31337, tokenIn.toLowerCase(), registry)?.symbol).toBe('TIN');
+        expect(findToken(11155111, tokenIn, registry)).toBeUndefined();
+        expect(findToken(31337, 'not an address', registry)).toBeUndefined();
+    });
+
+    it('labels registered tokens by symbol and others by address', () => {
+        expect(tokenLabel(31337, tokenIn, registry)).toBe('🔵 TIN');
+        expect(tokenLabel(31337, tokenOut, registry)).toBe('TOUT');
+        expect(tokenLabel(31337, unknown, registry)).toBe('0x7099...79C8');
+        expect(pairLabel(31337, tokenIn, tokenOut, registry)).toBe('TOUT → 🔵 TIN');
+    });
+});
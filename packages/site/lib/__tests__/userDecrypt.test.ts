@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { chunkByBits, handleBits, userDecryptHandles } from '../userDecrypt';
+import type { FhevmInstance } from '@/fhevm/fhevmTypes';
+import { GenericStringInMemoryStorage } from '@/fhevm/GenericStringStorage';
+
+const escrowAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+// Hardhat account #0; a fixed key keeps the test deterministic
+const makerKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// A handle whose type byte is `type`; `n` keeps handles distinct
+function handle(n: number, type: number): string {
+    return ethers.zeroPadValue(ethers.toBeHex(n), 30) + type.toString(16).padStart(2, '0') + '00';
+}
+
+describe('userDecrypt', () => {
+    it('reads the bit width from the handle type', () => {
+        expect(handleBits(handle(1, 5))).toBe(64);
+        expect(handleBits(handle(1, 7))).toBe(160);
+        expect(() => handleBits(handle(1, 0x42))).toThrow('Unsupported handle type');
+    });
+
+    it('splits requests at 2048 bits', () => {
+        // One order's terms: two euint64 and an eaddress, 288 bits
+        const pairs = Array.from({ length: 8 }, (_, i) => [
+            { handle: handle(3 * i, 5), contractAddress: escrowAddress },
+            { handle: handle(3 * i + 1, 5), contractAddress: escrowAddress },
+            { handle: handle(3 * i + 2, 7), contractAddress: escrowAddress },
+        ]).flat();
+
+        const chunks = chunkByBits(pairs);
+        expect(chunks.map((chunk) => chunk.length)).toEqual([21, 3]);
+        expect(chunks.flat()).toEqual(pairs);
+    });
+
+    it('signs once and skips zero handles', async () => {
+        const signer = new ethers.Wallet(makerKey);
+        const userDecrypt = vi.fn(async (pairs: { handle: string }[]) =>
+            Object.fromEntries(pairs.map((pair, i) => [pair.handle, BigInt(i + 1)])),
+        );
+        const instance = {
+            generateKeypair: () => ({ publicKey: '0x01', privateKey: '0x02' }),
+            createEIP712: () => ({
+                domain: { chainId: 31337, name: 'Decryption', verifyingContract: escrowAddress, version: '1' },
+                types: { UserDecryptRequestVerification: [{ name: 'publicKey', type: 'bytes' }] },
+                message: { publicKey: '0x01' },
+                primaryType: 'UserDecryptRequestVerification',
+            }),
+            userDecrypt,
+        } as unknown as FhevmInstance;
+
+        const results = await userDecryptHandles(instance, signer, new GenericStringInMemoryStorage(), [
+            { handle: handle(1, 5), contractAddress: escrowAddress },
+            { handle: ethers.ZeroHash, contractAddress: escrowAddress },
+        ]);
+
+        expect(userDecrypt).toHaveBeenCalledTimes(1);
+        expect(results).toEqual({ [handle(1, 5)]: BigInt(1), [ethers.ZeroHash]: BigInt(0) });
+    });
+});
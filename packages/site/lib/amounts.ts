@@ -0,0 +1,2 @@
+// Token amount parsing and formatting, shared with the Hardhat tasks
+export * from "../../fhevm-hardhat-template/src/amounts";
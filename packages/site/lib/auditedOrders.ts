@@ -0,0 +1,62 @@
+import { ethers } from "ethers";
+import type { Order } from "@/hooks/useOrders";
+
+export type AuditedFill = {
+    index: number;
+    taker: string;
+    settled: boolean;
+    paid?: bigint; // tokenIn the maker received, once settled
+    received?: bigint; // tokenOut the taker received net of the fee, once settled
+};
+
+// An order as its auditor sees it; clear values stay undefined until decrypted
+export type AuditedOrder = {
+    order: Order;
+    amountIn?: bigint; // price of pricedOut
+    amountOut?: bigint;
+    pricedOut?: bigint; // amountOut, or what remained when the maker last amended the price
+    taker?: string; // zero address when anyone may fill
+    remainingOut?: bigint;
+    fills: AuditedFill[];
+};
+
+type ClearValues = Record<string, bigint | boolean | string>;
+
+/**
+ * Handles the escrow allows an auditor: the terms, the remaining amountOut and the outcome of each settled
+ * fill. Pending fills hold the taker's offer, which is not shared with auditors.
+ */
+export function auditedHandles(order: Order): string[] {
+    return [
+        order.amountInEnc,
+        order.amountOutEnc,
+        order.pricedOutEnc,
+        order.takerEnc,
+        order.remainingOutEnc,
+        ...order.fills.filter((fill) => fill.settled).flatMap((fill) => [fill.payEnc, fill.receivedEnc]),
+    ];
+}
+
+function clearAmount(clear: ClearValues, handle: string): bigint | undefined {
+    const value = clear[handle];
+    return value === undefined ? undefined : BigInt(value);
+}
+
+export function auditOrder(order: Order, clear: ClearValues): AuditedOrder {
+    const taker = clear[order.takerEnc];
+    return {
+        order,
+        amountIn: clearAmount(clear, order.amountInEnc),
+        amountOut: clearAmount(clear, order.amountOutEnc),
+        pricedOut: clearAmount(clear, order.pricedOutEnc),
+        taker: taker === undefined ? undefined : typeof taker === "string" ? ethers.getAddress(taker) : ethers.ZeroAddress,
+        remainingOut: clearAmount(clear, order.remainingOutEnc),
+        fills: order.fills.map((fill) => ({
+            index: fill.index,
+            taker: fill.taker,
+            settled: fill.settled,
+            paid: fill.settled ? clearAmount(clear, fill.payEnc) : undefined,
+            received: fill.settled ? clearAmount(clear, fill.receivedEnc) : undefined,
+        })),
+    };
+}
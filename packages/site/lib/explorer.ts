@@ -0,0 +1,11 @@
+// Block explorers for the chains the demo is deployed on; local chains have none
+const EXPLORERS: Record<number, string> = {
+    1: "https://etherscan.io",
+    11155111: "https://sepolia.etherscan.io",
+    84532: "https://sepolia.basescan.org",
+};
+
+export function explorerTxUrl(chainId: number | undefined, txHash: string): string | undefined {
+    const base = chainId !== undefined ? EXPLORERS[chainId] : undefined;
+    return base ? `${base}/tx/${txHash}` : undefined;
+}
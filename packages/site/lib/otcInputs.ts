@@ -0,0 +1,275 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { OTC_ABI } from "@/abi/otc";
+import { BASKET_ABI } from "@/abi/basket";
+import { CONFIDENTIAL_TOKEN_ABI } from "@/abi/confidentialToken";
+
+type AbiParam = {
+    readonly name: string;
+    readonly type: string;
+    readonly internalType?: string;
+    readonly components?: readonly AbiParam[];
+};
+type AbiItem = { readonly type: string; readonly name?: string; readonly inputs?: readonly AbiParam[] };
+
+type EncryptedInput = ReturnType<FhevmInstance["createEncryptedInput"]>;
+
+// Solidity external input types and how the relayer SDK encrypts each of them
+const ENCRYPTED_TYPES = {
+    externalEbool: { bits: 1, add: (input: EncryptedInput, value: boolean) => input.addBool(value) },
+    externalEuint8: { bits: 8, add: (input: EncryptedInput, value: bigint) => input.add8(value) },
+    externalEuint16: { bits: 16, add: (input: EncryptedInput, value: bigint) => input.add16(value) },
+    externalEuint32: { bits: 32, add: (input: EncryptedInput, value: bigint) => input.add32(value) },
+    externalEuint64: { bits: 64, add: (input: EncryptedInput, value: bigint) => input.add64(value) },
+    externalEuint128: { bits: 128, add: (input: EncryptedInput, value: bigint) => input.add128(value) },
+    externalEuint256: { bits: 256, add: (input: EncryptedInput, value: bigint) => input.add256(value) },
+    externalEaddress: { bits: 160, add: (input: EncryptedInput, value: string) => input.addAddress(value) },
+} as const;
+
+type EncryptedType = keyof typeof ENCRYPTED_TYPES;
+// An encrypted parameter is one of ENCRYPTED_TYPES or an array of one (e.g. a basket's externalEuint64[] legs)
+type EncryptedParamType = EncryptedType | `${EncryptedType}[]`;
+type ClearScalar<T> = T extends "externalEbool" ? boolean : T extends "externalEaddress" ? string : bigint;
+type ClearValue<T> = T extends `${infer E}[]` ? readonly ClearScalar<E>[] : ClearScalar<T>;
+
+// Clear values for the encrypted parameters of `P`, keyed by parameter name
+export type EncryptedParams<P extends readonly AbiParam[]> = {
+    [K in P[number] as K["internalType"] extends EncryptedParamType ? K["name"] : never]: ClearValue<K["internalType"]>;
+};
+
+// Handles for the encrypted parameters of `P`: one per value, so an array parameter gets an array of handles
+export type EncryptedHandles<P extends readonly AbiParam[]> = {
+    [K in P[number] as K["internalType"] extends EncryptedParamType ? K["name"] : never]:
+        K["internalType"] extends `${string}[]` ? Uint8Array[] : Uint8Array;
+};
+
+export type EncryptedInputs<P extends readonly AbiParam[]> = {
+    handles: EncryptedHandles<P>;
+    inputProof: Uint8Array;
+};
+
+// Handles of several calls to the same function, all covered by one inputProof
+export type EncryptedBatchInputs<P extends readonly AbiParam[]> = {
+    handles: EncryptedHandles<P>[];
+    inputProof: Uint8Array;
+};
+
+// The relayer encrypts at most this many bits of values under one input proof
+export const MAX_INPUT_BITS = 2048;
+
+type FunctionItem<A extends readonly AbiItem[], F extends string> = Extract<A[number], { type: "function"; name: F }>;
+type FunctionParams<A extends readonly AbiItem[], F extends string> = NonNullable<FunctionItem<A, F>["inputs"]>;
+
+// Functions of `A` taking at least one encrypted input
+type EncryptedFunction<A extends readonly AbiItem[]> = {
+    [I in A[number] as I extends { type: "function"; name: string; inputs: readonly AbiParam[] }
+        ? I["inputs"][number]["internalType"] extends infer T
+            ? Extract<T, EncryptedParamType> extends never ? never : I["name"]
+            : never
+        : never]: true;
+} extends infer M ? keyof M & string : never;
+
+export type OtcEncryptedFunction = EncryptedFunction<typeof OTC_ABI>;
+export type TokenEncryptedFunction = EncryptedFunction<typeof CONFIDENTIAL_TOKEN_ABI>;
+export type BasketEncryptedFunction = EncryptedFunction<typeof BASKET_ABI>;
+
+// `array` marks an array parameter, whose values are encrypted one after another in array order
+type SchemaEntry = { name: string; type: EncryptedType; array?: true };
+
+/** The encrypted parameters of an ABI parameter list, in the order the input proof must cover them. */
+export function encryptedSchema(params: readonly AbiParam[]): SchemaEntry[] {
+    return params.flatMap((param): SchemaEntry[] => {
+        const internalType = param.internalType ?? "";
+        if (internalType in ENCRYPTED_TYPES) {
+            return [{ name: param.name, type: internalType as EncryptedType }];
+        }
+        const element = internalType.endsWith("[]") ? internalType.slice(0, -2) : "";
+        return element in ENCRYPTED_TYPES ? [{ name: param.name, type: element as EncryptedType, array: true }] : [];
+    });
+}
+
+export function functionParams(abi: readonly AbiItem[], functionName: string): readonly AbiParam[] {
+    const matches = abi.filter((item) => item.type === "function" && item.name === functionName);
+    const withEncrypted = matches.filter((item) => encryptedSchema(item.inputs ?? []).length > 0);
+    if (withEncrypted.length !== 1) {
+        throw new Error(`Expected one ${functionName} taking encrypted inputs, found ${withEncrypted.length}`);
+    }
+    return withEncrypted[0].inputs ?? [];
+}
+
+// Bits one set of values for `params` takes in an input proof. Array parameters take as many bits as they
+// have values, so this throws for them: count the values instead.
+export function inputBits(params: readonly AbiParam[]): number {
+    const schema = encryptedSchema(params);
+    const array = schema.find((entry) => entry.array);
+    if (array) {
+        throw new Error(`The bits of ${array.name} (${array.type}[]) depend on its length`);
+    }
+    return schema.reduce((bits, entry) => bits + ENCRYPTED_TYPES[entry.type].bits, 0);
+}
+
+// The values of `entry` in `values`, in the order they are encrypted
+function entryValues(entry: SchemaEntry, values: Record<string, unknown>): unknown[] {
+    const value = values[entry.name];
+    return entry.array ? [...(value as unknown[])] : [value];
+}
+
+function checkValue(entry: SchemaEntry, value: unknown) {
+    if (entry.array) {
+        if (!Array.isArray(value)) throw new Error(`${entry.name} (${entry.type}[]) must be an array`);
+        value.forEach((element, i) => checkValue({ name: `${entry.name}[${i}]`, type: entry.type }, element));
+        return;
+    }
+    if (entry.type === "externalEbool") {
+        if (typeof value !== "boolean") throw new Error(`${entry.name} (${entry.type}) must be a boolean`);
+        return;
+    }
+    if (entry.type === "externalEaddress") {
+        if (typeof value !== "string" || !ethers.isAddress(value)) throw new Error(`${entry.name} (${entry.type}) must be an address`);
+        return;
+    }
+    const bits = ENCRYPTED_TYPES[entry.type].bits;
+    if (typeof value !== "bigint" || value < BigInt(0) || value >= BigInt(1) << BigInt(bits)) {
+        throw new Error(`${entry.name} (${entry.type}) must be a bigint in [0, 2^${bits})`);
+    }
+}
+
+/**
+ * Encrypts `values` for `contractAddress` and `userAddress` as the parameters `params` expect, in their ABI
+ * order. The values are typed from the ABI's internalType, and checked again at runtime before encrypting,
+ * so a missing value, an extra one or one that does not fit its type throws before anything is sent. An array
+ * parameter takes an array of values and gets an array of handles back.
+ */
+export async function buildEncryptedInputs<P extends readonly AbiParam[]>(
+    instance: FhevmInstance,
+    contractAddress: string,
+    userAddress: string,
+    params: P,
+    values: EncryptedParams<P>,
+): Promise<EncryptedInputs<P>> {
+    const enc = await buildEncryptedBatchInputs(instance, contractAddress, userAddress, params, [values]);
+    return { handles: enc.handles[0], inputProof: enc.inputProof };
+}
+
+/**
+ * Like buildEncryptedInputs for several calls to the same function: every set of values is encrypted, in
+ * order, into one input, so the calls share a single inputProof. Throws when the values exceed MAX_INPUT_BITS.
+ */
+export async function buildEncryptedBatchInputs<P extends readonly AbiParam[]>(
+    instance: FhevmInstance,
+    contractAddress: string,
+    userAddress: string,
+    params: P,
+    valuesList: readonly EncryptedParams<P>[],
+): Promise<EncryptedBatchInputs<P>> {
+    const schema = encryptedSchema(params);
+    for (const values of valuesList) {
+        const given = values as Record<string, unknown>;
+        const unexpected = Object.keys(given).filter((name) => !schema.some((entry) => entry.name === name));
+        if (unexpected.length > 0) {
+            throw new Error(`Unexpected encrypted inputs: ${unexpected.join(", ")}`);
+        }
+        schema.forEach((entry) => checkValue(entry, given[entry.name]));
+    }
+    const bits = valuesList.reduce(
+        (total, values) => total + schema.reduce(
+            (sum, entry) => sum + ENCRYPTED_TYPES[entry.type].bits * entryValues(entry, values as Record<string, unknown>).length,
+            0,
+        ),
+        0,
+    );
+    if (bits > MAX_INPUT_BITS) {
+        throw new Error(
+            `${valuesList.length} calls need ${bits} bits of encrypted values, one input proof covers at most ${MAX_INPUT_BITS}`,
+        );
+    }
+
+    const input = instance.createEncryptedInput(contractAddress, userAddress);
+    for (const values of valuesList) {
+        for (const entry of schema) {
+            for (const value of entryValues(entry, values as Record<string, unknown>)) {
+                (ENCRYPTED_TYPES[entry.type].add as (input: EncryptedInput, value: unknown) => void)(input, value);
+            }
+        }
+    }
+    const enc = await input.encrypt();
+
+    // Handles come back in the order the values were added
+    let next = 0;
+    const handles = valuesList.map((values) =>
+        Object.fromEntries(schema.map((entry) => {
+            const count = entryValues(entry, values as Record<string, unknown>).length;
+            const taken = enc.handles.slice(next, next + count);
+            next += count;
+            return [entry.name, entry.array ? taken : taken[0]];
+        })),
+    );
+    return { handles, inputProof: enc.inputProof } as EncryptedBatchInputs<P>;
+}
+
+// Encrypted inputs of an escrow function, e.g. buildOtcInputs(instance, "fillOrder", escrow, taker, { takerPayExt, takerReceiveExt })
+export function buildOtcInputs<F extends OtcEncryptedFunction>(
+    instance: FhevmInstance,
+    functionName: F,
+    otcAddress: string,
+    userAddress: string,
+    values: EncryptedParams<FunctionParams<typeof OTC_ABI, F>>,
+): Promise<EncryptedInputs<FunctionParams<typeof OTC_ABI, F>>> {
+    const params = functionParams(OTC_ABI, functionName) as FunctionParams<typeof OTC_ABI, F>;
+    return buildEncryptedInputs(instance, otcAddress, userAddress, params, values);
+}
+
+// Encrypted inputs of several calls to an escrow function under one proof, e.g. for a multicall of createOrder
+export function buildOtcBatchInputs<F extends OtcEncryptedFunction>(
+    instance: FhevmInstance,
+    functionName: F,
+    otcAddress: string,
+    userAddress: string,
+    valuesList: readonly EncryptedParams<FunctionParams<typeof OTC_ABI, F>>[],
+): Promise<EncryptedBatchInputs<FunctionParams<typeof OTC_ABI, F>>> {
+    const params = functionParams(OTC_ABI, functionName) as FunctionParams<typeof OTC_ABI, F>;
+    return buildEncryptedBatchInputs(instance, otcAddress, userAddress, params, valuesList);
+}
+
+// Most calls to an escrow function whose values fit under one input proof (7 createOrder, 16 fillOrder)
+export function maxOtcBatchSize(functionName: OtcEncryptedFunction): number {
+    return Math.floor(MAX_INPUT_BITS / inputBits(functionParams(OTC_ABI, functionName)));
+}
+
+// Encrypted inputs of a confidential token function (mint, confidentialTransfer, confidentialTransferFrom)
+export function buildTokenInputs<F extends TokenEncryptedFunction>(
+    instance: FhevmInstance,
+    functionName: F,
+    tokenAddress: string,
+    userAddress: string,
+    values: EncryptedParams<FunctionParams<typeof CONFIDENTIAL_TOKEN_ABI, F>>,
+): Promise<EncryptedInputs<FunctionParams<typeof CONFIDENTIAL_TOKEN_ABI, F>>> {
+    const params = functionParams(CONFIDENTIAL_TOKEN_ABI, functionName) as FunctionParams<typeof CONFIDENTIAL_TOKEN_ABI, F>;
+    return buildEncryptedInputs(instance, tokenAddress, userAddress, params, values);
+}
+
+// Encrypted inputs of a basket escrow function, e.g. buildBasketInputs(instance, "fillBasketOrder", basket, taker, { paysExt: [a, b] })
+export function buildBasketInputs<F extends BasketEncryptedFunction>(
+    instance: FhevmInstance,
+    functionName: F,
+    basketAddress: string,
+    userAddress: string,
+    values: EncryptedParams<FunctionParams<typeof BASKET_ABI, F>>,
+): Promise<EncryptedInputs<FunctionParams<typeof BASKET_ABI, F>>> {
+    const params = functionParams(BASKET_ABI, functionName) as FunctionParams<typeof BASKET_ABI, F>;
+    return buildEncryptedInputs(instance, basketAddress, userAddress, params, values);
+}
+
+type SignedOrderParams = NonNullable<Extract<FunctionParams<typeof OTC_ABI, "fillSignedOrder">[number], { name: "order" }>["components"]>;
+
+// Encrypted terms of a signed order: the SignedOrder struct's own encrypted fields, under the order's inputProof
+export function buildSignedOrderInputs(
+    instance: FhevmInstance,
+    otcAddress: string,
+    takerAddress: string,
+    values: EncryptedParams<SignedOrderParams>,
+): Promise<EncryptedInputs<SignedOrderParams>> {
+    const order = functionParams(OTC_ABI, "fillSignedOrder").find((param) => param.name === "order");
+    const params = (order?.components ?? []) as SignedOrderParams;
+    return buildEncryptedInputs(instance, otcAddress, takerAddress, params, values);
+}
@@ -0,0 +1,49 @@
+import { ethers } from "ethers";
+import type { Order } from "@/hooks/useOrders";
+
+// One encrypted amount of an account's tokens held by the escrow
+export type LockedAmount = {
+    token: string; // checksummed
+    handle: string;
+    orderId: string;
+    kind: "order" | "fill"; // remaining amountOut of the account's order, or its pending fill payment
+};
+
+/**
+ * What `account` has locked in the escrow: the remaining amountOut of each of its orders that is not closed
+ * (an expired order keeps its escrow until reclaimed) and the payment of each of its fills not settled yet.
+ * The escrow lets the maker and the taker decrypt these handles.
+ */
+export function lockedInEscrow(orders: Order[], account: string): LockedAmount[] {
+    const me = account.toLowerCase();
+    const locked: LockedAmount[] = [];
+
+    for (const order of orders) {
+        if (order.maker.toLowerCase() === me && !order.cancelled) {
+            locked.push({ token: ethers.getAddress(order.tokenOut), handle: order.remainingOutEnc, orderId: order.id, kind: "order" });
+        }
+        for (const fill of order.fills) {
+            if (fill.taker.toLowerCase() === me && !fill.settled) {
+                locked.push({ token: ethers.getAddress(order.tokenIn), handle: fill.payEnc, orderId: order.id, kind: "fill" });
+            }
+        }
+    }
+    return locked;
+}
+
+// Decrypted locked amounts per token; undefined for a token until all of its handles are decrypted
+export function lockedTotals(
+    locked: LockedAmount[],
+    clear: Record<string, bigint | boolean | string>,
+): Record<string, bigint | undefined> {
+    const totals: Record<string, bigint | undefined> = {};
+    for (const { token, handle } of locked) {
+        const value = clear[handle];
+        if (value === undefined) {
+            totals[token] = undefined;
+        } else if (!(token in totals) || totals[token] !== undefined) {
+            totals[token] = (totals[token] ?? BigInt(0)) + BigInt(value);
+        }
+    }
+    return totals;
+}
@@ -0,0 +1,86 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { chunkByBits } from "@/lib/userDecrypt";
+
+// Terms of an order after the maker called revealTerms; anyone can read them through public decryption
+export type RevealedTerms = {
+    id: string;
+    maker: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint; // price of pricedOut
+    amountOut: bigint; // order size
+    pricedOut: bigint; // amountOut, or what remained when the maker last amended the price
+    taker: string; // zero address when anyone could fill
+    price?: number; // tokenIn paid per unit of tokenOut (amountIn / pricedOut), undefined for an empty order
+    revealedAt: number; // ms, block timestamp of TermsRevealed
+    txHash: string;
+};
+
+type RevealedOrder = Pick<RevealedTerms, "id" | "maker" | "tokenIn" | "tokenOut" | "revealedAt" | "txHash"> & {
+    amountInEnc: string;
+    amountOutEnc: string;
+    pricedOutEnc: string;
+    takerEnc: string;
+};
+
+// Base units, as the escrow does not know token decimals
+export function impliedPrice(amountIn: bigint, amountOut: bigint): number | undefined {
+    return amountOut === BigInt(0) ? undefined : Number(amountIn) / Number(amountOut);
+}
+
+/**
+ * Reads the revealed handles of each order through the relayer's public decryption (the mock instance
+ * answers locally on Hardhat), batching the handles of all orders.
+ */
+export async function decryptRevealedTerms(instance: FhevmInstance, orders: RevealedOrder[]): Promise<RevealedTerms[]> {
+    const handles = [...new Set(orders.flatMap((o) => [o.amountInEnc, o.amountOutEnc, o.pricedOutEnc, o.takerEnc]))]
+        .filter((handle) => handle !== ethers.ZeroHash);
+
+    const clear: Record<string, bigint | boolean | string> = {};
+    for (const chunk of chunkByBits(handles)) {
+        Object.assign(clear, await instance.publicDecrypt(chunk));
+    }
+
+    return orders.map(({ amountInEnc, amountOutEnc, pricedOutEnc, takerEnc, ...order }) => {
+        const amountIn = BigInt(clear[amountInEnc] ?? 0);
+        const amountOut = BigInt(clear[amountOutEnc] ?? 0);
+        const pricedOut = BigInt(clear[pricedOutEnc] ?? 0);
+        const taker = clear[takerEnc];
+        return {
+            ...order,
+            amountIn,
+            amountOut,
+            pricedOut,
+            taker: typeof taker === "string" ? ethers.getAddress(taker) : ethers.ZeroAddress,
+            price: impliedPrice(amountIn, pricedOut),
+        };
+    });
+}
+
+const CSV_COLUMNS: (keyof RevealedTerms)[] = [
+    "id", "maker", "tokenIn", "tokenOut", "amountIn", "amountOut", "pricedOut", "taker", "price", "revealedAt", "txHash",
+];
+
+export function revealedTermsToCsv(terms: RevealedTerms[]): string {
+    const rows = terms.map((t) => CSV_COLUMNS.map((column) => {
+        const value = t[column];
+        if (value === undefined) return "";
+        return column === "revealedAt" ? new Date(value as number).toISOString() : String(value);
+    }).join(","));
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function revealedTermsToJson(terms: RevealedTerms[]): string {
+    return JSON.stringify(
+        terms.map((t) => ({
+            ...t,
+            amountIn: t.amountIn.toString(),
+            amountOut: t.amountOut.toString(),
+            pricedOut: t.pricedOut.toString(),
+            revealedAt: new Date(t.revealedAt).toISOString(),
+        })),
+        null,
+        2,
+    );
+}
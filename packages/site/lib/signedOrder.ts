@@ -0,0 +1,141 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { buildSignedOrderInputs } from "@/lib/otcInputs";
+
+// EIP-712 signed OTC orders (RFQ quotes), settled by the taker with ConfidentialOtcEscrowWithOZ.fillSignedOrder.
+// The JSON file format matches the Hardhat tasks task:otc-sign-order / task:otc-fill-signed-order.
+
+export type SignedOrder = {
+    maker: string;
+    taker: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountInExt: string; // bytes32 handle, encrypted for (escrow, taker)
+    amountOutExt: string; // bytes32 handle, encrypted for (escrow, taker)
+    inputProof: string;
+    deadline: bigint;
+    nonce: bigint;
+};
+
+export type SignedOrderFile = {
+    chainId: string;
+    verifyingContract: string;
+    order: Record<keyof SignedOrder, string>;
+    signature: string;
+};
+
+export const SIGNED_ORDER_TYPES = {
+    SignedOrder: [
+        { name: "maker", type: "address" },
+        { name: "taker", type: "address" },
+        { name: "tokenIn", type: "address" },
+        { name: "tokenOut", type: "address" },
+        { name: "amountInExt", type: "bytes32" },
+        { name: "amountOutExt", type: "bytes32" },
+        { name: "inputProofHash", type: "bytes32" },
+        { name: "deadline", type: "uint64" },
+        { name: "nonce", type: "uint256" },
+    ],
+};
+
+export function signedOrderDomain(chainId: bigint | number, escrowAddress: string): ethers.TypedDataDomain {
+    return {
+        name: "ConfidentialOtcEscrow",
+        version: "1",
+        chainId,
+        verifyingContract: escrowAddress,
+    };
+}
+
+// The contract signs inputProof through its hash, so the typed message replaces it with inputProofHash
+function toTypedMessage(order: SignedOrder) {
+    const { inputProof, ...fields } = order;
+    return { ...fields, inputProofHash: ethers.keccak256(inputProof) };
+}
+
+/**
+ * Encrypts the maker's terms for `taker` and returns the unsigned order. The taker submits the
+ * handles, so the input proof has to be bound to the taker's address rather than the maker's.
+ */
+export async function encodeSignedOrder(
+    instance: FhevmInstance,
+    escrowAddress: string,
+    params: {
+        maker: string;
+        taker: string;
+        tokenIn: string;
+        tokenOut: string;
+        amountIn: bigint;
+        amountOut: bigint;
+        deadline: bigint;
+        nonce?: bigint;
+    },
+): Promise<SignedOrder> {
+    if (params.taker === ethers.ZeroAddress) {
+        throw new Error("Signed orders must be quoted to a specific taker");
+    }
+
+    const enc = await buildSignedOrderInputs(instance, escrowAddress, params.taker, {
+        amountInExt: params.amountIn,
+        amountOutExt: params.amountOut,
+    });
+
+    return {
+        maker: params.maker,
+        taker: params.taker,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountInExt: ethers.hexlify(enc.handles.amountInExt),
+        amountOutExt: ethers.hexlify(enc.handles.amountOutExt),
+        inputProof: ethers.hexlify(enc.inputProof),
+        deadline: params.deadline,
+        nonce: params.nonce ?? BigInt(Date.now()),
+    };
+}
+
+export async function signSignedOrder(
+    signer: ethers.Signer,
+    chainId: bigint | number,
+    escrowAddress: string,
+    order: SignedOrder,
+): Promise<string> {
+    return signer.signTypedData(signedOrderDomain(chainId, escrowAddress), SIGNED_ORDER_TYPES, toTypedMessage(order));
+}
+
+export function recoverSignedOrderMaker(
+    chainId: bigint | number,
+    escrowAddress: string,
+    order: SignedOrder,
+    signature: string,
+): string {
+    return ethers.verifyTypedData(signedOrderDomain(chainId, escrowAddress), SIGNED_ORDER_TYPES, toTypedMessage(order), signature);
+}
+
+export function serializeSignedOrder(
+    chainId: bigint | number,
+    escrowAddress: string,
+    order: SignedOrder,
+    signature: string,
+): string {
+    const file: SignedOrderFile = {
+        chainId: chainId.toString(),
+        verifyingContract: escrowAddress,
+        order: { ...order, deadline: order.deadline.toString(), nonce: order.nonce.toString() },
+        signature,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+export function parseSignedOrder(json: string): { chainId: bigint; escrowAddress: string; order: SignedOrder; signature: string } {
+    const file = JSON.parse(json) as SignedOrderFile;
+    if (!file.order || !file.signature || !ethers.isAddress(file.verifyingContract)) {
+        throw new Error("Not a signed order file");
+    }
+
+    return {
+        chainId: BigInt(file.chainId),
+        escrowAddress: file.verifyingContract,
+        order: { ...file.order, deadline: BigInt(file.order.deadline), nonce: BigInt(file.order.nonce) },
+        signature: file.signature,
+    };
+}
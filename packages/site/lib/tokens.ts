@@ -0,0 +1,45 @@
+import { ethers } from "ethers";
+import { TOKEN_REGISTRY } from "@/abi/tokenRegistry";
+
+export type TokenMetadata = {
+    chainId: number;
+    address: `0x${string}`;
+    name: string;
+    symbol: string;
+    decimals: number;
+    icon?: string; // emoji shown before the symbol
+};
+
+// Known confidential tokens by chainId, generated by `npm run genabi` from the deployments and config/tokens.json
+export type TokenRegistry = Record<string, readonly TokenMetadata[]>;
+
+export function tokensForChain(chainId: number | undefined, registry: TokenRegistry = TOKEN_REGISTRY): readonly TokenMetadata[] {
+    return chainId === undefined ? [] : registry[chainId.toString()] ?? [];
+}
+
+export function findToken(
+    chainId: number | undefined,
+    address: string,
+    registry: TokenRegistry = TOKEN_REGISTRY,
+): TokenMetadata | undefined {
+    if (!ethers.isAddress(address)) return undefined;
+    const wanted = address.toLowerCase();
+    return tokensForChain(chainId, registry).find((token) => token.address.toLowerCase() === wanted);
+}
+
+// "🪙 TIN" for registered tokens, a shortened address otherwise
+export function tokenLabel(chainId: number | undefined, address: string, registry: TokenRegistry = TOKEN_REGISTRY): string {
+    const token = findToken(chainId, address, registry);
+    if (!token) return `${address.slice(0, 6)}...${address.slice(-4)}`;
+    return token.icon ? `${token.icon} ${token.symbol}` : token.symbol;
+}
+
+// What a maker gives for what they get, e.g. "TOUT → TIN"
+export function pairLabel(
+    chainId: number | undefined,
+    tokenIn: string,
+    tokenOut: string,
+    registry: TokenRegistry = TOKEN_REGISTRY,
+): string {
+    return `${tokenLabel(chainId, tokenOut, registry)} → ${tokenLabel(chainId, tokenIn, registry)}`;
+}
@@ -0,0 +1,86 @@
+import { ethers } from "ethers";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import type { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import type { DecryptedResults, FhevmInstance, HandleContractPair } from "@/fhevm/fhevmTypes";
+
+// The relayer rejects userDecrypt requests over 2048 encrypted bits
+const MAX_BITS_PER_REQUEST = 2048;
+
+// Bit width by the FHE type byte embedded in a handle (second to last byte)
+const HANDLE_BITS: Record<number, number> = {
+    0: 2, // ebool
+    2: 8,
+    3: 16,
+    4: 32,
+    5: 64,
+    6: 128,
+    7: 160, // eaddress
+    8: 256,
+};
+
+export function handleBits(handle: string): number {
+    const bits = HANDLE_BITS[parseInt(handle.slice(-4, -2), 16)];
+    if (bits === undefined) throw new Error(`Unsupported handle type: ${handle}`);
+    return bits;
+}
+
+// Splits the handles (or handle/contract pairs) into requests the relayer accepts, keeping their order
+export function chunkByBits<T extends string | HandleContractPair>(items: T[], maxBits: number = MAX_BITS_PER_REQUEST): T[][] {
+    const chunks: T[][] = [];
+    let current: T[] = [];
+    let bits = 0;
+
+    for (const item of items) {
+        const size = handleBits(typeof item === "string" ? item : (item.handle as string));
+        if (current.length > 0 && bits + size > maxBits) {
+            chunks.push(current);
+            current = [];
+            bits = 0;
+        }
+        current.push(item);
+        bits += size;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+}
+
+/**
+ * Decrypts handles the signer was granted access to. One decryption signature covers every contract in
+ * `pairs` and is cached in `storage`, so the wallet only prompts once per contract set; the handles are
+ * sent in as few requests as the relayer's size limit allows. Uninitialized (zero) handles decrypt to 0.
+ */
+export async function userDecryptHandles(
+    instance: FhevmInstance,
+    signer: ethers.Signer,
+    storage: GenericStringStorage,
+    pairs: HandleContractPair[],
+): Promise<DecryptedResults> {
+    const results: DecryptedResults = {};
+    const pending = pairs.filter((pair) => {
+        if (pair.handle !== ethers.ZeroHash) return true;
+        results[pair.handle] = BigInt(0);
+        return false;
+    });
+    if (pending.length === 0) return results;
+
+    const contractAddresses = [...new Set(pending.map((pair) => ethers.getAddress(pair.contractAddress)))];
+    const sig = await FhevmDecryptionSignature.loadOrSign(instance, contractAddresses, signer, storage);
+    if (!sig) throw new Error("Unable to build FHEVM decryption signature");
+
+    for (const chunk of chunkByBits(pending)) {
+        Object.assign(
+            results,
+            await instance.userDecrypt(
+                chunk,
+                sig.privateKey,
+                sig.publicKey,
+                sig.signature,
+                sig.contractAddresses,
+                sig.userAddress,
+                sig.startTimestamp,
+                sig.durationDays,
+            ),
+        );
+    }
+    return results;
+}
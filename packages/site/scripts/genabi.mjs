@@ -134,3 +134,54 @@ fs.writeFileSync(
   tsAddresses,
   "utf-8"
 );
+
+// Token registry: config/tokens.json lists tokens by chainId, either in full or as
+// { "deployment": "<hardhat-deploy name>", ...overrides } resolved from the deployments above
+const TOKENS_CONFIG = path.resolve("./config/tokens.json");
+const CHAIN_NAMES = { 31337: "localhost", 11155111: "sepolia" };
+// ConfidentialFungibleToken's default
+const DEFAULT_TOKEN_DECIMALS = 6;
+
+function readTokenDeployment(chainId, deploymentName) {
+  const file = path.join(deploymentsDir, CHAIN_NAMES[chainId] ?? "", `${deploymentName}.json`);
+  if (!CHAIN_NAMES[chainId] || !fs.existsSync(file)) {
+    return undefined;
+  }
+  const obj = JSON.parse(fs.readFileSync(file, "utf-8"));
+  // ConfidentialTokenExample(amount, name, symbol, tokenURI)
+  return { address: obj.address, name: obj.args?.[1], symbol: obj.args?.[2] };
+}
+
+const tokensConfig = JSON.parse(fs.readFileSync(TOKENS_CONFIG, "utf-8"));
+const tokenRegistry = {};
+for (const [chainIdKey, entries] of Object.entries(tokensConfig)) {
+  const chainId = Number(chainIdKey);
+  tokenRegistry[chainIdKey] = [];
+  for (const { deployment, ...entry } of entries) {
+    const deployed = deployment ? readTokenDeployment(chainId, deployment) : {};
+    if (!deployed) {
+      console.warn(`Token '${deployment}' is not deployed on chain ${chainId}, skipping it.`);
+      continue;
+    }
+    const token = { chainId, decimals: DEFAULT_TOKEN_DECIMALS, ...deployed, ...entry };
+    if (!/^0x[0-9a-fA-F]{40}$/.test(token.address ?? "") || !token.name || !token.symbol) {
+      console.error(`${line}Invalid token ${JSON.stringify(token)} in ${TOKENS_CONFIG}: address, name and symbol are required.${line}`);
+      process.exit(1);
+    }
+    tokenRegistry[chainIdKey].push(token);
+  }
+}
+
+const tsTokenRegistry = `
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+  Edit config/tokens.json to add tokens.
+*/
+import type { TokenRegistry } from "@/lib/tokens";
+
+export const TOKEN_REGISTRY: TokenRegistry = ${JSON.stringify(tokenRegistry, null, 2)};
+`;
+
+console.log(`Generated ${path.join(outdir, "tokenRegistry.ts")}`);
+fs.writeFileSync(path.join(outdir, "tokenRegistry.ts"), tsTokenRegistry, "utf-8");
@@ -1,9 +1,14 @@
 import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
+import path from "path";
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Same as the "@/*" path in tsconfig.json
+    alias: { "@": path.resolve(__dirname, ".") },
+  },
   test: {
     environment: "jsdom",
   },